@@ -54,6 +54,12 @@ function parseArgs() {
 
 function safeParseEmbedding(raw) {
   if (!raw) return null;
+  // Current schema: Float32 BLOB (see src/lib/vectors.ts); older databases stored JSON text
+  if (Buffer.isBuffer(raw)) {
+    if (raw.length === 0 || raw.length % 4 !== 0) return null;
+    const copy = Uint8Array.prototype.slice.call(raw);
+    return Array.from(new Float32Array(copy.buffer));
+  }
   try {
     const v = JSON.parse(raw);
     if (Array.isArray(v)) return v.filter((x) => typeof x === 'number');
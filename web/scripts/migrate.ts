@@ -0,0 +1,88 @@
+/*
+Schema migrations CLI
+
+Usage:
+  # Apply all pending migrations (or up to a version)
+  npm run db:migrate [-- --to=N]
+
+  # Roll back the newest migration (or N of them, or down to a version)
+  npm run db:migrate -- down [--steps=N | --to=N]
+
+  # Show applied/pending migrations
+  npm run db:migrate -- status
+
+  # Any up/down run can be previewed: statements execute inside a transaction
+  # that is rolled back, and the report shows what would change
+  npm run db:migrate -- --dry-run
+  npm run db:migrate -- down --dry-run
+
+Notes:
+- Reads SQLite DB at web/db/dev.sqlite (created if missing)
+- The app also applies pending migrations on startup (src/db/client.ts)
+*/
+
+import path from 'path';
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import { migrateDown, migrateUp, migrationStatus, type MigrationReport } from '../src/db/migrate';
+
+function dbPath() {
+  // __dirname points to web/scripts; DB lives at ../db/dev.sqlite
+  return path.join(__dirname, '..', 'db', 'dev.sqlite');
+}
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  let command: 'up' | 'down' | 'status' = 'up';
+  let dryRun = false;
+  let to: number | undefined;
+  let steps: number | undefined;
+  for (const token of args) {
+    if (token === 'up' || token === 'down' || token === 'status') command = token;
+    if (token === '--dry-run') dryRun = true;
+    const m1 = token.match(/^--to=(\d+)$/);
+    if (m1) to = parseInt(m1[1], 10);
+    const m2 = token.match(/^--steps=(\d+)$/);
+    if (m2) steps = Math.max(1, parseInt(m2[1], 10));
+  }
+  return { command, dryRun, to, steps };
+}
+
+function printReport(report: MigrationReport) {
+  const prefix = report.dryRun ? '[dry-run] ' : '';
+  if (report.steps.length === 0) {
+    console.log(`${prefix}Nothing to do (current version ${report.currentVersion})`);
+    return;
+  }
+  for (const s of report.steps) {
+    const verb = s.direction === 'up' ? 'apply' : 'revert';
+    const status = s.ok ? 'ok' : `FAILED: ${s.error}`;
+    console.log(`${prefix}${verb} ${String(s.version).padStart(4, '0')}_${s.name} ... ${status}`);
+  }
+  console.log(`${prefix}version ${report.currentVersion} -> ${report.targetVersion}`);
+}
+
+function main() {
+  const { command, dryRun, to, steps } = parseArgs();
+  const p = dbPath();
+  fs.mkdirSync(path.dirname(p), { recursive: true });
+  const db = new Database(p);
+  try {
+    if (command === 'status') {
+      for (const m of migrationStatus(db)) {
+        const state = m.appliedAt ? `applied ${m.appliedAt}` : 'pending';
+        console.log(`${String(m.version).padStart(4, '0')}_${m.name}  ${state}`);
+      }
+      return;
+    }
+    const report = command === 'down'
+      ? migrateDown(db, { to, steps, dryRun })
+      : migrateUp(db, { to, dryRun });
+    printReport(report);
+    if (report.steps.some((s) => !s.ok)) process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
@@ -0,0 +1,45 @@
+/*
+Link-scoring trainer CLI
+
+Usage:
+  # Fit weights and thresholds from accepted/rejected suggestions; activate them if they beat the current profile
+  npm run links:train
+
+  # Report what would be learned without saving
+  npm run links:train -- --dry-run
+
+Notes:
+- Run from web/ so the app database (web/db/dev.sqlite) is used
+- Needs LINK_TRAIN_MIN_SAMPLES (30) labelled suggestions with LINK_TRAIN_MIN_PER_CLASS (5) of each kind
+- A quarter of them is held out; metrics are measured there, for the new and the current profile
+- Roll back with POST /api/admin/scoring/activate { version }
+*/
+
+import { trainScoringProfile } from '../src/lib/linkTrainer';
+
+function fmt(n: number) {
+  return n.toFixed(3);
+}
+
+function main() {
+  const dryRun = process.argv.slice(2).includes('--dry-run');
+  const result = trainScoringProfile({ dryRun });
+  if (!result.ok) {
+    console.log(result.reason);
+    console.log('Keeping the current scoring profile');
+    return;
+  }
+  const { profile, metrics } = result;
+  console.log(`Trained on ${profile.samples} suggestion(s): ${profile.positives} accepted, ${profile.negatives} rejected`);
+  console.log(`(${metrics.trainSamples} for fitting, ${metrics.validationSamples} held out for validation)`);
+  for (const [k, w] of Object.entries(profile.weights)) console.log(`  ${k.padEnd(16)} ${fmt(w)}`);
+  console.log(`  ${'bias'.padEnd(16)} ${fmt(profile.bias)}`);
+  console.log(`thresholds: hard >= ${fmt(profile.hardThreshold)}, soft >= ${fmt(profile.softThreshold)}`);
+  console.log(`validation: accuracy ${fmt(metrics.accuracy)}, precision ${fmt(metrics.precision)}, recall ${fmt(metrics.recall)}, f1 ${fmt(metrics.f1)} (current profile f1 ${fmt(metrics.baseline.f1)}), log loss ${fmt(metrics.logLoss)}`);
+  if (result.reason) console.log(result.reason);
+  if (dryRun) console.log(`[dry-run] not saved${result.reason ? '' : '; would be activated'}`);
+  else if (result.activated) console.log(`Saved and activated scoring profile v${result.saved?.version}`);
+  else console.log(`Saved scoring profile v${result.saved?.version} as retired; keeping the current profile`);
+}
+
+main();
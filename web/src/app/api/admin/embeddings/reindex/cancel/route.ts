@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { cancelReindex } from '@/lib/reindex';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/admin/embeddings/reindex/cancel -> stop the running reindex and discard its staged vectors
+export async function POST() {
+  noStore();
+  try {
+    const model = cancelReindex();
+    if (!model) return NextResponse.json({ error: 'No reindex is running' }, { status: 404 });
+    return NextResponse.json({ ok: true, model });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to cancel reindex' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { z } from 'zod';
+import { activeEmbeddingModel } from '@/lib/embeddingModels';
+import { enqueueReindex } from '@/lib/jobQueue';
+import { startReindex } from '@/lib/reindex';
+import { EMBEDDING_PROVIDER_IDS, defaultEmbeddingModelName, isEmbeddingProviderId } from '@/lib/embeddingProvider';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const ReindexSchema = z.object({
+  // Embedding model to switch to; defaults to re-embedding with the active model
+  model: z.string().trim().min(1).optional(),
+  // Provider serving it; defaults to the active model's provider
+  provider: z.enum(EMBEDDING_PROVIDER_IDS as [string, ...string[]]).optional(),
+});
+
+// POST /api/admin/embeddings/reindex { model?, provider? } -> re-embed every note and chunk in the background.
+// Progress: GET /api/admin/embeddings. Queries keep using the current vectors until the switch-over.
+export async function POST(req: Request) {
+  noStore();
+  try {
+    const json = await req.json().catch(() => ({}));
+    const parsed = ReindexSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+    const active = activeEmbeddingModel();
+    const provider = parsed.data.provider ?? active.provider;
+    if (!isEmbeddingProviderId(provider)) {
+      return NextResponse.json({ error: `Unknown embedding provider: ${provider}` }, { status: 400 });
+    }
+    const name = parsed.data.model ?? (provider === active.provider ? active.name : defaultEmbeddingModelName(provider));
+    const result = await startReindex(name, provider);
+    if ('error' in result) {
+      const status = result.error === 'already_running' ? 409 : 400;
+      return NextResponse.json({ error: result.message, model: result.model ?? null }, { status });
+    }
+    const job = enqueueReindex();
+    return NextResponse.json({ ok: true, model: result.model, job });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to start reindex' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { activeEmbeddingModel, listEmbeddingModels, vectorInventory } from '@/lib/embeddingModels';
+import { currentReindex } from '@/lib/reindex';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/admin/embeddings -> active model, reindex progress, model history and stored vectors per model
+export async function GET() {
+  noStore();
+  try {
+    return NextResponse.json({
+      active: activeEmbeddingModel(),
+      reindex: currentReindex(),
+      models: listEmbeddingModels(),
+      vectors: vectorInventory(),
+    });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to load embedding models' }, { status: 500 });
+  }
+}
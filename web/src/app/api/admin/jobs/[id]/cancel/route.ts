@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { cancelJob } from '@/lib/jobQueue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/admin/jobs/[id]/cancel -> Cancel a job that has not started
+export async function POST(_req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    if (!id) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    const result = cancelJob(id);
+    if ('error' in result) {
+      if (result.error === 'not_found') return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+      return NextResponse.json({ error: 'Only queued jobs can be cancelled', job: result.job }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true, job: result.job });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to cancel job' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { retryJob } from '@/lib/jobQueue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/admin/jobs/[id]/retry -> Requeue a failed or cancelled job
+export async function POST(_req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    if (!id) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    const result = retryJob(id);
+    if ('error' in result) {
+      if (result.error === 'not_found') return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+      return NextResponse.json({ error: 'Only failed or cancelled jobs can be retried', job: result.job }, { status: 409 });
+    }
+    return NextResponse.json({ ok: true, job: result.job });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to retry job' }, { status: 500 });
+  }
+}
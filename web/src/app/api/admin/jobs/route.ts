@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { listJobs, type JobStatus } from '@/lib/jobQueue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled'];
+
+// GET /api/admin/jobs?status=failed&noteId=...&limit=100 -> background jobs, most recently updated first
+export async function GET(req: Request) {
+  noStore();
+  try {
+    const url = new URL(req.url);
+    const rawStatus = url.searchParams.get('status')?.trim() || '';
+    if (rawStatus && !STATUSES.includes(rawStatus as JobStatus)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+    const noteId = url.searchParams.get('noteId')?.trim() || undefined;
+    const limit = Number(url.searchParams.get('limit')) || undefined;
+    const jobs = listJobs({ status: (rawStatus || undefined) as JobStatus | undefined, noteId, limit });
+    return NextResponse.json({ jobs });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to list jobs' }, { status: 500 });
+  }
+}
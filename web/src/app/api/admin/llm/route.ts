@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { llmTelemetry } from '@/lib/llm';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/admin/llm -> configured LLM provider, per-task totals and the most recent calls (since startup)
+export async function GET() {
+  noStore();
+  try {
+    return NextResponse.json(llmTelemetry());
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to load LLM telemetry' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { z } from 'zod';
+import { activateScoringProfile, activeScoringProfile } from '@/lib/scoringProfiles';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const ActivateSchema = z.object({
+  // Stored profile version; 0 returns to the built-in defaults
+  version: z.number().int().min(0),
+});
+
+// POST /api/admin/scoring/activate { version } -> switch link scoring to a stored profile version (roll back)
+export async function POST(req: Request) {
+  noStore();
+  try {
+    const json = await req.json().catch(() => ({}));
+    const parsed = ActivateSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+    if (!activateScoringProfile(parsed.data.version)) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, active: activeScoringProfile() });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to activate scoring profile' }, { status: 500 });
+  }
+}
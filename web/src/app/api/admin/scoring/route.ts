@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { z } from 'zod';
+import { activeScoringProfile, listScoringProfiles } from '@/lib/scoringProfiles';
+import { trainScoringProfile } from '@/lib/linkTrainer';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const TrainSchema = z.object({
+  // Fit and report without saving
+  dryRun: z.boolean().optional(),
+});
+
+function safeParseJSON(input: string | null | undefined) {
+  if (!input) return null;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return null;
+  }
+}
+
+// GET /api/admin/scoring -> the link-scoring profile in use (version 0 = built-in defaults) and every stored version
+export async function GET() {
+  noStore();
+  try {
+    const profiles = listScoringProfiles().map((p) => ({
+      ...p,
+      weights: safeParseJSON(p.weights),
+      metrics: safeParseJSON(p.metrics),
+    }));
+    return NextResponse.json({ active: activeScoringProfile(), profiles });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to load scoring profiles' }, { status: 500 });
+  }
+}
+
+// POST /api/admin/scoring { dryRun? } -> train a profile from accepted/rejected link suggestions and activate it
+// when it beats the current one on held-out feedback (otherwise it is saved as 'retired' and `reason` says why).
+// 422 when there is not enough feedback yet; the current profile stays active.
+export async function POST(req: Request) {
+  noStore();
+  try {
+    const json = await req.json().catch(() => ({}));
+    const parsed = TrainSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+    }
+    const result = trainScoringProfile({ dryRun: parsed.data.dryRun });
+    if (!result.ok) {
+      return NextResponse.json({ error: result.reason, samples: result.samples, positives: result.positives, negatives: result.negatives }, { status: 422 });
+    }
+    return NextResponse.json({
+      ok: true,
+      dryRun: !!parsed.data.dryRun,
+      profile: result.profile,
+      version: result.saved?.version ?? null,
+      activated: result.activated,
+      reason: result.reason,
+    });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to train scoring profile' }, { status: 500 });
+  }
+}
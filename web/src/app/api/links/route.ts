@@ -1,70 +1,44 @@
 import { NextResponse } from 'next/server';
 import { unstable_noStore as noStore } from 'next/cache';
 import { db, notes, noteChunks } from '@/db/client';
-import { buildNoteTextForEmbedding, embedTextWithOllama } from '@/lib/embeddings';
+import { buildNoteTextForEmbedding } from '@/lib/embeddings';
+import { currentVectorCondition, embedWithActiveModel, isCurrentVector } from '@/lib/embeddingModels';
 import { generateTagsFromText } from '@/lib/tags';
-import { computeFeatureScores, finalLinkScore, classifyLink } from '@/lib/linkScoring';
-import { eq } from 'drizzle-orm';
+import { buildExplain, computeFeatureScores, finalLinkScore, classifyLink, type ScoringProfile } from '@/lib/linkScoring';
+import { pairKey, rejectedPairKeys } from '@/lib/noteLinks';
+import { entitiesByNote, tagsByNote } from '@/lib/noteTerms';
+import { cosineSim, fromBlob, normalize } from '@/lib/vectors';
+import { annNeighborNotes } from '@/lib/annIndex';
+import { computeStructuralSignals, toStructuralNote, type StructuralNote } from '@/lib/structuralSignals';
+import { tagCorpusStats } from '@/lib/tagStats';
+import { activeScoringProfile } from '@/lib/scoringProfiles';
+import { GRAPH_CONTENT_TYPES, GRAPH_FORMATS, isGraphFormat, serializeGraph, type GraphEdge, type LinkGraph } from '@/lib/graphExport';
+import { and, eq, isNull } from 'drizzle-orm';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
+// Nearest neighbours fetched from the ANN index per note
+const LINK_CANDIDATES_PER_NOTE = 50;
+// Entities listed per node in graph exports
+const NODE_ENTITY_LIMIT = 10;
+
 function safeParseJSON(input: string | null | undefined) {
   if (!input) return null;
   try { return JSON.parse(input); } catch { return null; }
 }
 
-function cosineSim(a: number[] | null | undefined, b: number[] | null | undefined): number {
-  if (!a || !b || a.length !== b.length || a.length === 0) return 0;
-  let dot = 0, na = 0, nb = 0;
-  for (let i = 0; i < a.length; i++) {
-    const x = a[i] || 0;
-    const y = b[i] || 0;
-    dot += x * y;
-    na += x * x;
-    nb += y * y;
-  }
-  if (na <= 0 || nb <= 0) return 0;
-  return Math.max(0, Math.min(1, dot / (Math.sqrt(na) * Math.sqrt(nb))));
-}
-
-function parseEmbedding(raw: string | null | undefined): number[] | null {
-  const v = safeParseJSON(raw);
-  return Array.isArray(v) ? (v.filter((x: any) => typeof x === 'number') as number[]) : null;
-}
-
-function parseTags(raw: string | null | undefined): string[] {
-  try {
-    const arr = safeParseJSON(raw);
-    if (Array.isArray(arr)) return arr.filter((x: any) => typeof x === 'string');
-  } catch {}
-  return [];
-}
-
-function parseEntities(raw: string | null | undefined): Array<{ entity: string; weight?: number }> {
-  const arr = safeParseJSON(raw);
-  if (!Array.isArray(arr)) return [];
-  const out: Array<{ entity: string; weight?: number }> = [];
-  for (const it of arr) {
-    if (!it) continue;
-    const entity = typeof it.entity === 'string' ? it.entity : (typeof it.name === 'string' ? it.name : '');
-    if (!entity) continue;
-    const weight = Number(it.weight);
-    out.push({ entity, weight: Number.isFinite(weight) ? weight : undefined });
-  }
-  return out;
-}
-
-async function ensureNoteVectorAndTags(row: any): Promise<{ vec: number[] | null; tags: string[] }>{
-  let vec = parseEmbedding(row.embedding);
-  let tags = parseTags(row.tags);
+// Vectors from another embedding model are not comparable and count as missing
+async function ensureNoteVectorAndTags(row: any, storedTags: string[]): Promise<{ vec: Float32Array | null; tags: string[] }>{
+  let vec = isCurrentVector(row) ? fromBlob(row.embedding) : null;
+  let tags = storedTags;
   if (vec && tags.length > 0) return { vec, tags };
   try {
     const contentJson = safeParseJSON(row.contentJson) ?? {};
     const text = buildNoteTextForEmbedding(row.title, contentJson);
     if (text) {
-      if (!vec) vec = await embedTextWithOllama(text);
+      if (!vec) vec = normalize((await embedWithActiveModel(text)).vec);
       if (tags.length === 0) {
         const t = await generateTagsFromText(text);
         if (Array.isArray(t)) tags = t as string[];
@@ -74,85 +48,150 @@ async function ensureNoteVectorAndTags(row: any): Promise<{ vec: number[] | null
   return { vec: vec ?? null, tags };
 }
 
-export async function GET() {
+// GET /api/links -> the note link graph: every hard/soft link between notes not in the trash.
+//   format    text (default: "TitleA->TitleB" lines) | json | graphml | dot (see lib/graphExport.ts)
+//   space     only notes in this space
+//   decision  hard | soft (default: both)
+//   min       minimum link score, 0..1
+// Each pair is scored with the profile of A's space (lib/scoringProfiles.ts).
+export async function GET(req: Request) {
   noStore();
   try {
-    const all = db.select().from(notes).all();
-    if (!all || all.length === 0) {
-      return new NextResponse('', { status: 200, headers: { 'Content-Type': 'text/plain' } });
+    const url = new URL(req.url);
+    const format = url.searchParams.get('format')?.trim().toLowerCase() || 'text';
+    if (!isGraphFormat(format)) {
+      return NextResponse.json({ error: `Unknown format; expected one of ${GRAPH_FORMATS.join(', ')}` }, { status: 400 });
     }
+    const decisionFilter = url.searchParams.get('decision')?.trim().toLowerCase() || null;
+    if (decisionFilter && decisionFilter !== 'hard' && decisionFilter !== 'soft') {
+      return NextResponse.json({ error: 'Unknown decision; expected hard or soft' }, { status: 400 });
+    }
+    const minScore = Math.max(0, Math.min(1, Number(url.searchParams.get('min')) || 0));
+    const spaceId = url.searchParams.get('space')?.trim() || null;
+    const respond = (graph: LinkGraph) =>
+      new NextResponse(serializeGraph(graph, format), { status: 200, headers: { 'Content-Type': GRAPH_CONTENT_TYPES[format] } });
+
+    const all = db
+      .select()
+      .from(notes)
+      .where(and(isNull(notes.deletedAt), spaceId ? eq(notes.spaceId, spaceId) : undefined))
+      .all();
+    if (!all || all.length === 0) return respond({ nodes: [], edges: [] });
 
     // Precompute note-level vectors/tags/entities
-    const meta: Record<string, { title: string; vec: number[] | null; tags: string[]; entities: Array<{entity: string; weight?: number}> }> = {};
+    const tagMap = tagsByNote();
+    const entityMap = entitiesByNote();
+    const tagStats = tagCorpusStats();
+    const profiles = new Map<string | null, ScoringProfile>();
+    const profileFor = (space: string | null) => {
+      let p = profiles.get(space);
+      if (!p) profiles.set(space, (p = activeScoringProfile(space)));
+      return p;
+    };
+    const meta: Record<string, { title: string; vec: Float32Array | null; tags: string[]; entities: Array<{entity: string; weight?: number}>; structural: StructuralNote }> = {};
     for (const n of all) {
-      const { vec, tags } = await ensureNoteVectorAndTags(n);
+      const { vec, tags } = await ensureNoteVectorAndTags(n, tagMap.get(n.id) ?? []);
+      const entities = entityMap.get(n.id) ?? [];
       meta[n.id] = {
         title: n.title || n.id,
         vec,
         tags,
-        entities: parseEntities((n as any).entities),
+        entities,
+        structural: toStructuralNote(n, tags, entities),
       };
     }
 
     // Compute links for every ordered pair A -> B where A != B
-    type Edge = { aId: string; bId: string; score: number; decision: 'hard' | 'soft' | 'none' };
-    const edges: Edge[] = [];
+    const edges: GraphEdge[] = [];
+    const rejected = rejectedPairKeys();
+
+    // Chunk vectors for every note, loaded once
+    const chunkVecs = new Map<string, Float32Array[]>();
+    const chunkRows = db
+      .select({ noteId: noteChunks.noteId, embedding: noteChunks.embedding })
+      .from(noteChunks)
+      .where(currentVectorCondition(noteChunks))
+      .all();
+    for (const ch of chunkRows) {
+      const v = fromBlob(ch.embedding);
+      if (!v) continue;
+      const list = chunkVecs.get(ch.noteId);
+      if (list) list.push(v);
+      else chunkVecs.set(ch.noteId, [v]);
+    }
 
     for (const A of all) {
       const aId = A.id;
       const aMeta = meta[aId];
-      const aVec = aMeta.vec ?? parseEmbedding(A.embedding) ?? [];
+      const aVec = aMeta.vec ?? new Float32Array(0);
+      const profile = profileFor(A.spaceId ?? null);
+      // Only score A's nearest neighbours when the ANN index can answer; otherwise all notes
+      const neighbors = aVec.length > 0 ? annNeighborNotes([aVec], LINK_CANDIDATES_PER_NOTE) : null;
       for (const B of all) {
         if (B.id === aId) continue;
+        if (neighbors && !neighbors.has(B.id)) continue;
+        if (rejected.has(pairKey(aId, B.id))) continue;
         let cos = 0;
+        const sims: number[] = [];
         try {
-          const chunks = db.select().from(noteChunks).where(eq(noteChunks.noteId, B.id)).all();
-          if (chunks && chunks.length > 0) {
-            for (const ch of chunks) {
-              const cvec = parseEmbedding((ch as any).embedding);
-              if (cvec && cvec.length === aVec.length) {
+          const chunks = chunkVecs.get(B.id) ?? [];
+          if (chunks.length > 0) {
+            for (const cvec of chunks) {
+              if (cvec.length === aVec.length) {
                 const c = cosineSim(aVec, cvec);
+                sims.push(c);
                 if (c > cos) cos = c;
               }
             }
           } else {
-            const bVec = meta[B.id].vec ?? parseEmbedding(B.embedding);
+            const bVec = meta[B.id].vec;
             if (bVec && bVec.length === aVec.length) cos = cosineSim(aVec, bVec);
           }
         } catch {}
         if (cos === 0) continue;
 
         const featureInput = {
-          top5_cosines: [cos],
+          top5_cosines: sims.length > 0 ? sims.sort((x, y) => y - x).slice(0, 5) : [cos],
           entitiesA: meta[aId].entities,
           entitiesB: meta[B.id].entities,
           tagsA: meta[aId].tags,
           tagsB: meta[B.id].tags,
-          structural: { reference_score: 0, temporal_score: 0, session_score: 0 },
-          aggregate: 'mean' as const,
+          tagIdf: tagStats.idf,
+          tagAvgdl: tagStats.avgTags,
+          structural: computeStructuralSignals(meta[aId].structural, meta[B.id].structural),
+          aggregate: profile.aggregate,
         };
         const feats = computeFeatureScores(featureInput);
-        const score = finalLinkScore(feats);
-        const decision = classifyLink(score);
-        if (decision !== 'none') {
-          edges.push({ aId, bId: B.id, score, decision });
-        }
+        const score = finalLinkScore(feats, profile);
+        const decision = classifyLink(score, profile);
+        if (decision === 'none' || score < minScore) continue;
+        if (decisionFilter && decision !== decisionFilter) continue;
+        const explain = buildExplain(featureInput);
+        edges.push({
+          source: aId,
+          target: B.id,
+          score,
+          decision,
+          features: feats,
+          sharedTags: explain.shared_tags,
+          sharedEntities: explain.shared_entities,
+        });
       }
     }
 
     // Sort edges by score desc for stable output
     edges.sort((x, y) => y.score - x.score);
 
-    // Build text output: "A->B" using titles
-    const lines: string[] = [];
-    for (const e of edges) {
-      const aTitle = meta[e.aId].title || e.aId;
-      const bTitle = meta[e.bId].title || e.bId;
-      lines.push(`${aTitle}->${bTitle}`);
-    }
-
-    const body = lines.join('\n');
-    return new NextResponse(body, { status: 200, headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+    return respond({
+      nodes: all.map((n) => ({
+        id: n.id,
+        title: n.title,
+        spaceId: n.spaceId ?? null,
+        tags: meta[n.id].tags,
+        entities: meta[n.id].entities.slice(0, NODE_ENTITY_LIMIT).map((e) => e.entity),
+      })),
+      edges,
+    });
   } catch (e) {
     console.error(e);
     return new NextResponse('Failed to compute global links', { status: 500, headers: { 'Content-Type': 'text/plain' } });
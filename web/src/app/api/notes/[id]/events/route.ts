@@ -1,12 +1,15 @@
 import { unstable_noStore as noStore } from 'next/cache';
 import { NextResponse } from 'next/server';
 import { getNoteEmitter } from '@/lib/noteEvents';
+import { getProcessingStatus, type ProcessingStatus } from '@/lib/processingStatus';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
 // SSE endpoint: /api/notes/[id]/events
+// Events: 'status' on every processing stage change (and once on connect), 'processed' when
+// processing completes successfully, 'error', and periodic 'keepalive'.
 export async function GET(req: Request, context: { params: Promise<{ id: string }> }) {
   noStore();
   const { id } = await context.params;
@@ -22,10 +25,16 @@ export async function GET(req: Request, context: { params: Promise<{ id: string
 
       // Initial: keep-alive and identify
       send('keepalive', { ok: true, id });
+      try {
+        const current = getProcessingStatus(id);
+        if (current) send('status', current);
+      } catch {}
 
       const em = getNoteEmitter(id);
+      const onStatus = (data: ProcessingStatus) => send('status', data);
       const onProcessed = (data: any) => send('processed', data);
       const onError = (err: any) => send('error', { message: String(err?.message || err) });
+      em.on('status', onStatus);
       em.on('processed', onProcessed);
       em.on('error', onError);
 
@@ -35,6 +44,7 @@ export async function GET(req: Request, context: { params: Promise<{ id: string
       const signal = (req as any).signal as AbortSignal | undefined;
       const cleanup = () => {
         clearInterval(interval);
+        em.off('status', onStatus);
         em.off('processed', onProcessed);
         em.off('error', onError);
         controller.close();
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { setLinkStatus } from '@/lib/noteLinks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/notes/[id]/links/[targetId]/accept
+export async function POST(_req: Request, context: { params: Promise<{ id: string; targetId: string }> }) {
+  noStore();
+  try {
+    const { id, targetId } = await context.params;
+    if (!id || !targetId) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    const link = setLinkStatus(id, targetId, 'accepted');
+    if (!link) return NextResponse.json({ error: 'Suggestion not found' }, { status: 404 });
+    return NextResponse.json({ ok: true, link });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to accept link' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { restoreNote } from '@/lib/trash';
+import { enqueueNoteProcessing } from '@/lib/jobQueue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/notes/[id]/restore -> move a note out of the trash
+export async function POST(_req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    if (!id) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    if (!restoreNote(id)) return NextResponse.json({ error: 'Not found in trash' }, { status: 404 });
+    // Finishes processing dropped when the note was trashed; unchanged notes are skipped
+    enqueueNoteProcessing(id);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to restore note' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { restoreRevision } from '@/lib/revisions';
+import { enqueueNoteProcessing } from '@/lib/jobQueue';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// POST /api/notes/[id]/revisions/[revisionId]/restore
+export async function POST(_req: Request, context: { params: Promise<{ id: string; revisionId: string }> }) {
+  noStore();
+  try {
+    const { id, revisionId } = await context.params;
+    if (!id || !revisionId) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    const restored = restoreRevision(id, revisionId);
+    if (!restored) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    // Restored content needs fresh embeddings/tags/entities
+    enqueueNoteProcessing(id);
+    return NextResponse.json({ ok: true, title: restored.title, revisionId: restored.id });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to restore revision' }, { status: 500 });
+  }
+}
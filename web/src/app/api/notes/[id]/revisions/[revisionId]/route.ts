@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { getRevision } from '@/lib/revisions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+function safeParseJSON(input: string | null | undefined) {
+  if (!input) return null;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return null;
+  }
+}
+
+// GET /api/notes/[id]/revisions/[revisionId] -> full snapshot
+export async function GET(_req: Request, context: { params: Promise<{ id: string; revisionId: string }> }) {
+  noStore();
+  try {
+    const { id, revisionId } = await context.params;
+    if (!id || !revisionId) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    const rev = getRevision(id, revisionId);
+    if (!rev) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({
+      id: rev.id,
+      noteId: rev.noteId,
+      title: rev.title,
+      contentJson: safeParseJSON(rev.contentJson) ?? [],
+      source: rev.source,
+      createdAt: rev.createdAt,
+      updatedAt: rev.updatedAt,
+    });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to fetch revision' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { db, notes } from '@/db/client';
+import { eq } from 'drizzle-orm';
+import { diffBlocks, getRevision } from '@/lib/revisions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+function safeParseJSON(input: string | null | undefined) {
+  if (!input) return null;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return null;
+  }
+}
+
+// GET /api/notes/[id]/revisions/diff?from=<revisionId>&to=<revisionId|current>
+// `to` defaults to the note's current content
+export async function GET(req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    if (!id) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    const url = new URL(req.url);
+    const fromId = url.searchParams.get('from')?.trim() || '';
+    const toId = url.searchParams.get('to')?.trim() || 'current';
+    if (!fromId) return NextResponse.json({ error: 'Missing from' }, { status: 400 });
+
+    const resolve = (revId: string): { title: string; contentJson: string } | null => {
+      if (revId === 'current') {
+        const row = db.select().from(notes).where(eq(notes.id, id)).all()[0];
+        return row ? { title: row.title, contentJson: row.contentJson } : null;
+      }
+      const rev = getRevision(id, revId);
+      return rev ? { title: rev.title, contentJson: rev.contentJson } : null;
+    };
+
+    const from = resolve(fromId);
+    const to = resolve(toId);
+    if (!from || !to) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+
+    const blocks = diffBlocks(safeParseJSON(from.contentJson) ?? [], safeParseJSON(to.contentJson) ?? []);
+    return NextResponse.json({
+      from: fromId,
+      to: toId,
+      title: { before: from.title, after: to.title, changed: from.title !== to.title },
+      blocks,
+    });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to diff revisions' }, { status: 500 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { db, notes } from '@/db/client';
+import { eq } from 'drizzle-orm';
+import { listRevisions } from '@/lib/revisions';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/notes/[id]/revisions -> revision summaries, newest first
+export async function GET(_req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    if (!id) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    const note = db.select({ id: notes.id }).from(notes).where(eq(notes.id, id)).all()[0];
+    if (!note) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ id, revisions: listRevisions(id) });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to list revisions' }, { status: 500 });
+  }
+}
@@ -1,22 +1,25 @@
 import { NextResponse } from 'next/server';
 import { unstable_noStore as noStore } from 'next/cache';
-import { db, notes, noteChunks } from '@/db/client';
+import { db, notes } from '@/db/client';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
-import { buildNoteTextForEmbedding, embedTextWithOllama, extractPlainTextFromTiptap } from '@/lib/embeddings';
-import { generateTagsFromText } from '@/lib/tags';
-import { generateTitleFromText } from '@/lib/title';
-import { chunkText } from '@/lib/chunking';
-import { generateEntitiesFromText, aggregateEntities } from '@/lib/entities';
-import { randomUUID } from 'crypto';
-import { getNoteEmitter } from '@/lib/noteEvents';
+import { extractPlainTextFromTiptap } from '@/lib/embeddings';
+import { enqueueNoteProcessing } from '@/lib/jobQueue';
+import { recordRevision } from '@/lib/revisions';
+import { permanentlyDeleteNote, trashNote } from '@/lib/trash';
+import { listBacklinks } from '@/lib/noteLinks';
+import { getNoteEntities, getNoteTags } from '@/lib/noteTerms';
+import { indexNoteText } from '@/lib/fts';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
 const UpdateSchema = z.object({
+  // A non-empty title names the note and locks it against auto titles; '' hands it back to auto
   title: z.string().optional(),
+  // 'auto' unlocks a manually named note (it gets a generated title on the next processing run)
+  titleSource: z.enum(['auto', 'manual']).optional(),
   contentJson: z.unknown().optional(),
   folder: z.union([z.string(), z.null()]).optional(),
   spaceId: z.union([z.string(), z.null()]).optional(),
@@ -39,20 +42,6 @@ function deriveTitleFromPlainText(text: string): string {
   return firstLine.slice(0, 120);
 }
 
-function parseEntities(raw: string | null | undefined): Array<{ entity: string; weight?: number }> {
-  const arr = safeParseJSON(raw);
-  if (!Array.isArray(arr)) return [];
-  const out: Array<{ entity: string; weight?: number }> = [];
-  for (const it of arr) {
-    if (!it) continue;
-    const entity = typeof it.entity === 'string' ? it.entity : (typeof it.name === 'string' ? it.name : '');
-    if (!entity) continue;
-    const weight = Number(it.weight);
-    out.push({ entity, weight: Number.isFinite(weight) ? weight : undefined });
-  }
-  return out;
-}
-
 // Resolve `id` defensively: prefer awaited context.params, fall back to URL parsing
 async function resolveId(
   req: Request,
@@ -89,13 +78,18 @@ export async function GET(req: Request, context: { params: Promise<{ id: string
     return NextResponse.json({
       id: row.id,
       title: row.title,
+      titleSource: row.titleSource,
       contentJson: safeParseJSON(row.contentJson) ?? {},
       createdAt: row.createdAt,
       updatedAt: row.updatedAt,
-      entities: parseEntities((row as any).entities),
+      entities: getNoteEntities(row.id).map((e) => ({ entity: e.entity, weight: e.weight })),
       folder: (row as any).folder ?? null,
       spaceId: (row as any).spaceId ?? null,
-      tags: Array.isArray(safeParseJSON((row as any).tags)) ? (safeParseJSON((row as any).tags) as string[]) : [],
+      deletedAt: row.deletedAt ?? null,
+      processingStatus: row.processingStatus ?? null,
+      processingError: row.processingError ?? null,
+      backlinks: listBacklinks(row.id),
+      tags: getNoteTags(row.id),
     });
   } catch (e) {
     console.error(e);
@@ -130,31 +124,47 @@ export async function PUT(req: Request, context: { params: Promise<{ id: string
 
     // Fetch existing to have a single source of truth for title/content
     const existing = db.select().from(notes).where(eq(notes.id, id)).all()[0];
+    if (existing?.deletedAt) {
+      return NextResponse.json({ error: 'Note is in the trash' }, { status: 409 });
+    }
 
     // Apply incoming content update (if any)
     if (parsed.data.contentJson !== undefined) {
       updates.contentJson = JSON.stringify(parsed.data.contentJson);
     }
 
-    // Always use AI-generated title from content; on failure, fall back to raw text title
-    const contentForTitle: unknown = parsed.data.contentJson !== undefined
-      ? parsed.data.contentJson
-      : (existing ? safeParseJSON(existing.contentJson) ?? {} : {});
-    try {
-      const plain = extractPlainTextFromTiptap(contentForTitle);
-      if (!plain) {
-        updates.title = '';
-      } else {
-        try {
-          const autoTitle = await generateTitleFromText(plain);
-          updates.title = autoTitle && autoTitle.trim().length > 0 ? autoTitle.trim() : deriveTitleFromPlainText(plain);
-        } catch {
+    // A title typed by the user wins and locks out auto titles
+    const manualTitle = parsed.data.title?.trim();
+    let titleSource = existing?.titleSource ?? 'auto';
+    if (manualTitle) {
+      updates.title = manualTitle.slice(0, 200);
+      titleSource = 'manual';
+    } else if (parsed.data.title !== undefined || parsed.data.titleSource === 'auto') {
+      titleSource = 'auto';
+    }
+    if (titleSource !== existing?.titleSource) {
+      updates.titleSource = titleSource;
+      // Back to auto: forget the processed hash so the next run generates a title
+      if (titleSource === 'auto') updates.contentHash = null;
+    }
+
+    // The AI title comes from the enrichment job (lib/enrichment.ts); until then a note without
+    // a title gets its first line
+    if (titleSource === 'auto') {
+      const contentForTitle: unknown = parsed.data.contentJson !== undefined
+        ? parsed.data.contentJson
+        : (existing ? safeParseJSON(existing.contentJson) ?? {} : {});
+      try {
+        const plain = extractPlainTextFromTiptap(contentForTitle);
+        if (!plain) {
+          updates.title = '';
+        } else if (!existing?.title || existing.title === 'Untitled' || parsed.data.title !== undefined) {
           updates.title = deriveTitleFromPlainText(plain);
         }
+      } catch {
+        // If even plain extraction fails, leave as empty string
+        updates.title = '';
       }
-    } catch {
-      // If even plain extraction fails, leave as empty string
-      updates.title = '';
     }
 
     // Optional folder update (manual naming)
@@ -174,115 +184,33 @@ export async function PUT(req: Request, context: { params: Promise<{ id: string
     // Persist minimal updates first (content + title + folder + spaceId)
     db.update(notes).set(updates).where(eq(notes.id, id)).run(); // sync call
 
-    // Fire-and-forget heavy processing: embeddings, tags, chunk embeddings, entities
-  try { console.log(`[bg] scheduling background processing for note ${id}`); } catch {}
-  setImmediate(() => {
-    try { console.log(`[bg] start processing note ${id}`); } catch {}
-    processNoteHeavyWork(id).catch((e) => console.error('Background processing failed', e));
-  });
-
-    return NextResponse.json({ ok: true, title: updates.title ?? existing?.title ?? '' });
-  } catch (e) {
-    console.error(e);
-    return NextResponse.json({ error: 'Failed to update note' }, { status: 500 });
-  }
-}
-
-async function processNoteHeavyWork(id: string) {
-  try {
-    try { console.log(`[bg] start processing note ${id}`); } catch {}
-    const existing = db.select().from(notes).where(eq(notes.id, id)).all()[0];
-    if (!existing) {
-      console.error('Note not found for heavy processing');
-      return;
+    // Keep the keyword index in step with the saved title/content
+    if (existing) {
+      indexNoteText(
+        id,
+        typeof updates.title === 'string' ? updates.title : existing.title,
+        typeof updates.contentJson === 'string' ? updates.contentJson : existing.contentJson,
+      );
     }
 
-    // Compute and store embedding, tags, and chunk embeddings (best-effort)
-    try {
-      // Get latest values for title/content to embed (prefer updates)
-      let titleForEmbed: string | undefined = existing.title;
-      let contentForEmbed: unknown = safeParseJSON(existing.contentJson) ?? {};
+    // Snapshot content edits and renames into the revision history (coalesced per editing burst)
+    if (existing && (parsed.data.contentJson !== undefined || manualTitle)) {
+      const nextTitle = typeof updates.title === 'string' ? updates.title : existing?.title ?? '';
+      const nextContent = typeof updates.contentJson === 'string' ? updates.contentJson : existing.contentJson;
+      recordRevision(id, { title: nextTitle, titleSource, contentJson: nextContent, previous: existing });
+    }
 
-      const text = buildNoteTextForEmbedding(titleForEmbed, contentForEmbed);
-      if (text && text.length > 0) {
-        const vec = await embedTextWithOllama(text);
-        db.update(notes).set({ embedding: JSON.stringify(vec) }).where(eq(notes.id, id)).run();
-        try { console.log(`[bg] note ${id} embedding length: ${Array.isArray(vec) ? vec.length : 0}`); } catch {}
-        try {
-          const tags = await generateTagsFromText(text);
-          if (Array.isArray(tags)) {
-            db.update(notes).set({ tags: JSON.stringify(tags) }).where(eq(notes.id, id)).run();
-            try { console.log(`[bg] note ${id} tags count: ${tags.length}`); } catch {}
-          }
-        } catch (e) {
-          console.warn('Tag generation failed; proceeding without updating tags', e);
-        }
+    // Queue heavy processing: embeddings, tags, chunk embeddings, entities
+    enqueueNoteProcessing(id);
 
-        // Chunking over body text (prefer excluding the synthesized title)
-        try {
-          const plainBody = extractPlainTextFromTiptap(contentForEmbed);
-          if (plainBody && plainBody.length > 0) {
-            const chunks = chunkText(plainBody, { targetTokens: 350, overlapTokens: 80 });
-            try { console.log(`[bg] note ${id} chunk count: ${chunks.length}`); } catch {}
-            // Replace existing chunks for this note
-            db.delete(noteChunks).where(eq(noteChunks.noteId, id)).run();
-            const allEntities: Array<{ entity: string; weight?: number }> = [];
-            for (const ch of chunks) {
-              try {
-                const cvec = await embedTextWithOllama(ch.text);
-                db.insert(noteChunks).values({
-                  id: randomUUID(),
-                  noteId: id,
-                  ord: String(ch.ord),
-                  text: ch.text,
-                  embedding: JSON.stringify(cvec),
-                }).run();
-                try { console.log(`[bg] note ${id} chunk ${ch.ord} embedding length: ${Array.isArray(cvec) ? cvec.length : 0}`); } catch {}
-                try {
-                  const ents = await generateEntitiesFromText(ch.text);
-                  for (const e of ents) allEntities.push({ entity: e.entity, weight: e.weight });
-                } catch (e) {
-                  console.warn('Entity extraction failed for chunk; continuing', e);
-                }
-              } catch (e) {
-                console.warn('Failed to embed chunk; skipping chunk', e);
-              }
-            }
-            if (allEntities.length > 0) {
-              const agg = aggregateEntities(allEntities);
-              db.update(notes).set({ entities: JSON.stringify(agg) }).where(eq(notes.id, id)).run();
-              try { console.log(`[bg] note ${id} entities count (aggregated): ${agg.length}`); } catch {}
-            } else {
-              db.update(notes).set({ entities: JSON.stringify([]) }).where(eq(notes.id, id)).run();
-              try { console.log(`[bg] note ${id} entities count (aggregated): 0`); } catch {}
-            }
-          } else {
-            // No body text; remove any existing chunks
-            db.delete(noteChunks).where(eq(noteChunks.noteId, id)).run();
-            db.update(notes).set({ entities: JSON.stringify([]) }).where(eq(notes.id, id)).run();
-            try { console.log(`[bg] note ${id} no body text; cleared chunks and entities`); } catch {}
-          }
-        } catch (e) {
-          console.warn('Chunking/embedding chunks failed; proceeding without chunk storage', e);
-        }
-      }
-    } catch (e) {
-      // Do not fail the save if embeddings are unavailable
-      console.warn('Embedding/tagging/chunk computation failed; proceeding without updating embedding/tags/chunks', e);
-    }
+    return NextResponse.json({ ok: true, title: updates.title ?? existing?.title ?? '', titleSource });
   } catch (e) {
-    console.error('Error processing note heavy work', e);
-  } finally {
-    try { console.log(`[bg] done processing note ${id}`); } catch {}
-    try {
-      // notify listeners that processing (embeddings/tags/entities) has completed
-      const em = getNoteEmitter(id);
-      em.emit('processed', { id });
-    } catch {}
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to update note' }, { status: 500 });
   }
 }
 
-// DELETE /api/notes/[id]
+// DELETE /api/notes/[id] -> move to trash; ?permanent=1 deletes the note and its derived data
 export async function DELETE(req: Request, context: { params: Promise<{ id: string }> }) {
   noStore();
 
@@ -297,8 +225,14 @@ export async function DELETE(req: Request, context: { params: Promise<{ id: stri
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
     }
 
-    db.delete(notes).where(eq(notes.id, id)).run();
-    return NextResponse.json({ ok: true });
+    const url = new URL(req.url);
+    const permanent = ['1', 'true'].includes(url.searchParams.get('permanent') ?? '');
+    if (permanent) {
+      permanentlyDeleteNote(id);
+    } else {
+      trashNote(id);
+    }
+    return NextResponse.json({ ok: true, permanent });
   } catch (e) {
     console.error(e);
     return NextResponse.json({ error: 'Failed to delete note' }, { status: 500 });
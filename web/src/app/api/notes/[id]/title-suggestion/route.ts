@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { db, notes } from '@/db/client';
+import { eq } from 'drizzle-orm';
+import { extractPlainTextFromTiptap } from '@/lib/embeddings';
+import { generateTitleFromText } from '@/lib/title';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+function safeParseJSON(input: string | null | undefined) {
+  if (!input) return null;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return null;
+  }
+}
+
+// POST /api/notes/[id]/title-suggestion -> { title } generated from the current content.
+// Nothing is saved; the client applies it as a manual title if the user accepts it.
+export async function POST(_req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    if (!id) return NextResponse.json({ error: 'Missing id' }, { status: 400 });
+    const row = db.select({ contentJson: notes.contentJson }).from(notes).where(eq(notes.id, id)).all()[0];
+    if (!row) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    const plain = extractPlainTextFromTiptap(safeParseJSON(row.contentJson) ?? {});
+    if (!plain) return NextResponse.json({ error: 'Note has no text to title' }, { status: 400 });
+    return NextResponse.json({ title: await generateTitleFromText(plain) });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to suggest a title' }, { status: 500 });
+  }
+}
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { db, notes } from '@/db/client';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull } from 'drizzle-orm';
 import { randomUUID } from 'crypto';
+import { tagsByNote } from '@/lib/noteTerms';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -9,27 +10,22 @@ export const runtime = 'nodejs';
 // BlockNote stores the document as an array of block objects
 const emptyDoc: unknown[] = [];
 
-// GET /api/notes -> list notes (no auth yet, returns all)
+// GET /api/notes -> list notes (no auth yet, returns all not in the trash)
 export async function GET(req: Request) {
   try {
     const url = new URL(req.url);
     const spaceId = url.searchParams.get('spaceId')?.trim() || '';
     const base = db
-      .select({ id: notes.id, title: notes.title, createdAt: notes.createdAt, updatedAt: notes.updatedAt, tags: notes.tags, folder: (notes as any).folder, spaceId: (notes as any).spaceId })
+      .select({ id: notes.id, title: notes.title, createdAt: notes.createdAt, updatedAt: notes.updatedAt, folder: (notes as any).folder, spaceId: (notes as any).spaceId, processingStatus: notes.processingStatus, processingError: notes.processingError })
       .from(notes);
     const rows = (spaceId
-      ? (base as any).where(eq((notes as any).spaceId, spaceId)).all()
-      : base.all());
+      ? (base as any).where(and(isNull(notes.deletedAt), eq((notes as any).spaceId, spaceId))).all()
+      : base.where(isNull(notes.deletedAt)).all());
     rows.sort((a: any, b: any) => (b.updatedAt ?? '').localeCompare(a.updatedAt ?? ''));
+    const tagMap = tagsByNote(rows.map((r: any) => r.id));
     const out = rows.map((r: any) => {
-      let tags: string[] | undefined = undefined;
-      if (r.tags) {
-        try {
-          const arr = JSON.parse(r.tags as any);
-          if (Array.isArray(arr)) tags = arr.filter((x: any) => typeof x === 'string');
-        } catch {}
-      }
-      return { id: r.id, title: r.title, createdAt: r.createdAt, updatedAt: r.updatedAt, tags, folder: (r as any).folder ?? null, spaceId: (r as any).spaceId ?? null };
+      const tags = tagMap.get(r.id);
+      return { id: r.id, title: r.title, createdAt: r.createdAt, updatedAt: r.updatedAt, tags, folder: (r as any).folder ?? null, spaceId: (r as any).spaceId ?? null, processingStatus: r.processingStatus ?? null, processingError: r.processingError ?? null };
     });
     return NextResponse.json(out);
   } catch (e) {
@@ -43,11 +39,16 @@ export async function POST(req: Request) {
     const id = randomUUID();
     const now = new Date().toISOString();
     let spaceId: string | null = null;
+    let sessionId: string | null = null;
     try {
       const body = await req.json();
       if (body && typeof body.spaceId === 'string' && body.spaceId.trim()) {
         spaceId = body.spaceId.trim();
       }
+      // Client editing session (components/editingSession.ts), used for the session link signal
+      if (body && typeof body.sessionId === 'string' && body.sessionId.trim()) {
+        sessionId = body.sessionId.trim().slice(0, 64);
+      }
     } catch {}
 
     db.insert(notes)
@@ -57,6 +58,7 @@ export async function POST(req: Request) {
         contentJson: JSON.stringify(emptyDoc),
         createdAt: now,
         updatedAt: now,
+        sessionId,
         ...(spaceId ? { spaceId } as any : {}),
       })
       .run();
@@ -1,43 +1,41 @@
 import { NextResponse } from 'next/server';
 import { unstable_noStore as noStore } from 'next/cache';
-import { db, notes } from '@/db/client';
 import { z } from 'zod';
-import { embedTextWithOllama } from '@/lib/embeddings';
+import { searchNotes } from '@/lib/search';
+import { mergeFilters, parseDateBound, parseSearchQuery, type SearchFilters } from '@/lib/searchQuery';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
+const DateBound = z
+  .string()
+  .transform((s) => parseDateBound(s))
+  .refine((s): s is string => s !== null, 'Invalid date');
+
+const FiltersSchema = z.object({
+  spaceId: z.string().min(1).optional(),
+  folder: z.string().min(1).optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  entities: z.array(z.string().min(1)).optional(),
+  createdAfter: DateBound.optional(),
+  createdBefore: DateBound.optional(),
+  updatedAfter: DateBound.optional(),
+  updatedBefore: DateBound.optional(),
+  status: z.enum(['processed', 'pending', 'failed']).optional(),
+});
+
 const SearchSchema = z.object({
+  // Free text plus inline filters, e.g. `tag:nodejs space:work before:2026-01-01 "exact phrase"` (see lib/searchQuery.ts)
   query: z.string().min(1),
   limit: z.number().int().positive().max(100).optional().default(20),
+  // hybrid: chunk vectors + keyword ranks fused with RRF
+  // keyword: FTS5 only (prefix*, "phrases", AND/OR/NOT)
+  // semantic: vectors only; hybrid and semantic fall back to keyword when embeddings are unavailable
+  mode: z.enum(['hybrid', 'semantic', 'keyword']).optional().default('hybrid'),
+  filters: FiltersSchema.optional().default({}),
 });
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (!a || !b || a.length !== b.length) return 0;
-  let dot = 0;
-  let na = 0;
-  let nb = 0;
-  for (let i = 0; i < a.length; i++) {
-    const ai = a[i];
-    const bi = b[i];
-    dot += ai * bi;
-    na += ai * ai;
-    nb += bi * bi;
-  }
-  const denom = Math.sqrt(na) * Math.sqrt(nb);
-  return denom > 0 ? dot / denom : 0;
-}
-
-function parseEmbedding(s: string | null): number[] | null {
-  if (!s) return null;
-  try {
-    const arr = JSON.parse(s);
-    if (Array.isArray(arr) && arr.every((x) => typeof x === 'number')) return arr as number[];
-  } catch {}
-  return null;
-}
-
 export async function POST(req: Request) {
   noStore();
   try {
@@ -46,24 +44,12 @@ export async function POST(req: Request) {
     if (!parsed.success) {
       return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
     }
-    const { query, limit } = parsed.data;
-
-    const qvec = await embedTextWithOllama(query);
-
-    const rows = db.select().from(notes).all();
-
-    const scored = [] as Array<{ id: string; title: string; createdAt: string | null; updatedAt: string | null; score: number }>;
-    for (const r of rows as any[]) {
-      const emb = parseEmbedding(r.embedding ?? null);
-      if (!emb) continue;
-      const score = cosineSimilarity(qvec, emb);
-      scored.push({ id: r.id, title: r.title, createdAt: r.createdAt ?? null, updatedAt: r.updatedAt ?? null, score });
-    }
-    scored.sort((a, b) => b.score - a.score);
-
-    return NextResponse.json(scored.slice(0, limit));
+    const { query, limit, mode } = parsed.data;
+    const inline = parseSearchQuery(query);
+    const filters = mergeFilters(parsed.data.filters as SearchFilters, inline.filters);
+    return NextResponse.json(await searchNotes(inline.text, { limit, mode, filters }));
   } catch (e) {
     console.error(e);
     return NextResponse.json({ error: 'Search failed' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
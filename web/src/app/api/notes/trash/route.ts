@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { listTrash, purgeExpiredTrash, TRASH_RETENTION_DAYS } from '@/lib/trash';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// GET /api/notes/trash -> notes in the trash, newest deletion first
+export async function GET() {
+  noStore();
+  try {
+    // Opportunistic purge so expired notes never show up here
+    purgeExpiredTrash();
+    return NextResponse.json({ retentionDays: TRASH_RETENTION_DAYS, notes: listTrash() });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to list trash' }, { status: 500 });
+  }
+}
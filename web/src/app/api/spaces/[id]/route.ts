@@ -2,6 +2,7 @@ import { NextResponse } from 'next/server';
 import { db, notes, spaces } from '@/db/client';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
+import { deleteSpaceScoringProfiles } from '@/lib/scoringProfiles';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -55,6 +56,7 @@ export async function DELETE(_req: Request, { params }: { params: { id: string }
   try {
     (db.update(notes as any) as any).set({ spaceId: null }).where(eq((notes as any).spaceId, id)).run?.();
   } catch {}
+  deleteSpaceScoringProfiles(id);
   db.delete(spaces).where(eq(spaces.id, id)).run();
   return NextResponse.json({ ok: true });
 }
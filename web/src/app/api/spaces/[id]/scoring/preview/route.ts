@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { z } from 'zod';
+import { cachedLinkCandidates, scoreLinkCandidates } from '@/lib/linkCandidates';
+import type { ScoringProfile } from '@/lib/linkScoring';
+import { ScoringProfileInput, resolveScoringProfile } from '@/lib/scoringProfiles';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const PreviewSchema = z.object({
+  noteId: z.string().min(1),
+  profile: ScoringProfileInput,
+});
+
+// Suggestions listed, as in the links panel
+const PREVIEW_LIMIT = 25;
+
+// POST /api/spaces/:id/scoring/preview { noteId, profile } -> the sample note's link suggestions with their
+// score and decision under the space's current profile and under the edited one. Nothing is saved. The note's
+// candidates are collected once and rescored on later edits (see cachedLinkCandidates).
+export async function POST(req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    const json = await req.json().catch(() => ({}));
+    const parsed = PreviewSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload', issues: parsed.error.issues }, { status: 400 });
+    }
+    const found = await cachedLinkCandidates(parsed.data.noteId, { min: 0.7, topk: 3 });
+    if (!found) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    const candidates = found.candidates.filter((c) => !found.accepted.has(c.id));
+    const edited: ScoringProfile = { ...parsed.data.profile, version: -1 }; // unsaved
+    const before = new Map(scoreLinkCandidates(candidates, resolveScoringProfile(id).profile).map((s) => [s.id, s]));
+    // Candidates suggested under either profile, best first under the edited one
+    const suggestions = scoreLinkCandidates(candidates, edited)
+      .map((s) => {
+        const b = before.get(s.id);
+        return {
+          id: s.id,
+          title: s.title,
+          current: { score: b?.score ?? 0, decision: b?.decision ?? 'none' },
+          preview: { score: s.score, decision: s.decision },
+        };
+      })
+      .filter((s) => s.current.decision !== 'none' || s.preview.decision !== 'none')
+      .slice(0, PREVIEW_LIMIT);
+    return NextResponse.json({ noteId: found.target.id, suggestions });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to preview scoring profile' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { db, spaces } from '@/db/client';
+import { eq } from 'drizzle-orm';
+import {
+  ScoringProfileInput,
+  clearSpaceScoringProfile,
+  listScoringProfiles,
+  resolveScoringProfile,
+  saveScoringProfile,
+} from '@/lib/scoringProfiles';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+function spaceExists(id: string): boolean {
+  return !!db.select({ id: spaces.id }).from(spaces).where(eq(spaces.id, id)).get();
+}
+
+function scoringState(id: string) {
+  const { profile, source } = resolveScoringProfile(id);
+  return { spaceId: id, source, profile, versions: listScoringProfiles(id).map((r) => ({ version: r.version, status: r.status, createdAt: r.createdAt })) };
+}
+
+// GET /api/spaces/:id/scoring -> link-scoring profile used for the space's notes and where it comes from
+// ('space' | 'global' | 'default')
+export async function GET(_req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    if (!spaceExists(id)) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json(scoringState(id));
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to load scoring profile' }, { status: 500 });
+  }
+}
+
+// PUT /api/spaces/:id/scoring { model?, weights, bias?, guardrail?, hardThreshold, softThreshold, aggregate? }
+// -> save a new profile version for the space and use it from now on
+export async function PUT(req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    if (!spaceExists(id)) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    const json = await req.json().catch(() => ({}));
+    const parsed = ScoringProfileInput.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload', issues: parsed.error.issues }, { status: 400 });
+    }
+    saveScoringProfile({ ...parsed.data, samples: 0, positives: 0, negatives: 0, metrics: null }, id);
+    return NextResponse.json(scoringState(id));
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to save scoring profile' }, { status: 500 });
+  }
+}
+
+// DELETE /api/spaces/:id/scoring -> stop using the space's own profile (falls back to the global one)
+export async function DELETE(_req: Request, context: { params: Promise<{ id: string }> }) {
+  noStore();
+  try {
+    const { id } = await context.params;
+    if (!spaceExists(id)) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    clearSpaceScoringProfile(id);
+    return NextResponse.json(scoringState(id));
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to reset scoring profile' }, { status: 500 });
+  }
+}
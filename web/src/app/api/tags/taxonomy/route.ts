@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { unstable_noStore as noStore } from 'next/cache';
+import { z } from 'zod';
+import {
+  TagName,
+  aliasTag,
+  blockTag,
+  listTagRules,
+  mergeTag,
+  removeTagRule,
+  renameTag,
+  type TaxonomyResult,
+} from '@/lib/tagTaxonomy';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+const OperationSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('rename'), tag: TagName, to: TagName }),
+  z.object({ op: z.literal('merge'), tag: TagName, into: TagName }),
+  z.object({ op: z.literal('alias'), tag: TagName, canonical: TagName }),
+  z.object({ op: z.literal('block'), tag: TagName }),
+]);
+
+const ERRORS: Record<Exclude<TaxonomyResult, { ok: true }>['error'], { status: number; message: (r: { tag: string; target?: string }) => string }> = {
+  not_found: { status: 404, message: (r) => `Tag "${r.tag}" is not used by any note` },
+  exists: { status: 409, message: (r) => `Tag "${r.target}" is already in use; merge into it instead` },
+  same: { status: 400, message: () => 'A tag cannot be mapped to itself' },
+  blocked: { status: 409, message: (r) => `Tag "${r.target}" is blocked` },
+  cycle: { status: 409, message: (r) => `"${r.target}" is already an alias of "${r.tag}"` },
+};
+
+// GET /api/tags/taxonomy -> alias and block rules
+export async function GET() {
+  noStore();
+  try {
+    return NextResponse.json({ rules: listTagRules() });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to load tag rules' }, { status: 500 });
+  }
+}
+
+// POST /api/tags/taxonomy { op: 'rename', tag, to } | { op: 'merge', tag, into } | { op: 'alias', tag, canonical }
+// | { op: 'block', tag } -> update the rules and the tags on existing notes
+export async function POST(req: Request) {
+  noStore();
+  try {
+    const json = await req.json().catch(() => ({}));
+    const parsed = OperationSchema.safeParse(json);
+    if (!parsed.success) {
+      return NextResponse.json({ error: 'Invalid payload', issues: parsed.error.issues }, { status: 400 });
+    }
+    const p = parsed.data;
+    const result =
+      p.op === 'rename' ? renameTag(p.tag, p.to)
+      : p.op === 'merge' ? mergeTag(p.tag, p.into)
+      : p.op === 'alias' ? aliasTag(p.tag, p.canonical)
+      : blockTag(p.tag);
+    if ('error' in result) {
+      const err = ERRORS[result.error];
+      return NextResponse.json({ error: err.message(result), code: result.error }, { status: err.status });
+    }
+    return NextResponse.json({ ...result, rules: listTagRules() });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to update tags' }, { status: 500 });
+  }
+}
+
+// DELETE /api/tags/taxonomy?tag=... -> remove a tag's alias or block rule (tags already rewritten stay as they are)
+export async function DELETE(req: Request) {
+  noStore();
+  try {
+    const parsed = TagName.safeParse(new URL(req.url).searchParams.get('tag') ?? '');
+    if (!parsed.success) return NextResponse.json({ error: 'Invalid tag' }, { status: 400 });
+    if (!removeTagRule(parsed.data)) return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    return NextResponse.json({ ok: true, rules: listTagRules() });
+  } catch (e) {
+    console.error(e);
+    return NextResponse.json({ error: 'Failed to remove tag rule' }, { status: 500 });
+  }
+}
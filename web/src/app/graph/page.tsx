@@ -0,0 +1,335 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import KnowledgeGraph, { type KnowledgeGraphEdge, type KnowledgeGraphNode } from "@/components/KnowledgeGraph";
+
+type Space = { id: string; name: string };
+
+type GraphNode = { id: string; title: string; spaceId: string | null; tags: string[]; entities: string[] };
+
+type GraphEdge = { source: string; target: string; score: number; decision: "hard" | "soft" };
+
+// Space filter value for notes outside any space
+const NO_SPACE = "__none";
+
+const SPACE_COLORS = ["#60a5fa", "#f472b6", "#34d399", "#fbbf24", "#a78bfa", "#f87171", "#22d3ee", "#a3e635", "#fb923c", "#e879f9"];
+const NO_SPACE_COLOR = "#9ca3af";
+
+function noteHref(n: GraphNode): string {
+  const q = `?note=${encodeURIComponent(n.id)}`;
+  return n.spaceId ? `/spaces/${encodeURIComponent(n.spaceId)}${q}` : `/${q}`;
+}
+
+function sortedValues(nodes: GraphNode[], pick: (n: GraphNode) => string[]): string[] {
+  return Array.from(new Set(nodes.flatMap(pick))).sort((a, b) => a.localeCompare(b));
+}
+
+export default function GraphPage() {
+  const router = useRouter();
+  const [nodes, setNodes] = useState<GraphNode[]>([]);
+  const [links, setLinks] = useState<GraphEdge[]>([]);
+  const [spaces, setSpaces] = useState<Space[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Filters
+  const [space, setSpace] = useState("");
+  const [tag, setTag] = useState("");
+  const [entity, setEntity] = useState("");
+  const [showSoft, setShowSoft] = useState(true);
+
+  const [query, setQuery] = useState("");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // A new object re-centres the view, even on the same note
+  const [focus, setFocus] = useState<{ id: string } | null>(null);
+  // Hops shown around the selected note; 0 shows the whole (filtered) graph
+  const [depth, setDepth] = useState(0);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const [graphRes, spacesRes] = await Promise.all([
+          fetch("/api/links?format=json", { cache: "no-store" }),
+          fetch("/api/spaces", { cache: "no-store" }),
+        ]);
+        if (!graphRes.ok) throw new Error("Failed to load the link graph");
+        const graph = await graphRes.json();
+        const list = spacesRes.ok ? await spacesRes.json() : [];
+        setNodes(Array.isArray(graph?.nodes) ? graph.nodes : []);
+        setLinks(Array.isArray(graph?.edges) ? graph.edges : []);
+        setSpaces(Array.isArray(list) ? list : []);
+      } catch (e) {
+        setError((e as Error).message || "Failed to load the link graph");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const byId = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
+
+  const colors = useMemo(() => {
+    const out = new Map<string, string>();
+    spaces.forEach((s, i) => out.set(s.id, SPACE_COLORS[i % SPACE_COLORS.length]));
+    return out;
+  }, [spaces]);
+
+  // Links are suggested in both directions; draw each pair once with its stronger score
+  const pairs = useMemo(() => {
+    const out = new Map<string, KnowledgeGraphEdge>();
+    for (const l of links) {
+      const [source, target] = l.source < l.target ? [l.source, l.target] : [l.target, l.source];
+      const key = `${source}|${target}`;
+      const prev = out.get(key);
+      out.set(key, {
+        source,
+        target,
+        score: Math.max(prev?.score ?? 0, l.score),
+        decision: prev?.decision === "hard" || l.decision === "hard" ? "hard" : "soft",
+      });
+    }
+    return Array.from(out.values());
+  }, [links]);
+
+  const tags = useMemo(() => sortedValues(nodes, (n) => n.tags), [nodes]);
+  const entities = useMemo(() => sortedValues(nodes, (n) => n.entities), [nodes]);
+
+  // Notes and links left after the space/tag/entity filters
+  const filtered = useMemo(() => {
+    const keep = new Set(
+      nodes
+        .filter((n) => !space || (space === NO_SPACE ? n.spaceId === null : n.spaceId === space))
+        .filter((n) => !tag || n.tags.includes(tag))
+        .filter((n) => !entity || n.entities.includes(entity))
+        .map((n) => n.id),
+    );
+    const edges = pairs.filter((e) => keep.has(e.source) && keep.has(e.target) && (showSoft || e.decision === "hard"));
+    return { keep, edges };
+  }, [nodes, pairs, space, tag, entity, showSoft]);
+
+  // The selected note's neighbourhood, `depth` hops out
+  const visible = useMemo(() => {
+    if (!selectedId || depth === 0 || !filtered.keep.has(selectedId)) return filtered;
+    const adjacent = new Map<string, string[]>();
+    for (const e of filtered.edges) {
+      adjacent.set(e.source, [...(adjacent.get(e.source) ?? []), e.target]);
+      adjacent.set(e.target, [...(adjacent.get(e.target) ?? []), e.source]);
+    }
+    const keep = new Set([selectedId]);
+    let frontier = [selectedId];
+    for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const m of adjacent.get(id) ?? []) {
+          if (keep.has(m)) continue;
+          keep.add(m);
+          next.push(m);
+        }
+      }
+      frontier = next;
+    }
+    return { keep, edges: filtered.edges.filter((e) => keep.has(e.source) && keep.has(e.target)) };
+  }, [filtered, selectedId, depth]);
+
+  const graphNodes: KnowledgeGraphNode[] = useMemo(
+    () =>
+      nodes
+        .filter((n) => visible.keep.has(n.id))
+        .map((n) => ({ id: n.id, title: n.title, color: (n.spaceId && colors.get(n.spaceId)) || NO_SPACE_COLOR })),
+    [nodes, visible, colors],
+  );
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return nodes.filter((n) => filtered.keep.has(n.id) && (n.title || "").toLowerCase().includes(q)).slice(0, 8);
+  }, [nodes, filtered, query]);
+
+  function focusOn(id: string) {
+    setSelectedId(id);
+    setFocus({ id });
+  }
+
+  function select(id: string | null) {
+    setSelectedId(id);
+    if (!id) setDepth(0);
+  }
+
+  function open(id: string) {
+    const n = byId.get(id);
+    if (n) router.push(noteHref(n));
+  }
+
+  const selected = selectedId ? byId.get(selectedId) ?? null : null;
+  const selectedLinks = selected
+    ? visible.edges
+        .filter((e) => e.source === selected.id || e.target === selected.id)
+        .map((e) => ({ ...e, other: byId.get(e.source === selected.id ? e.target : e.source) }))
+        .sort((a, b) => b.score - a.score)
+    : [];
+  const spaceName = (id: string | null) => (id ? spaces.find((s) => s.id === id)?.name ?? id.slice(0, 8) : "No space");
+
+  return (
+    <div className="h-screen flex flex-col">
+      <header className="px-6 py-3 border-b border-black/10 dark:border-white/10 flex items-center justify-between">
+        <nav className="flex items-baseline gap-2 text-sm">
+          <Link href="/" className="underline">Home</Link>
+          <span className="opacity-50">/</span>
+          <span className="opacity-80">Graph</span>
+        </nav>
+        <span className="text-xs opacity-70">
+          {graphNodes.length} notes · {visible.edges.length} links
+        </span>
+      </header>
+
+      <div className="px-6 py-2 border-b border-black/10 dark:border-white/10 flex flex-wrap items-center gap-2 text-sm">
+        <div className="relative">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && matches[0]) {
+                focusOn(matches[0].id);
+                setQuery("");
+              }
+            }}
+            placeholder="Find a note…"
+            className="w-56 px-2 py-1 rounded border border-white/15 bg-transparent"
+          />
+          {matches.length > 0 ? (
+            <ul className="absolute z-10 mt-1 w-72 rounded border border-white/15 bg-black/90 text-xs">
+              {matches.map((n) => (
+                <li key={n.id}>
+                  <button
+                    className="w-full text-left px-2 py-1 truncate hover:bg-white/10"
+                    onClick={() => {
+                      focusOn(n.id);
+                      setQuery("");
+                    }}
+                  >
+                    {n.title || "Untitled"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : null}
+        </div>
+        <select value={space} onChange={(e) => setSpace(e.target.value)} className="px-2 py-1 rounded border border-white/15 bg-transparent">
+          <option value="">All spaces</option>
+          <option value={NO_SPACE}>No space</option>
+          {spaces.map((s) => (
+            <option key={s.id} value={s.id}>{s.name}</option>
+          ))}
+        </select>
+        <select value={tag} onChange={(e) => setTag(e.target.value)} className="px-2 py-1 rounded border border-white/15 bg-transparent">
+          <option value="">All tags</option>
+          {tags.map((t) => (
+            <option key={t} value={t}>#{t}</option>
+          ))}
+        </select>
+        <select value={entity} onChange={(e) => setEntity(e.target.value)} className="px-2 py-1 rounded border border-white/15 bg-transparent">
+          <option value="">All entities</option>
+          {entities.map((t) => (
+            <option key={t} value={t}>{t}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs">
+          <input type="checkbox" checked={showSoft} onChange={(e) => setShowSoft(e.target.checked)} />
+          Soft links
+        </label>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="flex-1 min-w-0">
+          {loading ? (
+            <p className="p-6 text-sm opacity-70">Loading…</p>
+          ) : error ? (
+            <p className="p-6 text-sm text-rose-400">{error}</p>
+          ) : graphNodes.length === 0 ? (
+            <p className="p-6 text-sm opacity-70">No notes match these filters.</p>
+          ) : (
+            <KnowledgeGraph nodes={graphNodes} edges={visible.edges} selectedId={selectedId} focus={focus} onSelect={select} onOpen={open} />
+          )}
+        </div>
+
+        <aside className="w-72 shrink-0 border-l border-black/10 dark:border-white/10 p-4 overflow-y-auto text-sm">
+          {selected ? (
+            <div className="flex flex-col gap-3">
+              <div>
+                <div className="font-medium">{selected.title || "Untitled"}</div>
+                <div className="text-xs opacity-70">{spaceName(selected.spaceId)}</div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Link href={noteHref(selected)} className="px-2 py-1 text-xs rounded border border-white/15 bg-white/5 hover:bg-white/10">
+                  Open note
+                </Link>
+                <button
+                  className="px-2 py-1 text-xs rounded border border-white/15 hover:bg-white/5"
+                  onClick={() => setDepth((d) => d + 1)}
+                >
+                  {depth === 0 ? "Show neighbourhood" : "Expand"}
+                </button>
+                {depth > 0 ? (
+                  <button className="px-2 py-1 text-xs rounded border border-white/15 hover:bg-white/5" onClick={() => setDepth(0)}>
+                    Show all
+                  </button>
+                ) : null}
+              </div>
+              {depth > 0 ? <div className="text-xs opacity-70">Showing notes up to {depth} link{depth === 1 ? "" : "s"} away</div> : null}
+              {selected.tags.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {selected.tags.map((t) => (
+                    <button key={t} className="text-[10px] px-1.5 py-0.5 rounded bg-black/5 dark:bg-white/10" onClick={() => setTag(t)}>#{t}</button>
+                  ))}
+                </div>
+              ) : null}
+              {selected.entities.length > 0 ? (
+                <div className="flex flex-wrap gap-1">
+                  {selected.entities.map((t) => (
+                    <button key={t} className="text-[10px] px-1.5 py-0.5 rounded border border-white/15" onClick={() => setEntity(t)}>{t}</button>
+                  ))}
+                </div>
+              ) : null}
+              <div>
+                <div className="text-xs opacity-70 mb-1">Linked notes</div>
+                {selectedLinks.length === 0 ? (
+                  <p className="text-xs opacity-70">No links shown.</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {selectedLinks.map((l) => (
+                      <li key={`${l.source}|${l.target}`} className="flex items-center justify-between gap-2 text-xs">
+                        <button className="truncate text-left hover:underline" onClick={() => l.other && focusOn(l.other.id)}>
+                          {l.other?.title || "Untitled"}
+                        </button>
+                        <span className="shrink-0 tabular-nums opacity-70">
+                          {l.decision} {l.score.toFixed(2)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="text-xs opacity-70">Click a note to see its links, double-click to open it. Scroll to zoom, drag to pan.</p>
+          )}
+          <div className="mt-6 pt-3 border-t border-white/10 flex flex-col gap-1 text-xs">
+            {spaces.map((s) => (
+              <div key={s.id} className="flex items-center gap-2">
+                <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ background: colors.get(s.id) }} />
+                <span className="truncate">{s.name}</span>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <span className="inline-block w-2.5 h-2.5 rounded-full" style={{ background: NO_SPACE_COLOR }} />
+              <span>No space</span>
+            </div>
+          </div>
+        </aside>
+      </div>
+    </div>
+  );
+}
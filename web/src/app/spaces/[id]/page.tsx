@@ -1,12 +1,13 @@
 "use client";
 
 import Link from "next/link";
-import { useParams } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 import NotesShell from "@/components/NotesShell";
 
 export default function SpacePage() {
   const params = useParams();
   const id = (params?.id as string) || "";
+  const note = useSearchParams()?.get("note") || undefined;
   if (!id) return <div className="p-6 text-sm">Invalid space</div>;
   return (
     <div className="min-h-screen">
@@ -19,7 +20,7 @@ export default function SpacePage() {
           <span className="opacity-80">{id.slice(0, 8)}…</span>
         </nav>
       </header>
-      <NotesShell spaceId={id} />
+      <NotesShell spaceId={id} initialNoteId={note} />
     </div>
   );
 }
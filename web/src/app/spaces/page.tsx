@@ -2,6 +2,7 @@
 
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
+import SpaceScoringSettings from "@/components/SpaceScoringSettings";
 
 type Space = {
   id: string;
@@ -22,6 +23,8 @@ export default function SpacesPage() {
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState<string>("");
   const [busyId, setBusyId] = useState<string | null>(null);
+  // Space whose link-scoring settings are open
+  const [settingsId, setSettingsId] = useState<string | null>(null);
 
   async function loadSpaces() {
     try {
@@ -179,26 +182,39 @@ export default function SpacesPage() {
                     </div>
                   </div>
                 ) : (
-                  <div className="flex items-center justify-between gap-4">
-                    <Link href={`/spaces/${s.id}`} className="flex-1 flex items-center justify-between gap-4">
-                      <div>
-                        <div className="text-sm font-medium">{s.name}</div>
-                        <div className="text-xs opacity-70">
-                          {s.updatedAt ? new Date(s.updatedAt).toLocaleString() : null}
+                  <>
+                    <div className="flex items-center justify-between gap-4">
+                      <Link href={`/spaces/${s.id}`} className="flex-1 flex items-center justify-between gap-4">
+                        <div>
+                          <div className="text-sm font-medium">{s.name}</div>
+                          <div className="text-xs opacity-70">
+                            {s.updatedAt ? new Date(s.updatedAt).toLocaleString() : null}
+                          </div>
                         </div>
+                        <span className="text-xs underline">Open</span>
+                      </Link>
+                      <button
+                        className="px-2 py-1 text-xs rounded border border-white/15 hover:bg-white/5"
+                        onClick={() => {
+                          setEditingId(s.id);
+                          setEditName(s.name);
+                        }}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="px-2 py-1 text-xs rounded border border-white/15 hover:bg-white/5"
+                        onClick={() => setSettingsId(settingsId === s.id ? null : s.id)}
+                      >
+                        {settingsId === s.id ? "Close" : "Link settings"}
+                      </button>
+                    </div>
+                    {settingsId === s.id ? (
+                      <div className="mt-3 pt-3 border-t border-white/10">
+                        <SpaceScoringSettings spaceId={s.id} />
                       </div>
-                      <span className="text-xs underline">Open</span>
-                    </Link>
-                    <button
-                      className="px-2 py-1 text-xs rounded border border-white/15 hover:bg-white/5"
-                      onClick={() => {
-                        setEditingId(s.id);
-                        setEditName(s.name);
-                      }}
-                    >
-                      Edit
-                    </button>
-                  </div>
+                    ) : null}
+                  </>
                 )}
               </li>
             ))}
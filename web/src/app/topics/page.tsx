@@ -1,86 +1,40 @@
-import { db, notes } from "@/db/client";
-import { normalizeEntityName } from "@/lib/entities";
-import { normalizeTags } from "@/lib/tags";
+import { db, notes, noteEntities } from "@/db/client";
 import Link from "next/link";
+import { eq, isNull, sql } from "drizzle-orm";
+import { tagCorpusStats } from "@/lib/tagStats";
+import { listTagRules } from "@/lib/tagTaxonomy";
+import TagManager from "@/components/TagManager";
 
 export const dynamic = "force-dynamic";
 export const revalidate = 0;
 
-function parseEntities(json: string | null): Array<{ entity: string; weight?: number }> {
-  if (!json) return [];
-  try {
-    const arr = JSON.parse(json);
-    if (Array.isArray(arr)) return arr as Array<{ entity: string; weight?: number }>;
-  } catch {}
-  return [];
-}
-
 export default async function TopicsPage({ searchParams }: { searchParams: Promise<{ [key: string]: string | string[] | undefined }> }) {
   const sp = await searchParams;
   const tab = (typeof sp?.tab === 'string' ? sp.tab : 'entities') as 'entities' | 'tags';
-  const rows = db.select().from(notes).all() as any[];
-
-  // Accumulate entities across notes
-  const entityWeights = new Map<string, number>();
-  const entityCounts = new Map<string, number>(); // total occurrences across all notes
-  const entityNoteCounts = new Map<string, number>();
-
-  for (const n of rows) {
-    const list = parseEntities(n.entities ?? null);
-    if (!list.length) continue;
-    // per-note map to count distinct entity presence for noteCounts
-    const seen = new Set<string>();
-    for (const item of list) {
-      const key = normalizeEntityName(item.entity);
-      if (!key) continue;
-      const w = Math.max(0, Number(item.weight) || 1);
-      entityWeights.set(key, (entityWeights.get(key) ?? 0) + w);
-      entityCounts.set(key, (entityCounts.get(key) ?? 0) + 1);
-      if (!seen.has(key)) {
-        entityNoteCounts.set(key, (entityNoteCounts.get(key) ?? 0) + 1);
-        seen.add(key);
-      }
-    }
-  }
 
-  const entityTopics = Array.from(entityWeights.entries()).map(([entity, totalWeight]) => ({
-    entity,
-    totalWeight,
-    count: entityCounts.get(entity) ?? 0,
-    noteCount: entityNoteCounts.get(entity) ?? 0,
-  }));
+  // Aggregate entities across notes not in the trash
+  const entityTopics = db
+    .select({
+      entity: noteEntities.entity,
+      totalWeight: sql<number>`sum(${noteEntities.weight})`,
+      count: sql<number>`count(*)`,
+      noteCount: sql<number>`count(distinct ${noteEntities.noteId})`,
+    })
+    .from(noteEntities)
+    .innerJoin(notes, eq(notes.id, noteEntities.noteId))
+    .where(isNull(notes.deletedAt))
+    .groupBy(noteEntities.entity)
+    .all();
   entityTopics.sort((a, b) => b.totalWeight - a.totalWeight || a.entity.localeCompare(b.entity));
 
-  // --- Aggregate Tags ---
-  const tagCounts = new Map<string, number>();
-  const tagNoteCounts = new Map<string, number>();
-  for (const n of rows) {
-    let tags: string[] = [];
-    try {
-      const parsed = n.tags ? JSON.parse(n.tags) : [];
-      tags = normalizeTags(parsed);
-    } catch {
-      // ignore
-    }
-    const seen = new Set<string>();
-    for (const t of tags) {
-      tagCounts.set(t, (tagCounts.get(t) ?? 0) + 1);
-      if (!seen.has(t)) {
-        tagNoteCounts.set(t, (tagNoteCounts.get(t) ?? 0) + 1);
-        seen.add(t);
-      }
-    }
-  }
-  const tagTopics = Array.from(tagCounts.entries()).map(([tag, count]) => ({
-    tag,
-    count,
-    noteCount: tagNoteCounts.get(tag) ?? 0,
-  }));
+  // Tags with their document frequency and the IDF used for link scoring
+  const tagStats = tagCorpusStats();
+  const tagTopics = Array.from(tagStats.df, ([tag, df]) => ({ tag, count: df, idf: tagStats.idf[tag] ?? 0 }));
   tagTopics.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
 
   // Totals for tab badges
-  const totalEntityCount = Array.from(entityCounts.values()).reduce((a, b) => a + b, 0);
-  const totalTagCount = Array.from(tagCounts.values()).reduce((a, b) => a + b, 0);
+  const totalEntityCount = entityTopics.reduce((a, t) => a + t.count, 0);
+  const totalTagCount = tagTopics.reduce((a, t) => a + t.count, 0);
 
   return (
     <div className="max-w-3xl mx-auto px-6 py-8">
@@ -114,21 +68,14 @@ export default async function TopicsPage({ searchParams }: { searchParams: Promi
           </ul>
         )
       ) : (
-        tagTopics.length === 0 ? (
-          <div className="text-sm text-gray-500">No tags yet.</div>
-        ) : (
-          <ul className="divide-y divide-black/5 dark:divide-white/10">
-            {tagTopics.map((t) => (
-              <li key={t.tag} className="py-2 flex items-center justify-between gap-4">
-                <div className="truncate">
-                  <span className="text-sm font-medium">{t.tag}</span>
-                  <span className="ml-2 text-xs text-gray-500">{t.noteCount} note{t.noteCount === 1 ? '' : 's'}</span>
-                </div>
-                <span className="text-[10px] px-2 py-0.5 rounded bg-black/5 dark:bg-white/10 text-gray-600 dark:text-gray-300" title={`count across notes: ${t.count}`}>{t.count}</span>
-              </li>
-            ))}
-          </ul>
-        )
+        <>
+          {tagTopics.length > 0 ? (
+            <div className="mb-2 text-xs text-gray-500">
+              {tagStats.documents} tagged note{tagStats.documents === 1 ? '' : 's'} · {tagStats.avgTags.toFixed(1)} tags per note on average
+            </div>
+          ) : null}
+          <TagManager tags={tagTopics} rules={listTagRules().map((r) => ({ tag: r.tag, kind: r.kind, target: r.target }))} />
+        </>
       )}
     </div>
   );
@@ -0,0 +1,118 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type TrashedNote = {
+  id: string;
+  title: string;
+  deletedAt: string;
+  purgeAt: string;
+  spaceId?: string | null;
+};
+
+export default function TrashPage() {
+  const [notes, setNotes] = useState<TrashedNote[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  async function loadTrash() {
+    try {
+      setError(null);
+      const res = await fetch("/api/notes/trash", { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to fetch trash");
+      const data = await res.json();
+      setNotes(Array.isArray(data?.notes) ? data.notes : []);
+      setRetentionDays(typeof data?.retentionDays === "number" ? data.retentionDays : null);
+    } catch (e) {
+      setError((e as Error).message || "Failed to fetch trash");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    void loadTrash();
+  }, []);
+
+  async function restore(id: string) {
+    try {
+      setBusyId(id);
+      const res = await fetch(`/api/notes/${id}/restore`, { method: "POST" });
+      if (!res.ok) throw new Error("Failed to restore note");
+      await loadTrash();
+    } catch (e) {
+      setError((e as Error).message || "Failed to restore note");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  async function deleteForever(id: string) {
+    if (!confirm("Delete this note permanently? This cannot be undone.")) return;
+    try {
+      setBusyId(id);
+      const res = await fetch(`/api/notes/${id}?permanent=1`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to delete note");
+      await loadTrash();
+    } catch (e) {
+      setError((e as Error).message || "Failed to delete note");
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <div className="min-h-screen px-6 py-8 max-w-3xl mx-auto">
+      <header className="mb-6 flex items-center justify-between">
+        <div className="flex items-baseline gap-2">
+          <Link href="/" className="text-sm underline">Home</Link>
+          <span className="opacity-50">/</span>
+          <h1 className="text-2xl font-semibold">Trash</h1>
+        </div>
+      </header>
+
+      {retentionDays ? (
+        <p className="mb-4 text-xs opacity-70">Notes are deleted permanently {retentionDays} days after being moved to the trash.</p>
+      ) : null}
+      {error ? <p className="mb-4 text-sm text-rose-400">{error}</p> : null}
+
+      {loading ? (
+        <p className="text-sm opacity-70">Loading…</p>
+      ) : notes.length === 0 ? (
+        <p className="text-sm opacity-70">Trash is empty.</p>
+      ) : (
+        <ul className="space-y-2">
+          {notes.map((n) => (
+            <li key={n.id} className="p-3 rounded border border-white/10 flex items-center justify-between gap-4">
+              <div className="min-w-0">
+                <div className="text-sm font-medium truncate">{n.title || "Untitled"}</div>
+                <div className="text-xs opacity-70">
+                  Deleted {new Date(n.deletedAt).toLocaleString()} · purged {new Date(n.purgeAt).toLocaleDateString()}
+                </div>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  className="px-3 py-1.5 text-sm rounded border border-white/15 bg-white/5 hover:bg-white/10 disabled:opacity-50"
+                  disabled={busyId === n.id}
+                  onClick={() => restore(n.id)}
+                >
+                  Restore
+                </button>
+                <button
+                  className="px-3 py-1.5 text-sm rounded border border-rose-500/40 text-rose-300 hover:bg-rose-500/10 disabled:opacity-50"
+                  disabled={busyId === n.id}
+                  onClick={() => deleteForever(n.id)}
+                >
+                  Delete forever
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -6,12 +6,24 @@ import "@blocknote/mantine/style.css";
 import { DefaultReactSuggestionItem, SuggestionMenuController, getDefaultReactSlashMenuItems, useCreateBlockNote } from "@blocknote/react";
 import { filterSuggestionItems } from "@blocknote/core";
 import { useEffect, useRef, useState } from "react";
+import RevisionHistoryDrawer from "@/components/RevisionHistoryDrawer";
+import ProcessingIndicator, { type ProcessingStage } from "@/components/ProcessingIndicator";
+import { touchEditingSession } from "@/components/editingSession";
 
 type SaveState = "idle" | "saving" | "saved" | "error";
 
 type Space = { id: string; name: string };
 
-export default function BlockNoteEditor({ noteId }: { noteId?: string | null }) {
+type TitleSource = "auto" | "manual";
+
+export default function BlockNoteEditor({
+  noteId,
+  processing,
+}: {
+  noteId?: string | null;
+  // Background processing state of the note, tracked by the parent from the note's event stream
+  processing?: { status: ProcessingStage | null; error: string | null } | null;
+}) {
   const [loading, setLoading] = useState(true);
   const [saveState, setSaveState] = useState<SaveState>("idle");
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -23,6 +35,17 @@ export default function BlockNoteEditor({ noteId }: { noteId?: string | null })
   const [tags, setTags] = useState<string[]>([]);
   const [search, setSearch] = useState('');
   const spaceInputRef = useRef<HTMLInputElement | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Bumped to force a reload of the note (e.g. after restoring a revision)
+  const [reloadKey, setReloadKey] = useState(0);
+  // Title: generated ('auto') until the user names the note ('manual'), which locks it
+  const [titleDraft, setTitleDraft] = useState("");
+  const [titleSource, setTitleSource] = useState<TitleSource>("auto");
+  const editingTitleRef = useRef(false);
+  // Title as last saved, to tell edits from focus/blur without changes
+  const savedTitleRef = useRef("");
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
 
   // Focus the space input when the picker opens
   useEffect(() => {
@@ -57,6 +80,10 @@ export default function BlockNoteEditor({ noteId }: { noteId?: string | null })
         if (!res.ok) throw new Error("Failed to load note");
         const data = await res.json();
         const cj = data.contentJson;
+        savedTitleRef.current = typeof data?.title === "string" ? data.title : "";
+        setTitleDraft(savedTitleRef.current);
+        setTitleSource(data?.titleSource === "manual" ? "manual" : "auto");
+        setSuggestion(null);
         // metadata: spaceId
         setSpaceId(typeof data?.spaceId === 'string' ? data.spaceId as string : null);
         // metadata: tags for "create space from tag"
@@ -88,7 +115,7 @@ export default function BlockNoteEditor({ noteId }: { noteId?: string | null })
     load();
     return () => { aborted = true; };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [noteId]);
+  }, [noteId, reloadKey]);
 
   // Load spaces once (for picker)
   useEffect(() => {
@@ -109,12 +136,20 @@ export default function BlockNoteEditor({ noteId }: { noteId?: string | null })
     try {
       const contentJson = editorRef.current?.document ?? null; // BlockNote block objects
       setSaveState("saving");
+      // Keep the editing session alive while writing
+      touchEditingSession();
       const res = await fetch(`/api/notes/${noteId}`, {
         method: "PUT",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({ contentJson }),
       });
       if (!res.ok) throw new Error("Failed to save");
+      const data = await res.json().catch(() => null);
+      // Provisional title for a note that had none yet
+      if (typeof data?.title === "string") {
+        savedTitleRef.current = data.title;
+        if (!editingTitleRef.current) setTitleDraft(data.title);
+      }
       setSaveState("saved");
       try {
         window.dispatchEvent(new CustomEvent("note-saved", { detail: { id: noteId } }));
@@ -126,6 +161,63 @@ export default function BlockNoteEditor({ noteId }: { noteId?: string | null })
     }
   }
 
+  // Auto titles arrive with background processing; pick them up once it finishes
+  useEffect(() => {
+    if (!noteId || titleSource !== "auto" || processing?.status !== "done") return;
+    let stop = false;
+    (async () => {
+      try {
+        const res = await fetch(`/api/notes/${noteId}`, { cache: "no-store" });
+        if (!res.ok) return;
+        const data = await res.json();
+        if (stop || typeof data?.title !== "string") return;
+        savedTitleRef.current = data.title;
+        if (!editingTitleRef.current) setTitleDraft(data.title);
+      } catch {}
+    })();
+    return () => { stop = true; };
+  }, [noteId, titleSource, processing?.status]);
+
+  // Save a title typed by the user (locks it) or, with '', hand the title back to auto generation
+  async function saveTitle(patch: { title: string } | { titleSource: "auto" }) {
+    if (!noteId) return;
+    try {
+      setSaveState("saving");
+      const res = await fetch(`/api/notes/${noteId}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(patch),
+      });
+      if (!res.ok) throw new Error("Failed to save title");
+      const data = await res.json();
+      savedTitleRef.current = typeof data?.title === "string" ? data.title : "";
+      setTitleDraft(savedTitleRef.current);
+      setTitleSource(data?.titleSource === "manual" ? "manual" : "auto");
+      setSuggestion(null);
+      setSaveState("saved");
+      setTimeout(() => setSaveState("idle"), 800);
+      try { window.dispatchEvent(new CustomEvent("note-saved", { detail: { id: noteId } })); } catch {}
+    } catch (e) {
+      console.error(e);
+      setSaveState("error");
+    }
+  }
+
+  async function suggestTitle() {
+    if (!noteId) return;
+    setSuggesting(true);
+    try {
+      const res = await fetch(`/api/notes/${noteId}/title-suggestion`, { method: "POST" });
+      if (!res.ok) throw new Error("Failed to suggest a title");
+      const data = await res.json();
+      setSuggestion(typeof data?.title === "string" && data.title.trim() ? data.title.trim() : null);
+    } catch (e) {
+      console.error(e);
+    } finally {
+      setSuggesting(false);
+    }
+  }
+
   async function assignSpace(next: string | null) {
     if (!noteId) return;
     try {
@@ -162,6 +254,14 @@ export default function BlockNoteEditor({ noteId }: { noteId?: string | null })
     }
   }
 
+  function handleRestored() {
+    // Drop any pending autosave so it cannot overwrite the restored content
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    setSaveState("idle");
+    setReloadKey((k) => k + 1);
+    try { window.dispatchEvent(new CustomEvent("note-saved", { detail: { id: noteId } })); } catch {}
+  }
+
   // Cleanup
   useEffect(() => {
     return () => {
@@ -171,8 +271,65 @@ export default function BlockNoteEditor({ noteId }: { noteId?: string | null })
 
   return (
     <div className="w-full relative">
+      <div className="mb-2 flex items-center gap-2">
+        <input
+          type="text"
+          value={titleDraft}
+          placeholder="Untitled"
+          disabled={!noteId}
+          onFocus={() => { editingTitleRef.current = true; }}
+          onChange={(e) => setTitleDraft(e.target.value)}
+          onBlur={(e) => {
+            editingTitleRef.current = false;
+            const next = e.target.value.trim();
+            if (next === savedTitleRef.current) return;
+            // Clearing a manual title unlocks it; clearing an auto title changes nothing
+            if (!next && titleSource === "auto") setTitleDraft(savedTitleRef.current);
+            else void saveTitle({ title: next });
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") (e.target as HTMLInputElement).blur();
+          }}
+          className="flex-1 min-w-0 bg-transparent text-xl font-semibold outline-none border-b border-transparent focus:border-black/20 dark:focus:border-white/20"
+          title={titleSource === "manual" ? "Your title; it is not regenerated" : "Generated from the content until you rename the note"}
+        />
+        {titleSource === "manual" ? (
+          <button
+            type="button"
+            onClick={() => void saveTitle({ titleSource: "auto" })}
+            className="text-[10px] px-2 py-0.5 rounded-full bg-black/5 dark:bg-white/10 text-gray-700 dark:text-gray-300 border border-black/10 dark:border-white/10 hover:bg-black/10 dark:hover:bg-white/15"
+            title="Title locked. Click to generate titles from the content again"
+          >
+            🔒 Locked
+          </button>
+        ) : (
+          <span className="text-[10px] text-gray-500" title="Generated from the content">Auto</span>
+        )}
+        <button
+          type="button"
+          onClick={() => void suggestTitle()}
+          disabled={!noteId || suggesting}
+          className="text-[10px] px-2 py-0.5 rounded-full bg-black/5 dark:bg-white/10 text-gray-700 dark:text-gray-300 border border-black/10 dark:border-white/10 hover:bg-black/10 dark:hover:bg-white/15 disabled:opacity-50"
+          title="Suggest a title from the content without applying it"
+        >
+          {suggesting ? "Suggesting…" : "Suggest title"}
+        </button>
+      </div>
+      {suggestion ? (
+        <div className="mb-2 text-xs flex items-center gap-2">
+          <span className="text-gray-500">Suggestion:</span>
+          <span className="truncate">{suggestion}</span>
+          <button type="button" className="underline" onClick={() => void saveTitle({ title: suggestion })}>
+            Use
+          </button>
+          <button type="button" className="underline opacity-70" onClick={() => setSuggestion(null)}>
+            Dismiss
+          </button>
+        </div>
+      ) : null}
       <div className="mb-2 text-sm text-gray-500 flex items-center gap-2 flex-wrap">
         <SaveBadge state={saveState} />
+        <ProcessingIndicator status={processing?.status} error={processing?.error} />
         {/* Space pill or + bubble */}
         {spaceId ? (
           <button
@@ -245,7 +402,22 @@ export default function BlockNoteEditor({ noteId }: { noteId?: string | null })
             ) : null}
           </div>
         )}
+        <button
+          type="button"
+          onClick={() => setShowHistory(true)}
+          disabled={!noteId}
+          className="ml-auto text-[10px] px-2 py-0.5 rounded-full bg-black/5 dark:bg-white/10 text-gray-700 dark:text-gray-300 border border-black/10 dark:border-white/10 hover:bg-black/10 dark:hover:bg-white/15 disabled:opacity-50"
+          title="Show revision history"
+        >
+          History
+        </button>
       </div>
+      <RevisionHistoryDrawer
+        noteId={noteId}
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        onRestored={handleRestored}
+      />
       <div className="rounded-lg border border-white/10 bg-black text-white p-2 bn-dark">
         <BlockNoteView editor={editor} onChange={handleChange} slashMenu={false}>
           {/* Custom Slash Menu with math symbols */}
@@ -0,0 +1,263 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ALPHA_DECAY, ALPHA_MIN, seedLayout, stepLayout, type LayoutNode } from "./forceLayout";
+
+export type KnowledgeGraphNode = { id: string; title: string; color: string };
+
+// Undirected link between two notes
+export type KnowledgeGraphEdge = { source: string; target: string; score: number; decision: "hard" | "soft" };
+
+type View = { x: number; y: number; k: number };
+
+type Drag =
+  | { kind: "pan"; startX: number; startY: number; view: View; moved: boolean }
+  | { kind: "node"; id: string; startX: number; startY: number; moved: boolean };
+
+const MIN_ZOOM = 0.2;
+const MAX_ZOOM = 4;
+// Zoom level from which every node is labelled
+const LABEL_ZOOM = 1.5;
+
+// Force-directed SVG view of notes and links with wheel zoom, drag-to-pan and draggable nodes.
+// Clicking a node selects it, double-clicking opens it; each new `focus` centres the view on a node.
+export default function KnowledgeGraph({
+  nodes,
+  edges,
+  selectedId,
+  focus,
+  onSelect,
+  onOpen,
+}: {
+  nodes: KnowledgeGraphNode[];
+  edges: KnowledgeGraphEdge[];
+  selectedId: string | null;
+  focus: { id: string } | null;
+  onSelect: (id: string | null) => void;
+  onOpen: (id: string) => void;
+}) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const layoutRef = useRef<Map<string, LayoutNode>>(new Map());
+  // Every node placed so far, so that nodes hidden by a filter come back where they were
+  const placedRef = useRef<Map<string, LayoutNode>>(new Map());
+  const alphaRef = useRef(0);
+  const frameRef = useRef<number | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [, setFrame] = useState(0);
+  const [view, setView] = useState<View>({ x: 0, y: 0, k: 1 });
+
+  const degree = useMemo(() => {
+    const out = new Map<string, number>();
+    for (const e of edges) {
+      out.set(e.source, (out.get(e.source) ?? 0) + 1);
+      out.set(e.target, (out.get(e.target) ?? 0) + 1);
+    }
+    return out;
+  }, [edges]);
+
+  const neighbours = useMemo(() => {
+    const out = new Set<string>();
+    if (!selectedId) return out;
+    for (const e of edges) {
+      if (e.source === selectedId) out.add(e.target);
+      if (e.target === selectedId) out.add(e.source);
+    }
+    return out;
+  }, [edges, selectedId]);
+
+  function run() {
+    if (frameRef.current !== null) return;
+    const tick = () => {
+      const links = edges.map((e) => ({ source: e.source, target: e.target, weight: e.score }));
+      stepLayout(layoutRef.current, links, alphaRef.current);
+      alphaRef.current *= ALPHA_DECAY;
+      setFrame((f) => f + 1);
+      frameRef.current = alphaRef.current > ALPHA_MIN ? requestAnimationFrame(tick) : null;
+    };
+    frameRef.current = requestAnimationFrame(tick);
+  }
+
+  function stop() {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+  }
+
+  // Re-run the layout whenever the visible graph changes; known nodes keep their positions
+  useEffect(() => {
+    const placed = placedRef.current;
+    const fresh = nodes.some((n) => !placed.has(n.id));
+    layoutRef.current = seedLayout(nodes.map((n) => n.id), placed);
+    for (const [id, n] of layoutRef.current) placed.set(id, n);
+    // New nodes need a full layout; otherwise settle the existing one
+    alphaRef.current = fresh ? 1 : Math.max(alphaRef.current, 0.3);
+    stop();
+    run();
+    return stop;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nodes, edges]);
+
+  // Start with the origin in the middle of the canvas
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    setView({ x: svg.clientWidth / 2, y: svg.clientHeight / 2, k: 1 });
+  }, []);
+
+  // Wheel zoom around the pointer (a native listener, so the page does not scroll)
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const px = e.clientX - rect.left;
+      const py = e.clientY - rect.top;
+      setView((v) => {
+        const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, v.k * Math.exp(-e.deltaY * 0.0015)));
+        return { k, x: px - ((px - v.x) / v.k) * k, y: py - ((py - v.y) / v.k) * k };
+      });
+    };
+    svg.addEventListener("wheel", onWheel, { passive: false });
+    return () => svg.removeEventListener("wheel", onWheel);
+  }, []);
+
+  // Centre on the focused node
+  useEffect(() => {
+    const svg = svgRef.current;
+    const node = focus ? layoutRef.current.get(focus.id) : undefined;
+    if (!svg || !node) return;
+    setView((v) => {
+      const k = Math.max(v.k, 1.2);
+      return { k, x: svg.clientWidth / 2 - node.x * k, y: svg.clientHeight / 2 - node.y * k };
+    });
+  }, [focus]);
+
+  function zoomBy(factor: number) {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const cx = svg.clientWidth / 2;
+    const cy = svg.clientHeight / 2;
+    setView((v) => {
+      const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, v.k * factor));
+      return { k, x: cx - ((cx - v.x) / v.k) * k, y: cy - ((cy - v.y) / v.k) * k };
+    });
+  }
+
+  function onPointerDown(e: React.PointerEvent<SVGSVGElement>) {
+    const target = (e.target as Element).closest("[data-node-id]");
+    const id = target?.getAttribute("data-node-id");
+    (e.currentTarget as SVGSVGElement).setPointerCapture(e.pointerId);
+    dragRef.current = id
+      ? { kind: "node", id, startX: e.clientX, startY: e.clientY, moved: false }
+      : { kind: "pan", startX: e.clientX, startY: e.clientY, view, moved: false };
+  }
+
+  function onPointerMove(e: React.PointerEvent<SVGSVGElement>) {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.startX;
+    const dy = e.clientY - drag.startY;
+    if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+    drag.moved = true;
+    if (drag.kind === "pan") {
+      setView({ ...drag.view, x: drag.view.x + dx, y: drag.view.y + dy });
+      return;
+    }
+    const node = layoutRef.current.get(drag.id);
+    const svg = svgRef.current;
+    if (!node || !svg) return;
+    const rect = svg.getBoundingClientRect();
+    node.x = (e.clientX - rect.left - view.x) / view.k;
+    node.y = (e.clientY - rect.top - view.y) / view.k;
+    node.pinned = true;
+    alphaRef.current = Math.max(alphaRef.current, 0.3);
+    run();
+  }
+
+  function onDoubleClick(e: React.MouseEvent<SVGSVGElement>) {
+    const id = (e.target as Element).closest("[data-node-id]")?.getAttribute("data-node-id");
+    if (id) onOpen(id);
+  }
+
+  function onPointerUp() {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag) return;
+    if (drag.kind === "node") {
+      const node = layoutRef.current.get(drag.id);
+      if (node) node.pinned = false;
+      if (!drag.moved) onSelect(drag.id);
+    } else if (!drag.moved) {
+      onSelect(null);
+    }
+  }
+
+  const positions = layoutRef.current;
+  const showAllLabels = view.k >= LABEL_ZOOM || nodes.length <= 30;
+
+  return (
+    <div className="relative w-full h-full">
+      <svg
+        ref={svgRef}
+        className="w-full h-full select-none touch-none cursor-grab active:cursor-grabbing"
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+        onDoubleClick={onDoubleClick}
+      >
+        <g transform={`translate(${view.x},${view.y}) scale(${view.k})`}>
+          {edges.map((e) => {
+            const a = positions.get(e.source);
+            const b = positions.get(e.target);
+            if (!a || !b) return null;
+            const active = selectedId !== null && (e.source === selectedId || e.target === selectedId);
+            return (
+              <line
+                key={`${e.source}|${e.target}`}
+                x1={a.x}
+                y1={a.y}
+                x2={b.x}
+                y2={b.y}
+                stroke="currentColor"
+                strokeOpacity={active ? 0.8 : selectedId ? 0.12 : 0.35}
+                strokeWidth={(0.5 + 3.5 * Math.min(1, Math.max(0, e.score))) / Math.sqrt(view.k)}
+                strokeDasharray={e.decision === "soft" ? "4 3" : undefined}
+              >
+                <title>{`${e.decision} link · ${e.score.toFixed(2)}`}</title>
+              </line>
+            );
+          })}
+          {nodes.map((n) => {
+            const p = positions.get(n.id);
+            if (!p) return null;
+            const selected = n.id === selectedId;
+            const near = selected || neighbours.has(n.id);
+            const r = 5 + Math.min(7, Math.sqrt(degree.get(n.id) ?? 0) * 2);
+            return (
+              <g
+                key={n.id}
+                data-node-id={n.id}
+                transform={`translate(${p.x},${p.y})`}
+                className="cursor-pointer"
+                opacity={selectedId && !near ? 0.35 : 1}
+              >
+                <circle r={r} fill={n.color} stroke={selected ? "currentColor" : "none"} strokeWidth={2 / view.k} />
+                {showAllLabels || near ? (
+                  <text x={r + 3} y={4} fontSize={11 / Math.sqrt(view.k)} fill="currentColor" className="pointer-events-none">
+                    {n.title || "Untitled"}
+                  </text>
+                ) : null}
+                <title>{n.title || "Untitled"}</title>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+      <div className="absolute top-2 right-2 flex flex-col gap-1">
+        <button className="w-7 h-7 text-sm rounded border border-white/15 bg-black/40 hover:bg-white/10" onClick={() => zoomBy(1.25)} aria-label="Zoom in">+</button>
+        <button className="w-7 h-7 text-sm rounded border border-white/15 bg-black/40 hover:bg-white/10" onClick={() => zoomBy(0.8)} aria-label="Zoom out">−</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type Backlink = { id: string; title: string; direction: "outgoing" | "incoming"; score: number };
+
+type Suggestion = {
+  id: string;
+  title: string;
+  score: number;
+  decision: "hard" | "soft" | "none";
+};
+
+export default function LinksPanel({ noteId, onOpen }: { noteId: string | null; onOpen: (id: string) => void }) {
+  const [backlinks, setBacklinks] = useState<Backlink[]>([]);
+  const [suggestions, setSuggestions] = useState<Suggestion[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Accepted links come with the note itself
+  async function loadBacklinks(id: string) {
+    try {
+      const res = await fetch(`/api/notes/${id}`, { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to load links");
+      const data = await res.json();
+      setBacklinks(Array.isArray(data?.backlinks) ? data.backlinks : []);
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  useEffect(() => {
+    setSuggestions(null);
+    setError(null);
+    setBacklinks([]);
+    if (noteId) void loadBacklinks(noteId);
+  }, [noteId]);
+
+  async function findSuggestions() {
+    if (!noteId) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await fetch(`/api/notes/${noteId}/links`, { cache: "no-store" });
+      if (!res.ok) throw new Error("Failed to compute suggestions");
+      const data = await res.json();
+      const list = Array.isArray(data?.suggestions) ? (data.suggestions as Suggestion[]) : [];
+      setSuggestions(list.filter((s) => s.decision !== "none"));
+      setBacklinks(Array.isArray(data?.backlinks) ? data.backlinks : []);
+    } catch (e) {
+      setError((e as Error).message || "Failed to compute suggestions");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function decide(targetId: string, action: "accept" | "reject") {
+    if (!noteId) return;
+    try {
+      setBusyId(targetId);
+      const res = await fetch(`/api/notes/${noteId}/links/${targetId}/${action}`, { method: "POST" });
+      if (!res.ok) throw new Error(`Failed to ${action} link`);
+      setSuggestions((prev) => (prev ? prev.filter((s) => s.id !== targetId) : prev));
+      if (action === "accept") await loadBacklinks(noteId);
+    } catch (e) {
+      setError((e as Error).message || `Failed to ${action} link`);
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  if (!noteId) return null;
+
+  return (
+    <section className="mt-4 text-sm">
+      <div className="mb-2 flex items-center justify-between">
+        <h2 className="text-xs uppercase tracking-wider text-gray-500">Linked notes</h2>
+        <button
+          onClick={findSuggestions}
+          disabled={loading}
+          className="text-[10px] px-2 py-0.5 rounded-full bg-black/5 dark:bg-white/10 border border-black/10 dark:border-white/10 hover:bg-black/10 dark:hover:bg-white/15 disabled:opacity-50"
+        >
+          {loading ? "Finding…" : "Suggest links"}
+        </button>
+      </div>
+      {error ? <p className="mb-2 text-xs text-rose-400">{error}</p> : null}
+      {backlinks.length === 0 ? (
+        <p className="text-xs text-gray-500">No linked notes yet</p>
+      ) : (
+        <ul className="flex flex-wrap gap-1">
+          {backlinks.map((b) => (
+            <li key={b.id}>
+              <button
+                onClick={() => onOpen(b.id)}
+                title={`${b.direction === "incoming" ? "Links here" : "Linked from this note"} · score ${b.score.toFixed(2)}`}
+                className="text-xs px-2 py-0.5 rounded-full border border-blue-500/30 bg-blue-500/10 text-blue-600 dark:text-blue-300 hover:bg-blue-500/20"
+              >
+                {b.direction === "incoming" ? "← " : "→ "}{b.title || "Untitled"}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {suggestions ? (
+        suggestions.length === 0 ? (
+          <p className="mt-2 text-xs text-gray-500">No suggestions</p>
+        ) : (
+          <ul className="mt-2 space-y-1">
+            {suggestions.map((s) => (
+              <li key={s.id} className="flex items-center justify-between gap-2 px-2 py-1 rounded border border-black/10 dark:border-white/10">
+                <button onClick={() => onOpen(s.id)} className="truncate text-left text-xs hover:underline">
+                  {s.title || "Untitled"}
+                </button>
+                <div className="flex items-center gap-1 shrink-0 text-[10px]">
+                  <span className="text-gray-500">{s.decision} · {s.score.toFixed(2)}</span>
+                  <button
+                    disabled={busyId === s.id}
+                    onClick={() => decide(s.id, "accept")}
+                    className="px-1.5 py-0.5 rounded border border-emerald-500/40 text-emerald-600 dark:text-emerald-300 hover:bg-emerald-500/10 disabled:opacity-50"
+                  >
+                    Accept
+                  </button>
+                  <button
+                    disabled={busyId === s.id}
+                    onClick={() => decide(s.id, "reject")}
+                    className="px-1.5 py-0.5 rounded border border-rose-500/40 text-rose-600 dark:text-rose-300 hover:bg-rose-500/10 disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )
+      ) : null}
+    </section>
+  );
+}
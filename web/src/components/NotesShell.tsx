@@ -2,6 +2,9 @@
 
 import { useEffect, useState } from "react";
 import dynamic from "next/dynamic";
+import LinksPanel from "@/components/LinksPanel";
+import ProcessingIndicator, { ACTIVE_STAGES, type ProcessingStage } from "@/components/ProcessingIndicator";
+import { touchEditingSession } from "@/components/editingSession";
 const BlockNoteEditor = dynamic(() => import("@/components/BlockNoteEditor"), { ssr: false });
 
 type NoteListItem = {
@@ -11,6 +14,8 @@ type NoteListItem = {
   updatedAt?: string | null;
   tags?: string[];
   spaceId?: string | null;
+  processingStatus?: ProcessingStage | null;
+  processingError?: string | null;
 };
 
 type SearchResult = {
@@ -19,14 +24,40 @@ type SearchResult = {
   createdAt?: string | null;
   updatedAt?: string | null;
   score: number;
+  // Best-matching chunk of the note body
+  chunk?: { ord: number; text: string; start: number | null; end: number | null } | null;
+  // Keyword hits only: excerpt/title with matches wrapped in <mark>…</mark>
+  snippet?: string | null;
+  titleHighlight?: string | null;
 };
 
-export default function NotesShell({ spaceId }: { spaceId?: string }) {
+type SearchMode = "hybrid" | "semantic" | "keyword";
+const SEARCH_MODES: SearchMode[] = ["hybrid", "keyword", "semantic"];
+
+// Render FTS highlight markers as <mark> elements without interpreting any other markup
+function Highlighted({ text }: { text: string }) {
+  const parts = text.split(/(<mark>[\s\S]*?<\/mark>)/g);
+  return (
+    <>
+      {parts.map((p, i) =>
+        p.startsWith("<mark>") && p.endsWith("</mark>") ? (
+          <mark key={i} className="bg-yellow-300/40 text-inherit rounded-sm">{p.slice(6, -7)}</mark>
+        ) : (
+          <span key={i}>{p}</span>
+        )
+      )}
+    </>
+  );
+}
+
+// `initialNoteId` opens that note first (e.g. /?note=<id> from the graph page)
+export default function NotesShell({ spaceId, initialNoteId }: { spaceId?: string; initialNoteId?: string }) {
   const [notes, setNotes] = useState<NoteListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const [query, setQuery] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
+  const [searchMode, setSearchMode] = useState<SearchMode>("hybrid");
   const [isClient, setIsClient] = useState(false);
   // Entities state
   const [entities, setEntities] = useState<Array<{ entity: string; weight?: number }> | null>(null);
@@ -34,6 +65,8 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
   const [entitiesError, setEntitiesError] = useState<string | null>(null);
   // Spaces map (id -> { name }) for displaying space pill
   const [spacesMap, setSpacesMap] = useState<Record<string, { name: string }>>({});
+  // Last trashed note, offered for undo for a few seconds
+  const [trashed, setTrashed] = useState<{ id: string; title: string | null } | null>(null);
 
   // Fetch entities for a note
   async function fetchEntities(noteId: string | null) {
@@ -96,22 +129,40 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
     };
   }, [selectedId, spaceId]);
 
-  // Subscribe to SSE events for the selected note and refresh list on 'processed'
+  // Subscribe to SSE events for the selected note: track its processing stage and
+  // refresh list on 'processed'
   useEffect(() => {
     if (!selectedId) return;
     const es = new EventSource(`/api/notes/${selectedId}/events`);
+    const onStatus = (ev: MessageEvent) => {
+      try {
+        const data = JSON.parse(ev.data) as { id: string; status: ProcessingStage | null; error: string | null };
+        setNotes((prev) => prev.map((n) => (n.id === data.id ? { ...n, processingStatus: data.status, processingError: data.error } : n)));
+      } catch {}
+    };
     const onProcessed = () => {
       void refreshList();
       void fetchEntities(selectedId);
     };
+    es.addEventListener('status', onStatus as EventListener);
     es.addEventListener('processed', onProcessed as EventListener);
     return () => {
+      try { es.removeEventListener('status', onStatus as EventListener); } catch {}
       try { es.removeEventListener('processed', onProcessed as EventListener); } catch {}
       try { es.close(); } catch {}
     };
   }, [selectedId]);
 
-  // Debounced semantic search
+  // Other notes still being processed have no event stream open; poll the list until they settle
+  const hasActiveProcessing = notes.some((n) => n.id !== selectedId && !!n.processingStatus && ACTIVE_STAGES.includes(n.processingStatus));
+  useEffect(() => {
+    if (!hasActiveProcessing) return;
+    const t = setInterval(() => { void refreshList(); }, 3000);
+    return () => clearInterval(t);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasActiveProcessing, spaceId]);
+
+  // Debounced search (hybrid, keyword or semantic)
   useEffect(() => {
     const q = query.trim();
     if (!q) {
@@ -124,7 +175,7 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
         const res = await fetch("/api/notes/search", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ query: q, limit: 20 }),
+          body: JSON.stringify({ query: q, limit: 20, mode: searchMode, filters: spaceId ? { spaceId } : {} }),
           signal: controller.signal,
         });
         if (!res.ok) throw new Error("Search failed");
@@ -138,7 +189,7 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
       clearTimeout(t);
       controller.abort("cancel");
     };
-  }, [query]);
+  }, [query, searchMode, spaceId]);
 
   async function refreshList() {
     try {
@@ -146,11 +197,12 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
       const res = await fetch(url, { cache: "no-store" });
       if (!res.ok) throw new Error("Failed to fetch notes");
       const data: NoteListItem[] = await res.json();
-      // Prefer last used note if none selected
+      // Prefer the requested note, then the last used one, if none selected
+      const requested = initialNoteId && data.some((n) => n.id === initialNoteId) ? initialNoteId : null;
       const last = spaceId ? null : localStorage.getItem("lastNoteId");
       setNotes(data);
       if (!selectedId) {
-        setSelectedId(last || data[0]?.id || null);
+        setSelectedId(requested || last || data[0]?.id || null);
       }
     } catch (e) {
       console.error(e);
@@ -164,11 +216,19 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
 
   // no-op
 
+  // Hide the undo prompt after a while
+  useEffect(() => {
+    if (!trashed) return;
+    const t = setTimeout(() => setTrashed(null), 8000);
+    return () => clearTimeout(t);
+  }, [trashed]);
+
   async function deleteSelectedNote() {
     if (!selectedId) return;
     try {
       const res = await fetch(`/api/notes/${selectedId}`, { method: "DELETE" });
       if (!res.ok) throw new Error("Failed to delete note");
+      setTrashed({ id: selectedId, title: notes.find((n) => n.id === selectedId)?.title ?? null });
       setNotes((prev) => {
         const updated = prev.filter((n) => n.id !== selectedId);
         const next = updated[0]?.id ?? null;
@@ -182,9 +242,24 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
     }
   }
 
+  async function undoDelete() {
+    if (!trashed) return;
+    try {
+      const res = await fetch(`/api/notes/${trashed.id}/restore`, { method: "POST" });
+      if (!res.ok) throw new Error("Failed to restore note");
+      setSelectedId(trashed.id);
+      if (!spaceId) localStorage.setItem("lastNoteId", trashed.id);
+      setTrashed(null);
+      await refreshList();
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
   async function createNewNote() {
     try {
-      const res = await fetch("/api/notes", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(spaceId ? { spaceId } : {}) });
+      const sessionId = touchEditingSession();
+      const res = await fetch("/api/notes", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(spaceId ? { spaceId, sessionId } : { sessionId }) });
       if (!res.ok) throw new Error("Failed to create note");
       const { id } = await res.json();
       if (!spaceId) localStorage.setItem("lastNoteId", id);
@@ -203,10 +278,21 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
           <input
             type="text"
             placeholder="Search notes..."
+            title='Filters: tag: entity: space: folder: after: before: updated-after: updated-before: status:processed|pending|failed, "exact phrase"'
             value={query}
             onChange={(e) => setQuery(e.target.value)}
-            className="flex-1 px-2 py-1 text-sm border border-black/10 dark:border-white/10 rounded bg-white dark:bg-black focus:outline-none focus:ring-1 focus:ring-blue-500"
+            className="flex-1 min-w-0 px-2 py-1 text-sm border border-black/10 dark:border-white/10 rounded bg-white dark:bg-black focus:outline-none focus:ring-1 focus:ring-blue-500"
           />
+          <select
+            value={searchMode}
+            onChange={(e) => setSearchMode(e.target.value as SearchMode)}
+            className="px-1 py-1 text-xs rounded border border-black/10 dark:border-white/10 bg-white dark:bg-black"
+            title="Keyword syntax: prefix*, &quot;phrases&quot;, AND/OR/NOT"
+          >
+            {SEARCH_MODES.map((m) => (
+              <option key={m} value={m}>{m}</option>
+            ))}
+          </select>
           <button
             onClick={createNewNote}
             className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
@@ -225,6 +311,12 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
         <div className="text-xs text-gray-500 mb-2">
           {loading ? "Loading..." : `${notes.length} notes`}
         </div>
+        {trashed ? (
+          <div className="mb-2 flex items-center justify-between gap-2 text-xs px-2 py-1 rounded border border-black/10 dark:border-white/10 bg-black/5 dark:bg-white/5">
+            <span className="truncate">Moved “{trashed.title || "Untitled"}” to trash</span>
+            <button onClick={undoDelete} className="underline shrink-0">Undo</button>
+          </div>
+        ) : null}
         <div>
           {(() => {
             // search results
@@ -243,7 +335,16 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
                           selectedId === r.id ? "bg-black/5 dark:bg-white/10" : ""
                         }`}
                       >
-                        <div className="truncate text-sm">{r.title || "Untitled"}</div>
+                        <div className="truncate text-sm">
+                          {r.titleHighlight ? <Highlighted text={r.titleHighlight} /> : r.title || "Untitled"}
+                        </div>
+                        {r.chunk ? (
+                          <div className="text-xs text-gray-600 dark:text-gray-400 line-clamp-3">{r.chunk.text}</div>
+                        ) : r.snippet ? (
+                          <div className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2">
+                            <Highlighted text={r.snippet} />
+                          </div>
+                        ) : null}
                         <div className="text-[10px] text-gray-500">
                           Score: {r.score.toFixed(3)} • {r.updatedAt ? new Date(r.updatedAt).toLocaleString() : ""}
                         </div>
@@ -268,7 +369,10 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
                         selectedId === n.id ? "bg-black/5 dark:bg-white/10" : ""
                       }`}
                     >
-                      <div className="truncate text-sm">{n.title || "Untitled"}</div>
+                      <div className="flex items-center gap-2">
+                        <div className="truncate text-sm flex-1 min-w-0">{n.title || "Untitled"}</div>
+                        <ProcessingIndicator status={n.processingStatus} error={n.processingError} compact />
+                      </div>
                       <div className="flex items-center gap-2 text-[10px] text-gray-500 mt-0.5">
                         <span>{n.updatedAt ? new Date(n.updatedAt).toLocaleString() : ""}</span>
                         {n.spaceId ? (
@@ -290,7 +394,20 @@ export default function NotesShell({ spaceId }: { spaceId?: string }) {
       </aside>
       <main className="relative flex-1 p-6 flex">
         <div className="max-w-3xl w-full">
-          <BlockNoteEditor noteId={selectedId} />
+          <BlockNoteEditor
+            noteId={selectedId}
+            processing={(() => {
+              const sel = notes.find((n) => n.id === selectedId);
+              return sel ? { status: sel.processingStatus ?? null, error: sel.processingError ?? null } : null;
+            })()}
+          />
+          <LinksPanel
+            noteId={selectedId}
+            onOpen={(id) => {
+              setSelectedId(id);
+              localStorage.setItem("lastNoteId", id);
+            }}
+          />
         </div>
         {/* Entities bubbles overlay (top-right) */}
         <div className="pointer-events-none absolute top-4 right-4 max-w-sm">
@@ -0,0 +1,41 @@
+"use client";
+
+// Mirrors ProcessingStage in lib/processingStatus.ts (server-only module)
+export type ProcessingStage = "queued" | "enriching" | "embedding" | "chunking" | "entities" | "done" | "failed";
+
+export const ACTIVE_STAGES: ProcessingStage[] = ["queued", "enriching", "embedding", "chunking", "entities"];
+
+const STAGES: Record<ProcessingStage, { label: string; color: string }> = {
+  queued: { label: "Queued", color: "bg-gray-400" },
+  enriching: { label: "Titling and tagging…", color: "bg-sky-500" },
+  embedding: { label: "Embedding…", color: "bg-sky-500" },
+  chunking: { label: "Chunking…", color: "bg-sky-500" },
+  entities: { label: "Extracting entities…", color: "bg-sky-500" },
+  done: { label: "Processed", color: "bg-emerald-500" },
+  failed: { label: "Processing failed", color: "bg-rose-500" },
+};
+
+// Background processing state of a note; renders nothing for notes never processed.
+// `compact` shows only the dot (list rows); the label and error are in the tooltip.
+export default function ProcessingIndicator({
+  status,
+  error,
+  compact = false,
+}: {
+  status?: ProcessingStage | null;
+  error?: string | null;
+  compact?: boolean;
+}) {
+  if (!status || !STAGES[status]) return null;
+  const { label, color } = STAGES[status];
+  // A queued note with an error is waiting for a retry
+  const text = status === "queued" && error ? "Retrying…" : label;
+  const title = error ? `${text} — ${error}` : text;
+  const active = ACTIVE_STAGES.includes(status) && status !== "queued";
+  return (
+    <span className="inline-flex items-center gap-2 text-xs" title={title}>
+      <span className={`inline-block w-2 h-2 rounded-full ${color} ${active ? "animate-pulse" : ""}`} />
+      {compact ? null : text}
+    </span>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type RevisionSummary = {
+  id: string;
+  title: string;
+  source: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type BlockDiff = {
+  status: "added" | "removed" | "modified" | "unchanged";
+  blockId: string | null;
+  type: string | null;
+  before: string | null;
+  after: string | null;
+};
+
+type DiffResponse = {
+  title: { before: string; after: string; changed: boolean };
+  blocks: BlockDiff[];
+};
+
+const STATUS_STYLES: Record<BlockDiff["status"], string> = {
+  added: "border-emerald-500/40 bg-emerald-500/10",
+  removed: "border-rose-500/40 bg-rose-500/10",
+  modified: "border-amber-500/40 bg-amber-500/10",
+  unchanged: "border-white/10 opacity-60",
+};
+
+export default function RevisionHistoryDrawer({
+  noteId,
+  open,
+  onClose,
+  onRestored,
+}: {
+  noteId: string | null | undefined;
+  open: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+}) {
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<DiffResponse | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  // Load revision list when opened
+  useEffect(() => {
+    if (!open || !noteId) return;
+    let stop = false;
+    setLoading(true);
+    setError(null);
+    setSelectedId(null);
+    setDiff(null);
+    (async () => {
+      try {
+        const res = await fetch(`/api/notes/${noteId}/revisions`, { cache: "no-store" });
+        if (!res.ok) throw new Error("Failed to load history");
+        const data = await res.json();
+        if (!stop) setRevisions(Array.isArray(data?.revisions) ? data.revisions : []);
+      } catch (e) {
+        if (!stop) setError((e as Error).message || "Failed to load history");
+      } finally {
+        if (!stop) setLoading(false);
+      }
+    })();
+    return () => { stop = true; };
+  }, [open, noteId]);
+
+  // Diff the selected revision against the current note
+  useEffect(() => {
+    if (!noteId || !selectedId) return;
+    let stop = false;
+    setDiffLoading(true);
+    (async () => {
+      try {
+        const res = await fetch(`/api/notes/${noteId}/revisions/diff?from=${encodeURIComponent(selectedId)}&to=current`, { cache: "no-store" });
+        if (!res.ok) throw new Error("Failed to load diff");
+        const data = (await res.json()) as DiffResponse;
+        if (!stop) setDiff(data);
+      } catch (e) {
+        if (!stop) setError((e as Error).message || "Failed to load diff");
+      } finally {
+        if (!stop) setDiffLoading(false);
+      }
+    })();
+    return () => { stop = true; };
+  }, [noteId, selectedId]);
+
+  async function restore() {
+    if (!noteId || !selectedId) return;
+    if (!confirm("Restore this revision? The current version stays in history.")) return;
+    try {
+      setRestoring(true);
+      const res = await fetch(`/api/notes/${noteId}/revisions/${selectedId}/restore`, { method: "POST" });
+      if (!res.ok) throw new Error("Failed to restore revision");
+      onRestored();
+      onClose();
+    } catch (e) {
+      setError((e as Error).message || "Failed to restore revision");
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  if (!open) return null;
+
+  const changed = diff ? diff.blocks.filter((b) => b.status !== "unchanged").length : 0;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <aside className="relative w-[28rem] max-w-full h-full overflow-y-auto bg-white dark:bg-black border-l border-black/10 dark:border-white/10 p-4 text-sm">
+        <div className="mb-3 flex items-center justify-between">
+          <h2 className="font-medium">History</h2>
+          <button className="text-xs px-2 py-1 rounded border border-black/10 dark:border-white/15 hover:bg-black/5 dark:hover:bg-white/10" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        {error ? <p className="mb-2 text-xs text-rose-400">{error}</p> : null}
+        {loading ? (
+          <p className="text-xs text-gray-500">Loading…</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-xs text-gray-500">No revisions yet</p>
+        ) : (
+          <ul className="space-y-1 mb-4">
+            {revisions.map((r) => (
+              <li key={r.id}>
+                <button
+                  onClick={() => setSelectedId(r.id)}
+                  className={`w-full text-left px-2 py-1 rounded hover:bg-black/5 dark:hover:bg-white/10 ${selectedId === r.id ? "bg-black/5 dark:bg-white/10" : ""}`}
+                >
+                  <div className="truncate">{r.title || "Untitled"}</div>
+                  <div className="text-[10px] text-gray-500">
+                    {new Date(r.updatedAt).toLocaleString()}
+                    {r.source !== "autosave" ? ` • ${r.source}` : ""}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selectedId ? (
+          <section>
+            <div className="mb-2 flex items-center justify-between gap-2">
+              <div className="text-xs text-gray-500">
+                {diffLoading ? "Comparing…" : diff ? `${changed} block${changed === 1 ? "" : "s"} differ from current` : null}
+              </div>
+              <button
+                className="px-2 py-1 text-xs rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+                disabled={restoring}
+                onClick={restore}
+              >
+                {restoring ? "Restoring…" : "Restore"}
+              </button>
+            </div>
+            {diff?.title.changed ? (
+              <div className="mb-2 text-xs">
+                <span className="line-through opacity-70">{diff.title.before || "Untitled"}</span>
+                {" → "}
+                <span>{diff.title.after || "Untitled"}</span>
+              </div>
+            ) : null}
+            {diff ? (
+              <ul className="space-y-1">
+                {diff.blocks.map((b, i) => (
+                  <li key={`${b.blockId ?? "b"}-${i}`} className={`px-2 py-1 rounded border text-xs ${STATUS_STYLES[b.status]}`}>
+                    <div className="text-[10px] uppercase tracking-wider opacity-60">{b.status}{b.type ? ` · ${b.type}` : ""}</div>
+                    {b.status === "modified" ? (
+                      <>
+                        <div className="line-through opacity-70 whitespace-pre-wrap">{b.before || "(empty)"}</div>
+                        <div className="whitespace-pre-wrap">{b.after || "(empty)"}</div>
+                      </>
+                    ) : (
+                      <div className="whitespace-pre-wrap">{(b.after ?? b.before) || "(empty)"}</div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </section>
+        ) : null}
+      </aside>
+    </div>
+  );
+}
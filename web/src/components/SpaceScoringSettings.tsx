@@ -0,0 +1,255 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+type FeatureKey = "semantic" | "entity_score" | "tag_score" | "reference_score" | "temporal_score" | "session_score";
+
+type Profile = {
+  model: "linear" | "logistic";
+  weights: Record<FeatureKey, number>;
+  bias: number;
+  guardrail: boolean;
+  hardThreshold: number;
+  softThreshold: number;
+  aggregate: "mean" | "max";
+};
+
+type Source = "space" | "global" | "default";
+
+type Scored = { score: number; decision: "hard" | "soft" | "none" };
+
+type PreviewItem = { id: string; title: string; current: Scored; preview: Scored };
+
+type NoteOption = { id: string; title: string };
+
+const FEATURES: Array<{ key: FeatureKey; label: string }> = [
+  { key: "semantic", label: "Semantic" },
+  { key: "entity_score", label: "Entities" },
+  { key: "tag_score", label: "Tags" },
+  { key: "reference_score", label: "Reference" },
+  { key: "temporal_score", label: "Temporal" },
+  { key: "session_score", label: "Session" },
+];
+
+const SOURCE_LABEL: Record<Source, string> = {
+  space: "This space's profile",
+  global: "Global profile",
+  default: "Built-in defaults",
+};
+
+function toProfile(p: Profile & { version?: number }): Profile {
+  const { model, weights, bias, guardrail, hardThreshold, softThreshold, aggregate } = p;
+  return { model, weights: { ...weights }, bias, guardrail, hardThreshold, softThreshold, aggregate };
+}
+
+function NumberField({ label, value, step, onChange }: { label: string; value: number; step: number; onChange: (v: number) => void }) {
+  return (
+    <label className="flex flex-col gap-0.5">
+      <span className="text-[10px] opacity-70">{label}</span>
+      <input
+        type="number"
+        step={step}
+        value={Number.isFinite(value) ? value : 0}
+        onChange={(e) => onChange(Number(e.target.value))}
+        className="w-full px-2 py-1 text-sm rounded border border-white/15 bg-transparent"
+      />
+    </label>
+  );
+}
+
+// Link-scoring settings for one space, with a preview of a sample note's suggestions
+export default function SpaceScoringSettings({ spaceId }: { spaceId: string }) {
+  const [source, setSource] = useState<Source | null>(null);
+  const [draft, setDraft] = useState<Profile | null>(null);
+  const [notes, setNotes] = useState<NoteOption[]>([]);
+  const [sampleId, setSampleId] = useState<string>("");
+  const [preview, setPreview] = useState<PreviewItem[] | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [scoringRes, notesRes] = await Promise.all([
+          fetch(`/api/spaces/${spaceId}/scoring`, { cache: "no-store" }),
+          fetch(`/api/notes?spaceId=${encodeURIComponent(spaceId)}`, { cache: "no-store" }),
+        ]);
+        if (!scoringRes.ok) throw new Error("Failed to load scoring profile");
+        const scoring = await scoringRes.json();
+        const list = notesRes.ok ? await notesRes.json() : [];
+        if (cancelled) return;
+        setSource(scoring.source);
+        setDraft(toProfile(scoring.profile));
+        const options = Array.isArray(list) ? list.map((n: NoteOption) => ({ id: n.id, title: n.title })) : [];
+        setNotes(options);
+        setSampleId(options[0]?.id ?? "");
+      } catch (e) {
+        if (!cancelled) setError((e as Error).message || "Failed to load scoring profile");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [spaceId]);
+
+  const invalid = draft ? draft.softThreshold > draft.hardThreshold : false;
+
+  // Live preview, debounced while the settings are being edited
+  useEffect(() => {
+    if (!draft || !sampleId || invalid) return;
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        setPreviewing(true);
+        const res = await fetch(`/api/spaces/${spaceId}/scoring/preview`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ noteId: sampleId, profile: draft }),
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error("Failed to preview suggestions");
+        const data = await res.json();
+        setPreview(Array.isArray(data?.suggestions) ? data.suggestions : []);
+      } catch (e) {
+        if ((e as Error).name !== "AbortError") setError((e as Error).message || "Failed to preview suggestions");
+      } finally {
+        if (!controller.signal.aborted) setPreviewing(false);
+      }
+    }, 400);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [spaceId, sampleId, draft, invalid]);
+
+  async function save(method: "PUT" | "DELETE") {
+    if (!draft) return;
+    try {
+      setSaving(true);
+      setError(null);
+      const res = await fetch(`/api/spaces/${spaceId}/scoring`, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: method === "PUT" ? JSON.stringify(draft) : undefined,
+      });
+      if (!res.ok) throw new Error(method === "PUT" ? "Failed to save scoring profile" : "Failed to reset scoring profile");
+      const data = await res.json();
+      setSource(data.source);
+      setDraft(toProfile(data.profile));
+    } catch (e) {
+      setError((e as Error).message || "Failed to save scoring profile");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (!draft) {
+    return error ? <p className="text-sm text-rose-400">{error}</p> : <p className="text-sm opacity-70">Loading…</p>;
+  }
+
+  const update = (patch: Partial<Profile>) => setDraft((d) => (d ? { ...d, ...patch } : d));
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="text-xs opacity-70">
+        Link scoring: {source ? SOURCE_LABEL[source] : ""}
+        {draft.model === "logistic" ? " (learned weights)" : ""}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {FEATURES.map((f) => (
+          <NumberField
+            key={f.key}
+            label={`${f.label} weight`}
+            value={draft.weights[f.key]}
+            step={0.05}
+            onChange={(v) => update({ weights: { ...draft.weights, [f.key]: v } })}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 items-end">
+        <NumberField label="Hard threshold" value={draft.hardThreshold} step={0.01} onChange={(v) => update({ hardThreshold: v })} />
+        <NumberField label="Soft threshold" value={draft.softThreshold} step={0.01} onChange={(v) => update({ softThreshold: v })} />
+        {draft.model === "logistic" ? (
+          <NumberField label="Bias" value={draft.bias} step={0.1} onChange={(v) => update({ bias: v })} />
+        ) : (
+          <label className="flex items-center gap-2 text-xs py-1" title="Halve scores with low semantic and entity overlap">
+            <input type="checkbox" checked={draft.guardrail} onChange={(e) => update({ guardrail: e.target.checked })} />
+            Guardrail
+          </label>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-xs">
+        <span className="opacity-70">Semantic similarity from chunk matches:</span>
+        <select
+          value={draft.aggregate}
+          onChange={(e) => update({ aggregate: e.target.value as Profile["aggregate"] })}
+          className="px-2 py-1 rounded border border-white/15 bg-transparent"
+        >
+          <option value="max">best match</option>
+          <option value="mean">mean of top 5</option>
+        </select>
+      </label>
+
+      {invalid ? <p className="text-xs text-rose-400">The soft threshold must not exceed the hard threshold.</p> : null}
+
+      <div className="flex gap-2">
+        <button
+          className="px-3 py-1.5 text-sm rounded border border-white/15 bg-white/5 hover:bg-white/10 disabled:opacity-50"
+          disabled={saving || invalid}
+          onClick={() => save("PUT")}
+        >
+          {saving ? "Saving…" : "Save for this space"}
+        </button>
+        {source === "space" ? (
+          <button
+            className="px-3 py-1.5 text-sm rounded border border-white/15 hover:bg-white/5 disabled:opacity-50"
+            disabled={saving}
+            onClick={() => save("DELETE")}
+          >
+            Use global profile
+          </button>
+        ) : null}
+      </div>
+
+      <div className="pt-2 border-t border-white/10">
+        <div className="flex items-center gap-2 mb-2">
+          <span className="text-xs opacity-70">Preview suggestions for</span>
+          {notes.length === 0 ? (
+            <span className="text-xs opacity-70">— no notes in this space yet</span>
+          ) : (
+            <select
+              value={sampleId}
+              onChange={(e) => setSampleId(e.target.value)}
+              className="flex-1 min-w-0 px-2 py-1 text-xs rounded border border-white/15 bg-transparent"
+            >
+              {notes.map((n) => (
+                <option key={n.id} value={n.id}>{n.title || "Untitled"}</option>
+              ))}
+            </select>
+          )}
+          {previewing ? <span className="text-xs opacity-70">Updating…</span> : null}
+        </div>
+        {preview && preview.length === 0 ? (
+          <p className="text-xs opacity-70">No suggestions with either setting.</p>
+        ) : (
+          <ul className="space-y-1">
+            {(preview ?? []).map((s) => (
+              <li key={s.id} className="flex items-center justify-between gap-3 text-xs">
+                <span className="truncate">{s.title || "Untitled"}</span>
+                <span className={`shrink-0 tabular-nums ${s.current.decision !== s.preview.decision ? "text-amber-300" : "opacity-70"}`}>
+                  {s.current.decision} {s.current.score.toFixed(2)} → {s.preview.decision} {s.preview.score.toFixed(2)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {error ? <p className="text-xs text-rose-400">{error}</p> : null}
+    </div>
+  );
+}
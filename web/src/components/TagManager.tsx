@@ -0,0 +1,206 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+type TagRow = { tag: string; count: number; idf: number };
+
+type Rule = { tag: string; kind: string; target: string | null };
+
+type Op = "rename" | "merge" | "alias" | "block";
+
+const OPS: Array<{ op: Op; label: string; targetLabel: string | null }> = [
+  { op: "rename", label: "Rename", targetLabel: "New name" },
+  { op: "merge", label: "Merge into", targetLabel: "Existing tag" },
+  { op: "alias", label: "Alias of", targetLabel: "Canonical tag" },
+  { op: "block", label: "Block", targetLabel: null },
+];
+
+function payload(op: Op, tag: string, target: string) {
+  switch (op) {
+    case "rename":
+      return { op, tag, to: target };
+    case "merge":
+      return { op, tag, into: target };
+    case "alias":
+      return { op, tag, canonical: target };
+    default:
+      return { op, tag };
+  }
+}
+
+// Tags tab of /topics: tag list with rename/merge/alias/block, and the alias and block rules.
+// Changes rewrite the tags on existing notes; the page is refreshed afterwards.
+export default function TagManager({ tags, rules }: { tags: TagRow[]; rules: Rule[] }) {
+  const router = useRouter();
+  const [op, setOp] = useState<Op>("rename");
+  const [tag, setTag] = useState("");
+  const [target, setTarget] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = OPS.find((o) => o.op === op) ?? OPS[0];
+  const aliases = rules.filter((r) => r.kind === "alias");
+  const blocked = rules.filter((r) => r.kind === "block");
+
+  function start(nextOp: Op, nextTag: string) {
+    setOp(nextOp);
+    setTag(nextTag);
+    setTarget("");
+    setMessage(null);
+    setError(null);
+  }
+
+  async function apply() {
+    const t = tag.trim();
+    const to = target.trim();
+    if (!t || (current.targetLabel && !to)) return;
+    if (op === "block" && !confirm(`Remove "${t}" from every note and stop generating it?`)) return;
+    try {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      const res = await fetch("/api/tags/taxonomy", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload(op, t, to)),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data?.error || "Failed to update tags");
+      setMessage(`${data.affected} note${data.affected === 1 ? "" : "s"} updated`);
+      setTag("");
+      setTarget("");
+      router.refresh();
+    } catch (e) {
+      setError((e as Error).message || "Failed to update tags");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function removeRule(name: string) {
+    try {
+      setBusy(true);
+      setError(null);
+      const res = await fetch(`/api/tags/taxonomy?tag=${encodeURIComponent(name)}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Failed to remove tag rule");
+      router.refresh();
+    } catch (e) {
+      setError((e as Error).message || "Failed to remove tag rule");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      <section className="flex flex-col gap-2">
+        <div className="flex flex-wrap items-end gap-2 text-sm">
+          <label className="flex flex-col gap-0.5">
+            <span className="text-[10px] text-gray-500">Tag</span>
+            <input
+              list="tag-names"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              className="w-40 px-2 py-1 rounded border border-black/10 dark:border-white/15 bg-transparent"
+            />
+          </label>
+          <select
+            value={op}
+            onChange={(e) => setOp(e.target.value as Op)}
+            className="px-2 py-1 rounded border border-black/10 dark:border-white/15 bg-transparent"
+          >
+            {OPS.map((o) => (
+              <option key={o.op} value={o.op}>{o.label}</option>
+            ))}
+          </select>
+          {current.targetLabel ? (
+            <label className="flex flex-col gap-0.5">
+              <span className="text-[10px] text-gray-500">{current.targetLabel}</span>
+              <input
+                list="tag-names"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") void apply();
+                }}
+                className="w-40 px-2 py-1 rounded border border-black/10 dark:border-white/15 bg-transparent"
+              />
+            </label>
+          ) : null}
+          <button
+            className="px-3 py-1 rounded border border-black/10 dark:border-white/15 bg-black/5 dark:bg-white/5 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-50"
+            disabled={busy || !tag.trim() || (!!current.targetLabel && !target.trim())}
+            onClick={() => void apply()}
+          >
+            {busy ? "Applying…" : "Apply"}
+          </button>
+          <datalist id="tag-names">
+            {tags.map((t) => (
+              <option key={t.tag} value={t.tag} />
+            ))}
+          </datalist>
+        </div>
+        <p className="text-xs text-gray-500">Changes apply to the tags on existing notes and to tags generated from now on.</p>
+        {message ? <p className="text-xs text-emerald-600 dark:text-emerald-400">{message}</p> : null}
+        {error ? <p className="text-xs text-rose-500">{error}</p> : null}
+      </section>
+
+      {tags.length === 0 ? (
+        <div className="text-sm text-gray-500">No tags yet.</div>
+      ) : (
+        <ul className="divide-y divide-black/5 dark:divide-white/10">
+          {tags.map((t) => (
+            <li key={t.tag} className="group py-2 flex items-center justify-between gap-4">
+              <div className="truncate">
+                <span className="text-sm font-medium">{t.tag}</span>
+                <span className="ml-2 text-xs text-gray-500">{t.count} note{t.count === 1 ? "" : "s"}</span>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className="hidden group-hover:flex items-center gap-2 text-xs">
+                  <button className="underline" onClick={() => start("rename", t.tag)}>Rename</button>
+                  <button className="underline" onClick={() => start("merge", t.tag)}>Merge</button>
+                  <button className="underline" onClick={() => start("block", t.tag)}>Block</button>
+                </span>
+                <span className="text-[10px] px-2 py-0.5 rounded bg-black/5 dark:bg-white/10 text-gray-600 dark:text-gray-300" title={`document frequency ${t.count}; rarer tags weigh more in link scoring`}>idf {t.idf.toFixed(2)}</span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <section>
+        <h2 className="text-sm font-medium mb-2">Aliases</h2>
+        {aliases.length === 0 ? (
+          <div className="text-xs text-gray-500">No aliases.</div>
+        ) : (
+          <ul className="flex flex-wrap gap-1.5">
+            {aliases.map((r) => (
+              <li key={r.tag} className="text-xs px-2 py-0.5 rounded bg-black/5 dark:bg-white/10 flex items-center gap-1">
+                <span>{r.tag} → {r.target}</span>
+                <button className="opacity-60 hover:opacity-100" disabled={busy} onClick={() => void removeRule(r.tag)} aria-label={`Remove alias ${r.tag}`}>×</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-sm font-medium mb-2">Blocked</h2>
+        {blocked.length === 0 ? (
+          <div className="text-xs text-gray-500">No blocked tags.</div>
+        ) : (
+          <ul className="flex flex-wrap gap-1.5">
+            {blocked.map((r) => (
+              <li key={r.tag} className="text-xs px-2 py-0.5 rounded border border-black/10 dark:border-white/15 flex items-center gap-1">
+                <span>{r.tag}</span>
+                <button className="opacity-60 hover:opacity-100" disabled={busy} onClick={() => void removeRule(r.tag)} aria-label={`Unblock ${r.tag}`}>×</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
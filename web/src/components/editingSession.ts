@@ -0,0 +1,33 @@
+"use client";
+
+// Client-side editing session: one id per browser tab, renewed after a pause in activity.
+// Sent when creating notes so notes written in one sitting get the session link signal
+// (lib/structuralSignals.ts on the server).
+const STORAGE_KEY = "editingSession";
+// A session ends after this long without creating or saving a note
+const IDLE_MS = 30 * 60 * 1000;
+
+type Session = { id: string; lastActive: number };
+
+function read(): Session | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? (JSON.parse(raw) as Session) : null;
+    return parsed && typeof parsed.id === "string" && typeof parsed.lastActive === "number" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// Current session id, starting a new session after an idle gap; also records activity
+export function touchEditingSession(): string {
+  const now = Date.now();
+  const current = read();
+  const session: Session = current && now - current.lastActive <= IDLE_MS
+    ? { id: current.id, lastActive: now }
+    : { id: crypto.randomUUID(), lastActive: now };
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch {}
+  return session.id;
+}
@@ -0,0 +1,85 @@
+// Small force-directed layout for the graph page: pairwise repulsion, springs along links
+// (stronger links are shorter and stiffer) and a weak pull towards the origin. Positions are
+// in world coordinates around (0, 0); the caller steps it while `alpha` cools down.
+export type LayoutNode = { id: string; x: number; y: number; vx: number; vy: number; pinned: boolean };
+
+export type LayoutLink = { source: string; target: string; weight: number };
+
+const CHARGE = 900;
+const LINK_DISTANCE = 90;
+const LINK_STRENGTH = 0.08;
+const GRAVITY = 0.015;
+const VELOCITY_DECAY = 0.6;
+// Repulsion is ignored beyond this distance
+const MAX_REPULSION_DISTANCE = 600;
+
+export const ALPHA_DECAY = 0.97;
+export const ALPHA_MIN = 0.01;
+
+// Layout nodes for `ids`, keeping positions from `previous` and spiralling new nodes outwards
+export function seedLayout(ids: string[], previous?: Map<string, LayoutNode>): Map<string, LayoutNode> {
+  const out = new Map<string, LayoutNode>();
+  ids.forEach((id, i) => {
+    const prev = previous?.get(id);
+    if (prev) {
+      out.set(id, prev);
+      return;
+    }
+    // Phyllotaxis spiral: even spread without overlaps to start from
+    const r = 12 * Math.sqrt(i + 0.5);
+    const a = i * Math.PI * (3 - Math.sqrt(5));
+    out.set(id, { id, x: r * Math.cos(a), y: r * Math.sin(a), vx: 0, vy: 0, pinned: false });
+  });
+  return out;
+}
+
+// Advance the layout by one step at temperature `alpha`
+export function stepLayout(nodes: Map<string, LayoutNode>, links: LayoutLink[], alpha: number) {
+  const list = Array.from(nodes.values());
+  for (let i = 0; i < list.length; i++) {
+    const a = list[i];
+    for (let j = i + 1; j < list.length; j++) {
+      const b = list[j];
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      if (dx === 0 && dy === 0) {
+        dx = Math.random() - 0.5;
+        dy = Math.random() - 0.5;
+      }
+      const d2 = dx * dx + dy * dy;
+      if (d2 > MAX_REPULSION_DISTANCE * MAX_REPULSION_DISTANCE) continue;
+      // Unit direction times CHARGE / d²
+      const f = (CHARGE * alpha) / (Math.max(d2, 25) * Math.sqrt(d2));
+      a.vx -= dx * f;
+      a.vy -= dy * f;
+      b.vx += dx * f;
+      b.vy += dy * f;
+    }
+  }
+  for (const l of links) {
+    const a = nodes.get(l.source);
+    const b = nodes.get(l.target);
+    if (!a || !b) continue;
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const d = Math.sqrt(dx * dx + dy * dy) || 1;
+    const w = Math.min(1, Math.max(0, l.weight));
+    const target = LINK_DISTANCE * (1.4 - 0.8 * w);
+    const k = ((d - target) / d) * alpha * LINK_STRENGTH * (0.5 + w);
+    a.vx += dx * k;
+    a.vy += dy * k;
+    b.vx -= dx * k;
+    b.vy -= dy * k;
+  }
+  for (const n of list) {
+    if (n.pinned) {
+      n.vx = 0;
+      n.vy = 0;
+      continue;
+    }
+    n.vx = (n.vx - n.x * GRAVITY * alpha) * VELOCITY_DECAY;
+    n.vy = (n.vy - n.y * GRAVITY * alpha) * VELOCITY_DECAY;
+    n.x += n.vx;
+    n.y += n.vy;
+  }
+}
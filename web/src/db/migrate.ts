@@ -0,0 +1,185 @@
+// Versioned schema migrations for the SQLite database.
+// Each migration has a numeric version, an `up` and a `down` step; applied versions
+// are recorded in `schema_migrations` so every machine converges on the same schema.
+
+import type Database from 'better-sqlite3';
+import { migrations as allMigrations } from './migrations';
+
+export type SqliteDb = Database.Database;
+
+export type Migration = {
+  version: number; // unique, increasing
+  name: string;    // short snake_case description
+  up: (db: SqliteDb) => void;
+  down: (db: SqliteDb) => void;
+};
+
+export type MigrationStep = {
+  version: number;
+  name: string;
+  direction: 'up' | 'down';
+  ok: boolean;
+  error?: string;
+};
+
+export type MigrationReport = {
+  dryRun: boolean;
+  currentVersion: number; // version before running
+  targetVersion: number;
+  steps: MigrationStep[];
+};
+
+export type MigrationStatus = {
+  version: number;
+  name: string;
+  appliedAt: string | null;
+};
+
+// Thrown inside the outer transaction to roll back a dry run after its last step
+class DryRunRollback extends Error {}
+
+export function ensureMigrationsTable(db: SqliteDb) {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP)
+    );
+  `);
+}
+
+export function appliedVersions(db: SqliteDb): Map<number, { name: string; appliedAt: string }> {
+  ensureMigrationsTable(db);
+  const rows = db.prepare('SELECT version, name, applied_at FROM schema_migrations ORDER BY version').all() as Array<{ version: number; name: string; applied_at: string }>;
+  return new Map(rows.map((r) => [r.version, { name: r.name, appliedAt: r.applied_at }]));
+}
+
+export function currentVersion(db: SqliteDb): number {
+  let max = 0;
+  for (const v of appliedVersions(db).keys()) if (v > max) max = v;
+  return max;
+}
+
+export function migrationStatus(db: SqliteDb, list: Migration[] = allMigrations): MigrationStatus[] {
+  const applied = appliedVersions(db);
+  return sortMigrations(list).map((m) => ({
+    version: m.version,
+    name: m.name,
+    appliedAt: applied.get(m.version)?.appliedAt ?? null,
+  }));
+}
+
+// Apply all pending migrations up to `to` (default: latest)
+export function migrateUp(
+  db: SqliteDb,
+  opts: { to?: number; dryRun?: boolean; migrations?: Migration[] } = {}
+): MigrationReport {
+  const list = sortMigrations(opts.migrations ?? allMigrations);
+  const applied = appliedVersions(db);
+  const before = currentVersion(db);
+  const target = opts.to ?? (list.length ? list[list.length - 1].version : 0);
+  const pending = list.filter((m) => !applied.has(m.version) && m.version <= target);
+
+  const steps = runSteps(db, pending, 'up', !!opts.dryRun);
+  return { dryRun: !!opts.dryRun, currentVersion: before, targetVersion: target, steps };
+}
+
+// Roll back applied migrations newest-first, either `steps` of them or down to version `to`
+export function migrateDown(
+  db: SqliteDb,
+  opts: { to?: number; steps?: number; dryRun?: boolean; migrations?: Migration[] } = {}
+): MigrationReport {
+  const list = sortMigrations(opts.migrations ?? allMigrations);
+  const applied = appliedVersions(db);
+  const before = currentVersion(db);
+  let toRevert = list.filter((m) => applied.has(m.version)).reverse();
+  if (typeof opts.to === 'number') {
+    toRevert = toRevert.filter((m) => m.version > opts.to!);
+  } else {
+    toRevert = toRevert.slice(0, Math.max(0, opts.steps ?? 1));
+  }
+  const target = typeof opts.to === 'number'
+    ? opts.to
+    : (list.filter((m) => applied.has(m.version) && !toRevert.includes(m)).pop()?.version ?? 0);
+
+  const steps = runSteps(db, toRevert, 'down', !!opts.dryRun);
+  return { dryRun: !!opts.dryRun, currentVersion: before, targetVersion: target, steps };
+}
+
+// Run migrations in order, stopping at the first failure. Dry runs execute every step inside one
+// outer transaction, so later steps see the changes of earlier ones, and roll it all back at the end.
+function runSteps(db: SqliteDb, list: Migration[], direction: 'up' | 'down', dryRun: boolean): MigrationStep[] {
+  const steps: MigrationStep[] = [];
+  const run = () => {
+    for (const m of list) {
+      const step = runStep(db, m, direction);
+      steps.push(step);
+      if (!step.ok) break;
+    }
+    if (dryRun) throw new DryRunRollback();
+  };
+  if (!dryRun) {
+    run();
+    return steps;
+  }
+  try {
+    db.transaction(run)();
+  } catch (e) {
+    if (!(e instanceof DryRunRollback)) throw e;
+  }
+  return steps;
+}
+
+// One migration in its own transaction (a savepoint when nested in a dry run)
+function runStep(db: SqliteDb, m: Migration, direction: 'up' | 'down'): MigrationStep {
+  const tx = db.transaction(() => {
+    if (direction === 'up') {
+      m.up(db);
+      db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)')
+        .run(m.version, m.name, new Date().toISOString());
+    } else {
+      m.down(db);
+      db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(m.version);
+    }
+  });
+  try {
+    tx();
+    return { version: m.version, name: m.name, direction, ok: true };
+  } catch (e) {
+    return { version: m.version, name: m.name, direction, ok: false, error: String((e as Error)?.message || e) };
+  }
+}
+
+function sortMigrations(list: Migration[]): Migration[] {
+  const sorted = [...list].sort((a, b) => a.version - b.version);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].version === sorted[i - 1].version) {
+      throw new Error(`Duplicate migration version ${sorted[i].version}`);
+    }
+  }
+  return sorted;
+}
+
+// --- helpers for migration authors ---
+
+export function hasTable(db: SqliteDb, table: string): boolean {
+  const row = db.prepare("SELECT name FROM sqlite_master WHERE type IN ('table','view') AND name = ?").get(table);
+  return !!row;
+}
+
+export function hasColumn(db: SqliteDb, table: string, column: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table});`).all() as Array<{ name: string }>;
+  return columns.some((c) => c.name === column);
+}
+
+export function addColumnIfMissing(db: SqliteDb, table: string, column: string, ddl: string) {
+  if (!hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${ddl};`);
+  }
+}
+
+export function dropColumnIfExists(db: SqliteDb, table: string, column: string) {
+  if (hasColumn(db, table, column)) {
+    db.exec(`ALTER TABLE ${table} DROP COLUMN ${column};`);
+  }
+}
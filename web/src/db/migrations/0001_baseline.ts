@@ -0,0 +1,49 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing } from '../migrate';
+
+// Baseline schema: notes, note_chunks and spaces.
+// Databases created before versioned migrations already have some of these tables,
+// so creation is idempotent and later-added note columns are backfilled if missing.
+const migration: Migration = {
+  version: 1,
+  name: 'baseline',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS notes (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        content_json TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP),
+        updated_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP)
+      );
+      CREATE TABLE IF NOT EXISTS note_chunks (
+        id TEXT PRIMARY KEY,
+        note_id TEXT NOT NULL,
+        ord TEXT NOT NULL,
+        text TEXT NOT NULL,
+        embedding TEXT,
+        created_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP)
+      );
+      CREATE TABLE IF NOT EXISTS spaces (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP),
+        updated_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP)
+      );
+    `);
+    addColumnIfMissing(db, 'notes', 'embedding', 'TEXT');
+    addColumnIfMissing(db, 'notes', 'tags', 'TEXT');
+    addColumnIfMissing(db, 'notes', 'entities', 'TEXT');
+    addColumnIfMissing(db, 'notes', 'folder', 'TEXT');
+    addColumnIfMissing(db, 'notes', 'space_id', 'TEXT');
+  },
+  down(db) {
+    db.exec(`
+      DROP TABLE IF EXISTS spaces;
+      DROP TABLE IF EXISTS note_chunks;
+      DROP TABLE IF EXISTS notes;
+    `);
+  },
+};
+
+export default migration;
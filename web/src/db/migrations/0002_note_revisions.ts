@@ -0,0 +1,28 @@
+import type { Migration } from '../migrate';
+
+const migration: Migration = {
+  version: 2,
+  name: 'note_revisions',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS note_revisions (
+        id TEXT PRIMARY KEY,
+        note_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        content_json TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'autosave',
+        created_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP),
+        updated_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP)
+      );
+      CREATE INDEX IF NOT EXISTS note_revisions_note_id_idx ON note_revisions (note_id, created_at);
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS note_revisions_note_id_idx;
+      DROP TABLE IF EXISTS note_revisions;
+    `);
+  },
+};
+
+export default migration;
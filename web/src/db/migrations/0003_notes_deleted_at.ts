@@ -0,0 +1,18 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists } from '../migrate';
+
+// Soft delete: trashed notes keep their row until restored or purged
+const migration: Migration = {
+  version: 3,
+  name: 'notes_deleted_at',
+  up(db) {
+    addColumnIfMissing(db, 'notes', 'deleted_at', 'TEXT');
+    db.exec('CREATE INDEX IF NOT EXISTS notes_deleted_at_idx ON notes (deleted_at);');
+  },
+  down(db) {
+    db.exec('DROP INDEX IF EXISTS notes_deleted_at_idx;');
+    dropColumnIfExists(db, 'notes', 'deleted_at');
+  },
+};
+
+export default migration;
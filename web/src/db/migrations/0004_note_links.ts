@@ -0,0 +1,33 @@
+import type { Migration } from '../migrate';
+
+// Persisted link suggestions and the user's accept/reject decisions
+const migration: Migration = {
+  version: 4,
+  name: 'note_links',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS note_links (
+        id TEXT PRIMARY KEY,
+        source_id TEXT NOT NULL,
+        target_id TEXT NOT NULL,
+        score REAL NOT NULL DEFAULT 0,
+        features TEXT,
+        decision TEXT NOT NULL DEFAULT 'none',
+        status TEXT NOT NULL DEFAULT 'suggested',
+        created_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP),
+        updated_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP)
+      );
+      CREATE UNIQUE INDEX IF NOT EXISTS note_links_pair_idx ON note_links (source_id, target_id);
+      CREATE INDEX IF NOT EXISTS note_links_target_idx ON note_links (target_id);
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS note_links_target_idx;
+      DROP INDEX IF EXISTS note_links_pair_idx;
+      DROP TABLE IF EXISTS note_links;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,87 @@
+import type { Migration, SqliteDb } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists, hasColumn } from '../migrate';
+
+// Move tags/entities out of JSON text columns on notes into indexed tables.
+// Parsing is kept local to this file so the migration stays stable as lib code evolves.
+
+function parseJsonArray(raw: unknown): unknown[] {
+  if (typeof raw !== 'string' || !raw) return [];
+  try {
+    const v = JSON.parse(raw);
+    return Array.isArray(v) ? v : [];
+  } catch {
+    return [];
+  }
+}
+
+function backfill(db: SqliteDb) {
+  if (!hasColumn(db, 'notes', 'tags') || !hasColumn(db, 'notes', 'entities')) return;
+  const rows = db.prepare('SELECT id, tags, entities FROM notes').all() as Array<{ id: string; tags: string | null; entities: string | null }>;
+  const insertTag = db.prepare("INSERT OR IGNORE INTO note_tags (note_id, tag, source) VALUES (?, ?, 'llm')");
+  const insertEntity = db.prepare(`
+    INSERT INTO note_entities (note_id, entity, weight, source) VALUES (?, ?, ?, 'ner')
+    ON CONFLICT (note_id, entity) DO UPDATE SET weight = weight + excluded.weight
+  `);
+  for (const row of rows) {
+    for (const t of parseJsonArray(row.tags)) {
+      if (typeof t !== 'string' || !t.trim()) continue;
+      insertTag.run(row.id, t.trim());
+    }
+    for (const it of parseJsonArray(row.entities)) {
+      const obj = (it && typeof it === 'object' ? it : {}) as { entity?: unknown; name?: unknown; weight?: unknown };
+      const name = typeof obj.entity === 'string' ? obj.entity : (typeof obj.name === 'string' ? obj.name : '');
+      const key = name.toLowerCase().trim();
+      if (!key) continue;
+      const w = Number(obj.weight);
+      insertEntity.run(row.id, key, Number.isFinite(w) && w >= 0 ? w : 1);
+    }
+  }
+}
+
+const migration: Migration = {
+  version: 5,
+  name: 'note_tags_entities',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS note_tags (
+        note_id TEXT NOT NULL,
+        tag TEXT NOT NULL,
+        source TEXT NOT NULL DEFAULT 'llm',
+        created_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP),
+        PRIMARY KEY (note_id, tag)
+      );
+      CREATE INDEX IF NOT EXISTS note_tags_tag_idx ON note_tags (tag);
+      CREATE TABLE IF NOT EXISTS note_entities (
+        note_id TEXT NOT NULL,
+        entity TEXT NOT NULL,
+        weight REAL NOT NULL DEFAULT 1,
+        source TEXT NOT NULL DEFAULT 'ner',
+        created_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP),
+        PRIMARY KEY (note_id, entity)
+      );
+      CREATE INDEX IF NOT EXISTS note_entities_entity_idx ON note_entities (entity);
+    `);
+    backfill(db);
+    dropColumnIfExists(db, 'notes', 'tags');
+    dropColumnIfExists(db, 'notes', 'entities');
+  },
+  down(db) {
+    addColumnIfMissing(db, 'notes', 'tags', 'TEXT');
+    addColumnIfMissing(db, 'notes', 'entities', 'TEXT');
+    db.exec(`
+      UPDATE notes SET tags = (
+        SELECT json_group_array(tag) FROM note_tags WHERE note_tags.note_id = notes.id
+      ) WHERE EXISTS (SELECT 1 FROM note_tags WHERE note_tags.note_id = notes.id);
+      UPDATE notes SET entities = (
+        SELECT json_group_array(json_object('entity', entity, 'weight', weight))
+        FROM (SELECT entity, weight FROM note_entities WHERE note_entities.note_id = notes.id ORDER BY weight DESC)
+      ) WHERE EXISTS (SELECT 1 FROM note_entities WHERE note_entities.note_id = notes.id);
+      DROP INDEX IF EXISTS note_entities_entity_idx;
+      DROP TABLE IF EXISTS note_entities;
+      DROP INDEX IF EXISTS note_tags_tag_idx;
+      DROP TABLE IF EXISTS note_tags;
+    `);
+  },
+};
+
+export default migration;
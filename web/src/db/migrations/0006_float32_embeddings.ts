@@ -0,0 +1,78 @@
+import type { Migration, SqliteDb } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists, hasColumn } from '../migrate';
+
+// Store embeddings as L2-normalized Float32 BLOBs with model name and dimension,
+// replacing JSON.stringify(number[]) text. Existing vectors are attributed to the
+// currently configured embedding model.
+const LEGACY_MODEL = process.env.OLLAMA_MODEL || 'nomic-embed-text';
+
+function jsonToBlob(raw: unknown): { blob: Buffer; dim: number } | null {
+  if (typeof raw !== 'string' || !raw) return null;
+  let arr: unknown;
+  try { arr = JSON.parse(raw); } catch { return null; }
+  if (!Array.isArray(arr) || arr.length === 0) return null;
+  const v = new Float32Array(arr.length);
+  let norm = 0;
+  for (let i = 0; i < arr.length; i++) {
+    const x = Number(arr[i]) || 0;
+    v[i] = x;
+    norm += x * x;
+  }
+  if (norm > 0) {
+    const inv = 1 / Math.sqrt(norm);
+    for (let i = 0; i < v.length; i++) v[i] *= inv;
+  }
+  return { blob: Buffer.from(v.buffer), dim: v.length };
+}
+
+function blobToJson(raw: unknown): string | null {
+  if (!Buffer.isBuffer(raw) || raw.byteLength === 0 || raw.byteLength % 4 !== 0) return null;
+  const copy = Uint8Array.prototype.slice.call(raw);
+  return JSON.stringify(Array.from(new Float32Array(copy.buffer)));
+}
+
+function toBlobColumn(db: SqliteDb, table: 'notes' | 'note_chunks') {
+  if (!hasColumn(db, table, 'embedding') || hasColumn(db, table, 'embedding_dim')) return;
+  addColumnIfMissing(db, table, 'embedding_vec', 'BLOB');
+  addColumnIfMissing(db, table, 'embedding_model', 'TEXT');
+  addColumnIfMissing(db, table, 'embedding_dim', 'INTEGER');
+  const rows = db.prepare(`SELECT id, embedding FROM ${table} WHERE embedding IS NOT NULL`).all() as Array<{ id: string; embedding: unknown }>;
+  const update = db.prepare(`UPDATE ${table} SET embedding_vec = ?, embedding_model = ?, embedding_dim = ? WHERE id = ?`);
+  for (const row of rows) {
+    const enc = jsonToBlob(row.embedding);
+    if (enc) update.run(enc.blob, LEGACY_MODEL, enc.dim, row.id);
+  }
+  db.exec(`ALTER TABLE ${table} DROP COLUMN embedding;`);
+  db.exec(`ALTER TABLE ${table} RENAME COLUMN embedding_vec TO embedding;`);
+}
+
+function toJsonColumn(db: SqliteDb, table: 'notes' | 'note_chunks') {
+  if (!hasColumn(db, table, 'embedding_dim')) return;
+  addColumnIfMissing(db, table, 'embedding_json', 'TEXT');
+  const rows = db.prepare(`SELECT id, embedding FROM ${table} WHERE embedding IS NOT NULL`).all() as Array<{ id: string; embedding: unknown }>;
+  const update = db.prepare(`UPDATE ${table} SET embedding_json = ? WHERE id = ?`);
+  for (const row of rows) {
+    const json = blobToJson(row.embedding);
+    if (json) update.run(json, row.id);
+  }
+  db.exec(`ALTER TABLE ${table} DROP COLUMN embedding;`);
+  dropColumnIfExists(db, table, 'embedding_model');
+  dropColumnIfExists(db, table, 'embedding_dim');
+  db.exec(`ALTER TABLE ${table} RENAME COLUMN embedding_json TO embedding;`);
+}
+
+const migration: Migration = {
+  version: 6,
+  name: 'float32_embeddings',
+  up(db) {
+    toBlobColumn(db, 'notes');
+    toBlobColumn(db, 'note_chunks');
+  },
+  // Vectors come back as JSON, but stay normalized
+  down(db) {
+    toJsonColumn(db, 'notes');
+    toJsonColumn(db, 'note_chunks');
+  },
+};
+
+export default migration;
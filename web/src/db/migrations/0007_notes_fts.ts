@@ -0,0 +1,97 @@
+import type { Migration } from '../migrate';
+
+// Full-text index over note titles and plain body text (see lib/fts.ts).
+// note_id is stored but not tokenized; rows are replaced whenever a note is saved.
+// Text extraction is a frozen copy of lib/embeddings.ts extractPlainTextFromTiptap at the time of
+// this migration, kept local so the backfill stays stable as lib code evolves.
+
+type DocNode = { text?: unknown; content?: unknown; children?: unknown };
+
+function collectText(node: unknown, acc: string[]) {
+  if (!node || typeof node !== 'object') return;
+  const n = node as DocNode;
+  if (typeof n.text === 'string') acc.push(n.text);
+  for (const c of Array.isArray(n.content) ? n.content : []) collectText(c, acc);
+  for (const c of Array.isArray(n.children) ? n.children : []) collectText(c, acc);
+}
+
+function stripInlineHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim();
+}
+
+function plainText(doc: unknown): string {
+  try {
+    // BlockNote: array of blocks, one line each
+    if (Array.isArray(doc)) {
+      const out: string[] = [];
+      for (const block of doc) {
+        const acc: string[] = [];
+        collectText(block, acc);
+        const line = acc.join(' ').replace(/\s+/g, ' ').trim();
+        if (line) out.push(line);
+      }
+      return out.join('\n').trim();
+    }
+    // Editor.js OutputData
+    const blocks = doc && typeof doc === 'object' ? (doc as { blocks?: unknown }).blocks : undefined;
+    if (Array.isArray(blocks)) {
+      const out: string[] = [];
+      for (const b of blocks as Array<{ type?: unknown; data?: Record<string, unknown> } | null>) {
+        const data = b?.data ?? {};
+        const items = Array.isArray(data.items) ? (data.items as unknown[]) : [];
+        switch (b?.type) {
+          case 'paragraph':
+          case 'header':
+          case 'quote':
+            out.push(stripInlineHtml(typeof data.text === 'string' ? data.text : ''));
+            break;
+          case 'list':
+            for (const it of items) out.push(stripInlineHtml(String(it ?? '')));
+            break;
+          case 'checklist':
+            for (const it of items) out.push(stripInlineHtml(String((it as { text?: unknown } | null)?.text ?? '')));
+            break;
+          case 'code':
+            out.push(typeof data.code === 'string' ? data.code : '');
+            break;
+        }
+      }
+      return out.join('\n').replace(/\s+$/g, '').trim();
+    }
+    // TipTap/ProseMirror-like tree, or a single BlockNote root
+    const acc: string[] = [];
+    collectText(doc, acc);
+    return acc.join(' ').replace(/\s+/g, ' ').trim();
+  } catch {
+    return '';
+  }
+}
+const migration: Migration = {
+  version: 7,
+  name: 'notes_fts',
+  up(db) {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS notes_fts USING fts5(
+        note_id UNINDEXED,
+        title,
+        body,
+        tokenize = 'porter unicode61'
+      );
+    `);
+    // Backfill from existing notes
+    const rows = db.prepare('SELECT id, title, content_json FROM notes').all() as Array<{ id: string; title: string | null; content_json: string | null }>;
+    const remove = db.prepare('DELETE FROM notes_fts WHERE note_id = ?');
+    const insert = db.prepare('INSERT INTO notes_fts (note_id, title, body) VALUES (?, ?, ?)');
+    for (const row of rows) {
+      let doc: unknown = null;
+      try { doc = row.content_json ? JSON.parse(row.content_json) : null; } catch {}
+      remove.run(row.id);
+      insert.run(row.id, row.title ?? '', doc ? plainText(doc) : '');
+    }
+  },
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS notes_fts;');
+  },
+};
+
+export default migration;
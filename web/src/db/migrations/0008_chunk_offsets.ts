@@ -0,0 +1,19 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists } from '../migrate';
+
+// Chunk offsets into the note's plain body, so search can point at the matching passage.
+// Existing chunks keep NULL offsets until their note is processed again.
+const migration: Migration = {
+  version: 8,
+  name: 'chunk_offsets',
+  up(db) {
+    addColumnIfMissing(db, 'note_chunks', 'start_offset', 'INTEGER');
+    addColumnIfMissing(db, 'note_chunks', 'end_offset', 'INTEGER');
+  },
+  down(db) {
+    dropColumnIfExists(db, 'note_chunks', 'end_offset');
+    dropColumnIfExists(db, 'note_chunks', 'start_offset');
+  },
+};
+
+export default migration;
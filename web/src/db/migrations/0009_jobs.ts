@@ -0,0 +1,39 @@
+import type { Migration } from '../migrate';
+
+// Durable background jobs (see lib/jobQueue.ts). At most one queued job per (type, note):
+// new requests for a note that already has a queued job are coalesced into it.
+const migration: Migration = {
+  version: 9,
+  name: 'jobs',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        note_id TEXT,
+        status TEXT NOT NULL DEFAULT 'queued',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        run_at TEXT NOT NULL,
+        last_error TEXT,
+        created_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP),
+        updated_at TEXT NOT NULL DEFAULT (CURRENT_TIMESTAMP),
+        started_at TEXT,
+        finished_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS jobs_status_run_at_idx ON jobs (status, run_at);
+      CREATE INDEX IF NOT EXISTS jobs_note_idx ON jobs (note_id);
+      CREATE UNIQUE INDEX IF NOT EXISTS jobs_queued_note_idx ON jobs (type, note_id) WHERE status = 'queued';
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS jobs_queued_note_idx;
+      DROP INDEX IF EXISTS jobs_note_idx;
+      DROP INDEX IF EXISTS jobs_status_run_at_idx;
+      DROP TABLE IF EXISTS jobs;
+    `);
+  },
+};
+
+export default migration;
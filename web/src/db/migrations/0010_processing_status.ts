@@ -0,0 +1,26 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists } from '../migrate';
+
+// Per-note background processing state (see lib/processingStatus.ts).
+// Notes that already have an embedding start out as 'done'; the rest stay NULL (never processed).
+const migration: Migration = {
+  version: 10,
+  name: 'processing_status',
+  up(db) {
+    addColumnIfMissing(db, 'notes', 'processing_status', 'TEXT');
+    addColumnIfMissing(db, 'notes', 'processing_error', 'TEXT');
+    addColumnIfMissing(db, 'notes', 'processing_updated_at', 'TEXT');
+    db.exec(`
+      UPDATE notes
+      SET processing_status = 'done', processing_updated_at = updated_at
+      WHERE processing_status IS NULL AND embedding IS NOT NULL;
+    `);
+  },
+  down(db) {
+    dropColumnIfExists(db, 'notes', 'processing_updated_at');
+    dropColumnIfExists(db, 'notes', 'processing_error');
+    dropColumnIfExists(db, 'notes', 'processing_status');
+  },
+};
+
+export default migration;
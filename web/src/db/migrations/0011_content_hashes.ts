@@ -0,0 +1,33 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists } from '../migrate';
+import { createHash } from 'crypto';
+
+// Content hashes so processing can skip unchanged notes and reuse unchanged chunks:
+// - notes.content_hash: hash of the text last processed successfully (NULL = process on next save)
+// - note_chunks.content_hash: hash of the chunk text, backfilled so existing embeddings are reused
+// - note_chunks.entities: JSON entities extracted from the chunk (NULL = not extracted yet)
+// The hash is a frozen copy of lib/contentHash.ts, kept local so the backfill stays stable as lib code evolves.
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+const migration: Migration = {
+  version: 11,
+  name: 'content_hashes',
+  up(db) {
+    addColumnIfMissing(db, 'notes', 'content_hash', 'TEXT');
+    addColumnIfMissing(db, 'note_chunks', 'content_hash', 'TEXT');
+    addColumnIfMissing(db, 'note_chunks', 'entities', 'TEXT');
+    const rows = db.prepare('SELECT id, text FROM note_chunks WHERE content_hash IS NULL').all() as Array<{ id: string; text: string }>;
+    const update = db.prepare('UPDATE note_chunks SET content_hash = ? WHERE id = ?');
+    for (const r of rows) update.run(contentHash(r.text ?? ''), r.id);
+  },
+  down(db) {
+    dropColumnIfExists(db, 'note_chunks', 'entities');
+    dropColumnIfExists(db, 'note_chunks', 'content_hash');
+    dropColumnIfExists(db, 'notes', 'content_hash');
+  },
+};
+
+export default migration;
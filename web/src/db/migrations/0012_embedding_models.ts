@@ -0,0 +1,69 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists } from '../migrate';
+import { randomUUID } from 'crypto';
+
+// Embedding model registry (see lib/embeddingModels.ts) and staging area for reindexing.
+// The model that produced most existing vectors becomes the active one; vectors also record
+// the model version (Ollama digest) from now on.
+const migration: Migration = {
+  version: 12,
+  name: 'embedding_models',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS embedding_models (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        version TEXT,
+        dim INTEGER,
+        status TEXT NOT NULL,
+        total INTEGER NOT NULL DEFAULT 0,
+        processed INTEGER NOT NULL DEFAULT 0,
+        failed INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        activated_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS embedding_models_status_idx ON embedding_models (status);
+      CREATE TABLE IF NOT EXISTS embedding_staging (
+        model_id TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        ref_id TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        embedding BLOB NOT NULL,
+        dim INTEGER NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (model_id, kind, ref_id)
+      );
+    `);
+    addColumnIfMissing(db, 'notes', 'embedding_version', 'TEXT');
+    addColumnIfMissing(db, 'note_chunks', 'embedding_version', 'TEXT');
+
+    const hasActive = db.prepare("SELECT 1 FROM embedding_models WHERE status = 'active'").get();
+    if (!hasActive) {
+      const top = db.prepare(`
+        SELECT embedding_model AS name, embedding_dim AS dim, COUNT(*) AS n
+        FROM notes
+        WHERE embedding IS NOT NULL AND embedding_model IS NOT NULL
+        GROUP BY embedding_model, embedding_dim
+        ORDER BY n DESC
+        LIMIT 1
+      `).get() as { name: string; dim: number | null } | undefined;
+      const now = new Date().toISOString();
+      db.prepare(`
+        INSERT INTO embedding_models (id, name, version, dim, status, created_at, updated_at, activated_at)
+        VALUES (?, ?, NULL, ?, 'active', ?, ?, ?)
+      `).run(randomUUID(), top?.name ?? (process.env.OLLAMA_MODEL || 'nomic-embed-text'), top?.dim ?? null, now, now, now);
+    }
+  },
+  down(db) {
+    dropColumnIfExists(db, 'note_chunks', 'embedding_version');
+    dropColumnIfExists(db, 'notes', 'embedding_version');
+    db.exec(`
+      DROP TABLE IF EXISTS embedding_staging;
+      DROP TABLE IF EXISTS embedding_models;
+    `);
+  },
+};
+
+export default migration;
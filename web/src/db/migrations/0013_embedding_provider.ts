@@ -0,0 +1,18 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists } from '../migrate';
+
+// Embedding models record which provider serves them (see lib/embeddingProvider.ts). Existing
+// models came from Ollama. A database without any vectors yet is switched to the configured
+// provider at runtime (lib/embeddingModels.ts activeEmbeddingModel), not here.
+const migration: Migration = {
+  version: 13,
+  name: 'embedding_provider',
+  up(db) {
+    addColumnIfMissing(db, 'embedding_models', 'provider', "TEXT NOT NULL DEFAULT 'ollama'");
+  },
+  down(db) {
+    dropColumnIfExists(db, 'embedding_models', 'provider');
+  },
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists } from '../migrate';
+
+// Where a note's title came from: 'auto' (generated, replaced on enrichment) or 'manual'
+// (named by the user, never overwritten). Existing titles were all generated. Revisions keep
+// the source alongside the title, so that restoring one brings back both.
+const migration: Migration = {
+  version: 14,
+  name: 'title_source',
+  up(db) {
+    addColumnIfMissing(db, 'notes', 'title_source', "TEXT NOT NULL DEFAULT 'auto'");
+    addColumnIfMissing(db, 'note_revisions', 'title_source', "TEXT NOT NULL DEFAULT 'auto'");
+  },
+  down(db) {
+    dropColumnIfExists(db, 'note_revisions', 'title_source');
+    dropColumnIfExists(db, 'notes', 'title_source');
+  },
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists } from '../migrate';
+
+// Editing session a note was created in (sent by the client, see components/editingSession.ts);
+// notes from the same session get the session link signal (lib/structuralSignals.ts).
+// Existing notes have no session.
+const migration: Migration = {
+  version: 15,
+  name: 'note_sessions',
+  up(db) {
+    addColumnIfMissing(db, 'notes', 'session_id', 'TEXT');
+    db.exec('CREATE INDEX IF NOT EXISTS notes_session_idx ON notes (session_id);');
+  },
+  down(db) {
+    db.exec('DROP INDEX IF EXISTS notes_session_idx;');
+    dropColumnIfExists(db, 'notes', 'session_id');
+  },
+};
+
+export default migration;
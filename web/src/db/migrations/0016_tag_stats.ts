@@ -0,0 +1,29 @@
+import type { Migration } from '../migrate';
+
+// Document frequency per tag over notes not in the trash (see lib/tagStats.ts), backfilled
+// from note_tags and maintained whenever tags change or notes move in or out of the trash.
+const migration: Migration = {
+  version: 16,
+  name: 'tag_stats',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS tag_stats (
+        tag TEXT PRIMARY KEY,
+        df INTEGER NOT NULL,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      DELETE FROM tag_stats;
+      INSERT INTO tag_stats (tag, df)
+      SELECT nt.tag, COUNT(DISTINCT nt.note_id)
+      FROM note_tags nt
+      JOIN notes n ON n.id = nt.note_id
+      WHERE n.deleted_at IS NULL
+      GROUP BY nt.tag;
+    `);
+  },
+  down(db) {
+    db.exec('DROP TABLE IF EXISTS tag_stats;');
+  },
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+import type { Migration } from '../migrate';
+
+// Versioned link-scoring profiles learned from accepted/rejected suggestions (lib/linkTrainer.ts).
+// At most one row is 'active'; without one the links routes use the built-in defaults.
+const migration: Migration = {
+  version: 17,
+  name: 'scoring_profiles',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS scoring_profiles (
+        id TEXT PRIMARY KEY,
+        version INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        model TEXT NOT NULL,
+        weights TEXT NOT NULL,
+        bias REAL NOT NULL DEFAULT 0,
+        hard_threshold REAL NOT NULL,
+        soft_threshold REAL NOT NULL,
+        samples INTEGER NOT NULL DEFAULT 0,
+        positives INTEGER NOT NULL DEFAULT 0,
+        negatives INTEGER NOT NULL DEFAULT 0,
+        metrics TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        activated_at TEXT
+      );
+      CREATE INDEX IF NOT EXISTS scoring_profiles_status_idx ON scoring_profiles(status);
+    `);
+  },
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS scoring_profiles_status_idx;
+      DROP TABLE IF EXISTS scoring_profiles;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import type { Migration } from '../migrate';
+import { addColumnIfMissing, dropColumnIfExists } from '../migrate';
+
+// Scoring profiles attached to a space (NULL = applies to every note without a space profile),
+// plus the guardrail flag and semantic aggregation method that hand-edited profiles can set.
+// Existing (trained) profiles stay global, without the guardrail, aggregating with 'mean'.
+const migration: Migration = {
+  version: 18,
+  name: 'space_scoring_profiles',
+  up(db) {
+    addColumnIfMissing(db, 'scoring_profiles', 'space_id', 'TEXT');
+    addColumnIfMissing(db, 'scoring_profiles', 'guardrail', 'INTEGER NOT NULL DEFAULT 0');
+    addColumnIfMissing(db, 'scoring_profiles', 'aggregate', "TEXT NOT NULL DEFAULT 'mean'");
+    db.exec('CREATE INDEX IF NOT EXISTS scoring_profiles_space_idx ON scoring_profiles (space_id, status);');
+  },
+  down(db) {
+    db.exec('DROP INDEX IF EXISTS scoring_profiles_space_idx;');
+    dropColumnIfExists(db, 'scoring_profiles', 'aggregate');
+    dropColumnIfExists(db, 'scoring_profiles', 'guardrail');
+    dropColumnIfExists(db, 'scoring_profiles', 'space_id');
+  },
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+import type { Migration } from '../migrate';
+
+// User-managed tag taxonomy (lib/tagTaxonomy.ts): 'alias' rules map a tag to its canonical form
+// (`target`), 'block' rules drop a tag. Seeded with the synonyms and stoplist that used to be
+// hard-coded in lib/tags.ts, keyed by their kebab-case form since that is what they are matched on.
+const SEED_ALIASES: Array<[string, string]> = [
+  ['js', 'javascript'],
+  ['node', 'nodejs'],
+  ['node-js', 'nodejs'],
+  ['nodejs-stream', 'nodejs-streams'],
+  ['ts', 'typescript'],
+  ['reactjs', 'react'],
+  ['nextjs', 'next.js'],
+];
+
+const SEED_BLOCKED = [
+  'hello', 'question', 'example', 'examples', 'simple', 'simple-code', 'greeting', 'purpose', 'note', 'notes', 'misc',
+  'general', 'random', 'test', 'todo',
+];
+
+const migration: Migration = {
+  version: 19,
+  name: 'tag_taxonomy',
+  up(db) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS tag_rules (
+        tag TEXT PRIMARY KEY,
+        kind TEXT NOT NULL,
+        target TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      CREATE INDEX IF NOT EXISTS tag_rules_target_idx ON tag_rules(target);
+    `);
+    const insert = db.prepare('INSERT OR IGNORE INTO tag_rules (tag, kind, target) VALUES (?, ?, ?)');
+    for (const [tag, target] of SEED_ALIASES) insert.run(tag, 'alias', target);
+    for (const tag of SEED_BLOCKED) insert.run(tag, 'block', null);
+  },
+  down(db) {
+    db.exec(`
+      DROP INDEX IF EXISTS tag_rules_target_idx;
+      DROP TABLE IF EXISTS tag_rules;
+    `);
+  },
+};
+
+export default migration;
@@ -0,0 +1,44 @@
+// Ordered registry of schema migrations. Add new files as NNNN_description.ts
+// and append them here; never edit a migration that has already shipped.
+import type { Migration } from '../migrate';
+import m0001 from './0001_baseline';
+import m0002 from './0002_note_revisions';
+import m0003 from './0003_notes_deleted_at';
+import m0004 from './0004_note_links';
+import m0005 from './0005_note_tags_entities';
+import m0006 from './0006_float32_embeddings';
+import m0007 from './0007_notes_fts';
+import m0008 from './0008_chunk_offsets';
+import m0009 from './0009_jobs';
+import m0010 from './0010_processing_status';
+import m0011 from './0011_content_hashes';
+import m0012 from './0012_embedding_models';
+import m0013 from './0013_embedding_provider';
+import m0014 from './0014_title_source';
+import m0015 from './0015_note_sessions';
+import m0016 from './0016_tag_stats';
+import m0017 from './0017_scoring_profiles';
+import m0018 from './0018_space_scoring_profiles';
+import m0019 from './0019_tag_taxonomy';
+
+export const migrations: Migration[] = [
+  m0001,
+  m0002,
+  m0003,
+  m0004,
+  m0005,
+  m0006,
+  m0007,
+  m0008,
+  m0009,
+  m0010,
+  m0011,
+  m0012,
+  m0013,
+  m0014,
+  m0015,
+  m0016,
+  m0017,
+  m0018,
+  m0019,
+];
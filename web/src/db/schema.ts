@@ -1,35 +1,113 @@
-import { sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { blob, index, integer, primaryKey, real, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { sql } from 'drizzle-orm';
 
 export const notes = sqliteTable('notes', {
   id: text('id').primaryKey(),
   title: text('title').notNull(),
+  // 'auto' (generated by enrichment) | 'manual' (set by the user; locks out auto titles)
+  titleSource: text('title_source').notNull().default('auto'),
   // Stored as a JSON string
   contentJson: text('content_json').notNull(),
   createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
   updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`),
-  // JSON stringified embedding vector (number[])
-  embedding: text('embedding'),
-  // JSON stringified array of tags (string[])
-  tags: text('tags'),
-  // JSON stringified array of entities with weights: [{entity, weight}]
-  entities: text('entities'),
+  // L2-normalized Float32 embedding vector (see lib/vectors.ts)
+  embedding: blob('embedding', { mode: 'buffer' }),
+  // Model that produced `embedding` (see embedding_models), its version and dimension
+  embeddingModel: text('embedding_model'),
+  embeddingVersion: text('embedding_version'),
+  embeddingDim: integer('embedding_dim'),
   // Optional manual folder name (UI grouping)
   folder: text('folder'),
   // Optional foreign key to a space
   spaceId: text('space_id'),
-});
+  // Soft delete timestamp; non-null means the note is in the trash
+  deletedAt: text('deleted_at'),
+  // Background processing stage: 'queued' | 'enriching' | 'embedding' | 'chunking' | 'entities' | 'done' | 'failed'
+  // (NULL until the note is first processed), with the last error message
+  processingStatus: text('processing_status'),
+  processingError: text('processing_error'),
+  processingUpdatedAt: text('processing_updated_at'),
+  // Hash of the text last processed successfully (see lib/contentHash.ts); unchanged text skips processing
+  contentHash: text('content_hash'),
+  // Client editing session the note was created in (NULL for notes created before sessions were tracked)
+  sessionId: text('session_id'),
+}, (t) => [
+  index('notes_session_idx').on(t.sessionId),
+]);
 
 export type Note = typeof notes.$inferSelect;
 export type NewNote = typeof notes.$inferInsert;
 
+// Tags per note (one row per note/tag pair)
+export const noteTags = sqliteTable('note_tags', {
+  noteId: text('note_id').notNull(),
+  tag: text('tag').notNull(),
+  // where the tag came from: 'llm' | 'manual'
+  source: text('source').notNull().default('llm'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (t) => [
+  primaryKey({ columns: [t.noteId, t.tag] }),
+  index('note_tags_tag_idx').on(t.tag),
+]);
+
+export type NoteTag = typeof noteTags.$inferSelect;
+export type NewNoteTag = typeof noteTags.$inferInsert;
+
+// Document frequency per tag over notes not in the trash (lib/tagStats.ts)
+export const tagStats = sqliteTable('tag_stats', {
+  tag: text('tag').primaryKey(),
+  df: integer('df').notNull(),
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export type TagStat = typeof tagStats.$inferSelect;
+
+// User-managed tag taxonomy (lib/tagTaxonomy.ts): one rule per tag
+export const tagRules = sqliteTable('tag_rules', {
+  tag: text('tag').primaryKey(),
+  // 'alias' (rewrite to `target`) | 'block' (drop the tag)
+  kind: text('kind').notNull(),
+  target: text('target'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (t) => [
+  index('tag_rules_target_idx').on(t.target),
+]);
+
+export type TagRule = typeof tagRules.$inferSelect;
+
+// Weighted entities per note (one row per note/canonical entity)
+export const noteEntities = sqliteTable('note_entities', {
+  noteId: text('note_id').notNull(),
+  entity: text('entity').notNull(),
+  weight: real('weight').notNull().default(1),
+  // extraction source: 'ner' | 'regex' | ...
+  source: text('source').notNull().default('ner'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (t) => [
+  primaryKey({ columns: [t.noteId, t.entity] }),
+  index('note_entities_entity_idx').on(t.entity),
+]);
+
+export type NoteEntity = typeof noteEntities.$inferSelect;
+export type NewNoteEntity = typeof noteEntities.$inferInsert;
+
 // Chunks table: stores per-note text chunks and their embeddings
 export const noteChunks = sqliteTable('note_chunks', {
   id: text('id').primaryKey(),
   noteId: text('note_id').notNull(),
   ord: text('ord').notNull(), // store as TEXT to keep schema simple; parsed as integer in code
   text: text('text').notNull(),
-  embedding: text('embedding'), // JSON stringified number[]
+  // Character range of `text` within the note's whitespace-collapsed plain body
+  startOffset: integer('start_offset'),
+  endOffset: integer('end_offset'),
+  embedding: blob('embedding', { mode: 'buffer' }), // L2-normalized Float32 vector
+  embeddingModel: text('embedding_model'),
+  embeddingVersion: text('embedding_version'),
+  embeddingDim: integer('embedding_dim'),
+  // Hash of `text`; chunks with an unchanged hash keep their embedding and entities
+  contentHash: text('content_hash'),
+  // JSON array of entities extracted from this chunk; NULL until extraction succeeds
+  entities: text('entities'),
   createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
 });
 
@@ -47,3 +125,152 @@ export const spaces = sqliteTable('spaces', {
 export type Space = typeof spaces.$inferSelect;
 export type NewSpace = typeof spaces.$inferInsert;
 
+
+// Revision history: snapshots of title + content, one row per editing burst
+export const noteRevisions = sqliteTable('note_revisions', {
+  id: text('id').primaryKey(),
+  noteId: text('note_id').notNull(),
+  title: text('title').notNull(),
+  // The note's titleSource at the time, restored with the title
+  titleSource: text('title_source').notNull().default('auto'),
+  contentJson: text('content_json').notNull(),
+  // 'initial' (state before history existed) | 'autosave' | 'restore'
+  source: text('source').notNull().default('autosave'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  // bumped while autosaves are coalesced into this revision
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+});
+
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+export type NewNoteRevision = typeof noteRevisions.$inferInsert;
+
+// Link suggestions between notes, persisted with the user's decision
+export const noteLinks = sqliteTable('note_links', {
+  id: text('id').primaryKey(),
+  sourceId: text('source_id').notNull(),
+  targetId: text('target_id').notNull(),
+  score: real('score').notNull().default(0),
+  // JSON stringified FeatureScores breakdown
+  features: text('features'),
+  // classifyLink output: 'hard' | 'soft' | 'none'
+  decision: text('decision').notNull().default('none'),
+  // user status: 'suggested' | 'accepted' | 'rejected'
+  status: text('status').notNull().default('suggested'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (t) => [
+  uniqueIndex('note_links_pair_idx').on(t.sourceId, t.targetId),
+  index('note_links_target_idx').on(t.targetId),
+]);
+
+export type NoteLink = typeof noteLinks.$inferSelect;
+export type NewNoteLink = typeof noteLinks.$inferInsert;
+
+// Durable background jobs (lib/jobQueue.ts)
+export const jobs = sqliteTable('jobs', {
+  id: text('id').primaryKey(),
+  // e.g. 'process_note'
+  type: text('type').notNull(),
+  noteId: text('note_id'),
+  // 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+  status: text('status').notNull().default('queued'),
+  attempts: integer('attempts').notNull().default(0),
+  maxAttempts: integer('max_attempts').notNull().default(5),
+  // earliest time the job may (re)run; pushed back by coalescing and retry backoff
+  runAt: text('run_at').notNull(),
+  lastError: text('last_error'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  startedAt: text('started_at'),
+  finishedAt: text('finished_at'),
+}, (t) => [
+  index('jobs_status_run_at_idx').on(t.status, t.runAt),
+  index('jobs_note_idx').on(t.noteId),
+  uniqueIndex('jobs_queued_note_idx').on(t.type, t.noteId).where(sql`status = 'queued'`),
+]);
+
+export type Job = typeof jobs.$inferSelect;
+export type NewJob = typeof jobs.$inferInsert;
+
+// notes_fts (FTS5 virtual table: note_id, title, body) is not modeled here;
+// it is created by migration 0007 and queried with raw SQL in lib/fts.ts.
+
+// Embedding model registry: exactly one 'active' model produces the vectors that queries use.
+// A reindex adds an 'indexing' row (progress in total/processed/failed) that becomes active at
+// switch-over, retiring the previous one. The same model name can appear again for a new version.
+export const embeddingModels = sqliteTable('embedding_models', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+  // 'ollama' | 'openai' | 'hashed' (see lib/embeddingProvider.ts)
+  provider: text('provider').notNull().default('ollama'),
+  // Model digest (short form) when the provider reports one
+  version: text('version'),
+  dim: integer('dim'),
+  // 'active' | 'indexing' | 'retired' | 'cancelled'
+  status: text('status').notNull(),
+  total: integer('total').notNull().default(0),
+  processed: integer('processed').notNull().default(0),
+  failed: integer('failed').notNull().default(0),
+  lastError: text('last_error'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  updatedAt: text('updated_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  activatedAt: text('activated_at'),
+}, (t) => [
+  index('embedding_models_status_idx').on(t.status),
+]);
+
+export type EmbeddingModel = typeof embeddingModels.$inferSelect;
+export type NewEmbeddingModel = typeof embeddingModels.$inferInsert;
+
+// Vectors computed by a reindex, applied to notes/note_chunks at switch-over.
+// `content_hash` is the hash of the embedded text, so edits made meanwhile are detected.
+export const embeddingStaging = sqliteTable('embedding_staging', {
+  modelId: text('model_id').notNull(),
+  kind: text('kind').notNull(), // 'note' | 'chunk'
+  refId: text('ref_id').notNull(),
+  contentHash: text('content_hash').notNull(),
+  embedding: blob('embedding', { mode: 'buffer' }).notNull(),
+  dim: integer('dim').notNull(),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+}, (t) => [
+  primaryKey({ columns: [t.modelId, t.kind, t.refId] }),
+]);
+
+export type EmbeddingStaging = typeof embeddingStaging.$inferSelect;
+
+// Link-scoring profiles: learned from link feedback (lib/linkTrainer.ts) or edited per space.
+// One 'active' row at most per scope (a space, or NULL for the global profile); older versions are
+// 'retired'. Without an active row the built-in weights apply.
+export const scoringProfiles = sqliteTable('scoring_profiles', {
+  id: text('id').primaryKey(),
+  version: integer('version').notNull(),
+  // Space the profile applies to; NULL for the global profile
+  spaceId: text('space_id'),
+  // 'active' | 'retired'
+  status: text('status').notNull(),
+  // 'linear' | 'logistic' (see ScoringProfile in lib/linkScoring.ts)
+  model: text('model').notNull(),
+  // JSON object: FeatureScores key -> weight
+  weights: text('weights').notNull(),
+  bias: real('bias').notNull().default(0),
+  // Halve weak scores (low semantic and entity overlap); linear profiles only
+  guardrail: integer('guardrail', { mode: 'boolean' }).notNull().default(false),
+  // Semantic aggregation over the top chunk cosines: 'mean' | 'max'
+  aggregate: text('aggregate').notNull().default('mean'),
+  hardThreshold: real('hard_threshold').notNull(),
+  softThreshold: real('soft_threshold').notNull(),
+  // Training data: labelled suggestions, accepted and rejected
+  samples: integer('samples').notNull().default(0),
+  positives: integer('positives').notNull().default(0),
+  negatives: integer('negatives').notNull().default(0),
+  // JSON training metrics (see TrainingMetrics)
+  metrics: text('metrics'),
+  createdAt: text('created_at').notNull().default(sql`CURRENT_TIMESTAMP`),
+  activatedAt: text('activated_at'),
+}, (t) => [
+  index('scoring_profiles_status_idx').on(t.status),
+  index('scoring_profiles_space_idx').on(t.spaceId, t.status),
+]);
+
+export type ScoringProfileRow = typeof scoringProfiles.$inferSelect;
+export type NewScoringProfileRow = typeof scoringProfiles.$inferInsert;
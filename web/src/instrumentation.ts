@@ -0,0 +1,14 @@
+// Server startup hook (Next.js instrumentation)
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const { startTrashPurgeTimer } = await import('./lib/trash');
+  startTrashPurgeTimer();
+  // Record (or check) the installed version of the active embedding model
+  const { syncActiveModelVersion } = await import('./lib/embeddingModels');
+  void syncActiveModelVersion().catch((e) => console.warn('Embedding model version check failed', e));
+  const { startAnnIndex } = await import('./lib/annIndex');
+  try { startAnnIndex(); } catch (e) { console.error('ANN index startup failed', e); }
+  // Resume jobs interrupted by the previous shutdown
+  const { startJobWorker } = await import('./lib/jobQueue');
+  startJobWorker();
+}
@@ -0,0 +1,291 @@
+// In-process ANN indexes (HNSW, see lib/hnsw.ts) over note and chunk embeddings.
+// Loaded from db/ann/ on startup and reconciled with the database, updated incrementally as
+// notes are processed, and written back to disk shortly after changes. Callers fall back to
+// brute-force scans whenever an index is not available (not started, or a dimension mismatch).
+// Only vectors of the active embedding model are indexed (see lib/embeddingModels.ts).
+import { db, notes, noteChunks } from '@/db/client';
+import { and, isNotNull } from 'drizzle-orm';
+import fs from 'fs';
+import path from 'path';
+import { HnswIndex } from './hnsw';
+import { fromBlob } from './vectors';
+import { activeEmbeddingModel, currentVectorCondition } from './embeddingModels';
+
+const ANN_DIR = path.join(process.cwd(), 'db', 'ann');
+const SAVE_DELAY_MS = 5000;
+// Rebuild a graph once this share of its nodes are deleted entries
+const COMPACT_RATIO = 0.3;
+
+type Kind = 'notes' | 'chunks';
+
+type AnnState = {
+  ready: boolean;
+  notes: HnswIndex | null;
+  chunks: HnswIndex | null;
+  chunkKeysByNote: Map<string, Set<string>>;
+  dirty: Set<Kind>;
+  saveTimer?: ReturnType<typeof setTimeout>;
+};
+
+export type AnnChunkHit = { noteId: string; chunkId: string; score: number };
+export type AnnNoteHit = { noteId: string; score: number };
+
+function state(): AnnState {
+  const g = global as typeof globalThis & { __annIndex?: AnnState };
+  g.__annIndex ??= { ready: false, notes: null, chunks: null, chunkKeysByNote: new Map(), dirty: new Set() };
+  return g.__annIndex;
+}
+
+// Chunk keys carry their note id so ownership survives a reload from disk
+function chunkKey(noteId: string, chunkId: string): string {
+  return `${noteId}#${chunkId}`;
+}
+
+function splitChunkKey(key: string): { noteId: string; chunkId: string } {
+  const i = key.indexOf('#');
+  return { noteId: key.slice(0, i), chunkId: key.slice(i + 1) };
+}
+
+function filePath(kind: Kind): string {
+  return path.join(ANN_DIR, `${kind}.hnsw`);
+}
+
+function loadIndex(kind: Kind): HnswIndex | null {
+  try {
+    if (!fs.existsSync(filePath(kind))) return null;
+    return HnswIndex.deserialize(fs.readFileSync(filePath(kind)));
+  } catch (e) {
+    console.warn(`[ann] could not load ${kind} index; rebuilding`, e);
+    return null;
+  }
+}
+
+function sameVector(a: Float32Array, b: Float32Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false;
+  return true;
+}
+
+// Most common dimension among the stored vectors; the index only holds vectors of that size
+function dominantDim(rows: Array<{ vec: Float32Array }>): number {
+  const counts = new Map<number, number>();
+  for (const r of rows) counts.set(r.vec.length, (counts.get(r.vec.length) ?? 0) + 1);
+  let best = 0;
+  let bestCount = 0;
+  for (const [dim, count] of counts) {
+    if (count > bestCount) {
+      best = dim;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Bring an index (possibly loaded from disk) in line with the rows currently in the database
+function syncIndex(index: HnswIndex | null, rows: Array<{ key: string; vec: Float32Array }>): { index: HnswIndex | null; changed: boolean } {
+  const dim = dominantDim(rows);
+  if (!dim) return { index: null, changed: index !== null };
+  let changed = false;
+  if (!index || index.dim !== dim) {
+    index = new HnswIndex(dim);
+    changed = true;
+  }
+  const live = new Set<string>();
+  for (const r of rows) {
+    if (r.vec.length !== dim) continue;
+    live.add(r.key);
+    const cur = index.getVector(r.key);
+    if (cur && sameVector(cur, r.vec)) continue;
+    index.add(r.key, r.vec);
+    changed = true;
+  }
+  for (const key of index.keys()) {
+    if (live.has(key)) continue;
+    index.remove(key);
+    changed = true;
+  }
+  return { index, changed };
+}
+
+function rebuildChunkOwners(s: AnnState) {
+  s.chunkKeysByNote = new Map();
+  for (const key of s.chunks?.keys() ?? []) {
+    const { noteId } = splitChunkKey(key);
+    const set = s.chunkKeysByNote.get(noteId);
+    if (set) set.add(key);
+    else s.chunkKeysByNote.set(noteId, new Set([key]));
+  }
+}
+
+function maybeCompact(index: HnswIndex | null): HnswIndex | null {
+  if (!index) return null;
+  const total = index.size + index.tombstones;
+  return total > 0 && index.tombstones / total > COMPACT_RATIO ? index.compact() : index;
+}
+
+function saveNow() {
+  const s = state();
+  if (s.saveTimer) {
+    clearTimeout(s.saveTimer);
+    s.saveTimer = undefined;
+  }
+  try {
+    fs.mkdirSync(ANN_DIR, { recursive: true });
+    for (const kind of Array.from(s.dirty)) {
+      s[kind] = maybeCompact(s[kind]);
+      const index = s[kind];
+      const file = filePath(kind);
+      if (!index) {
+        if (fs.existsSync(file)) fs.unlinkSync(file);
+      } else {
+        fs.writeFileSync(`${file}.tmp`, index.serialize());
+        fs.renameSync(`${file}.tmp`, file);
+      }
+    }
+    s.dirty.clear();
+  } catch (e) {
+    console.error('[ann] failed to persist index', e);
+  }
+}
+
+function scheduleSave(kind: Kind) {
+  const s = state();
+  s.dirty.add(kind);
+  if (s.saveTimer) return;
+  s.saveTimer = setTimeout(saveNow, SAVE_DELAY_MS);
+  s.saveTimer.unref?.();
+}
+
+// Load persisted indexes, reconcile them with stored embeddings and save any changes.
+// Guarded so dev reloads do not rebuild repeatedly.
+export function startAnnIndex() {
+  const s = state();
+  if (s.ready) return;
+  const started = Date.now();
+  const active = activeEmbeddingModel();
+
+  const noteRows = db
+    .select({ id: notes.id, embedding: notes.embedding })
+    .from(notes)
+    .where(and(isNotNull(notes.embedding), currentVectorCondition(notes, active)))
+    .all()
+    .flatMap((r) => {
+      const vec = fromBlob(r.embedding);
+      return vec ? [{ key: r.id, vec: new Float32Array(vec) }] : [];
+    });
+  const chunkRows = db
+    .select({ id: noteChunks.id, noteId: noteChunks.noteId, embedding: noteChunks.embedding })
+    .from(noteChunks)
+    .where(and(isNotNull(noteChunks.embedding), currentVectorCondition(noteChunks, active)))
+    .all()
+    .flatMap((r) => {
+      const vec = fromBlob(r.embedding);
+      return vec ? [{ key: chunkKey(r.noteId, r.id), vec: new Float32Array(vec) }] : [];
+    });
+
+  const n = syncIndex(loadIndex('notes'), noteRows);
+  const c = syncIndex(loadIndex('chunks'), chunkRows);
+  s.notes = n.index;
+  s.chunks = c.index;
+  rebuildChunkOwners(s);
+  s.ready = true;
+  if (n.changed) s.dirty.add('notes');
+  if (c.changed) s.dirty.add('chunks');
+  if (s.dirty.size > 0) saveNow();
+  try {
+    console.log(`[ann] ready in ${Date.now() - started}ms: ${s.notes?.size ?? 0} note vectors, ${s.chunks?.size ?? 0} chunk vectors`);
+  } catch {}
+}
+
+// Re-sync both indexes with the database, e.g. after the active embedding model changed
+export function reloadAnnIndex() {
+  const s = state();
+  if (!s.ready) return;
+  s.ready = false;
+  startAnnIndex();
+}
+
+export function annReady(): boolean {
+  return state().ready;
+}
+
+function ensureIndex(kind: Kind, dim: number): HnswIndex | null {
+  const s = state();
+  const index = s[kind] ?? (s[kind] = new HnswIndex(dim));
+  if (index.dim !== dim) {
+    // Vectors from a different model; keep the existing index consistent and skip this one
+    console.warn(`[ann] skipping ${dim}-dim vector for ${kind} index of dim ${index.dim}`);
+    return null;
+  }
+  return index;
+}
+
+// Called after a note's own embedding is written
+export function annUpsertNote(noteId: string, vec: Float32Array) {
+  const s = state();
+  if (!s.ready) return;
+  const index = ensureIndex('notes', vec.length);
+  if (!index) return;
+  index.add(noteId, new Float32Array(vec));
+  scheduleSave('notes');
+}
+
+// Called after a note's chunks are rewritten; replaces all of the note's chunk vectors
+export function annReplaceChunks(noteId: string, chunks: Array<{ id: string; vec: Float32Array }>) {
+  const s = state();
+  if (!s.ready) return;
+  const prev = s.chunkKeysByNote.get(noteId);
+  if (prev && s.chunks) for (const key of prev) s.chunks.remove(key);
+  const next = new Set<string>();
+  for (const ch of chunks) {
+    const index = ensureIndex('chunks', ch.vec.length);
+    if (!index) continue;
+    const key = chunkKey(noteId, ch.id);
+    index.add(key, new Float32Array(ch.vec));
+    next.add(key);
+  }
+  if (next.size > 0) s.chunkKeysByNote.set(noteId, next);
+  else s.chunkKeysByNote.delete(noteId);
+  if (prev || next.size > 0) scheduleSave('chunks');
+}
+
+// Called when a note is permanently deleted
+export function annRemoveNote(noteId: string) {
+  const s = state();
+  if (!s.ready) return;
+  if (s.notes?.remove(noteId)) scheduleSave('notes');
+  annReplaceChunks(noteId, []);
+}
+
+export function annHasChunks(noteId: string): boolean {
+  return state().chunkKeysByNote.has(noteId);
+}
+
+// Top-k notes by their note-level vector; null when the index cannot answer this query
+export function annSearchNotes(query: Float32Array, k: number): AnnNoteHit[] | null {
+  const s = state();
+  if (!s.ready || !s.notes || s.notes.dim !== query.length) return null;
+  return s.notes.search(query, k).map((h) => ({ noteId: h.key, score: h.score }));
+}
+
+// Top-k chunks; null when the index cannot answer this query
+export function annSearchChunks(query: Float32Array, k: number): AnnChunkHit[] | null {
+  const s = state();
+  if (!s.ready || !s.chunks || s.chunks.dim !== query.length) return null;
+  return s.chunks.search(query, k).map((h) => ({ ...splitChunkKey(h.key), score: h.score }));
+}
+
+// Link candidate generation: best similarity per note over chunk and note-level neighbours
+// of every query vector. Null when neither index can answer.
+export function annNeighborNotes(queries: Float32Array[], k: number): Map<string, number> | null {
+  const out = new Map<string, number>();
+  let answered = false;
+  for (const q of queries) {
+    const chunkHits = annSearchChunks(q, k);
+    const noteHits = annSearchNotes(q, k);
+    if (chunkHits || noteHits) answered = true;
+    for (const h of chunkHits ?? []) out.set(h.noteId, Math.max(out.get(h.noteId) ?? -Infinity, h.score));
+    for (const h of noteHits ?? []) out.set(h.noteId, Math.max(out.get(h.noteId) ?? -Infinity, h.score));
+  }
+  return answered ? out : null;
+}
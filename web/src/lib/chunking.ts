@@ -5,8 +5,8 @@
 export type Chunk = {
   ord: number;        // 0-based order
   text: string;       // chunk text
-  startIndex: number; // char offset in original
-  endIndex: number;   // char offset in original (exclusive)
+  startIndex: number; // char offset in the whitespace-collapsed input
+  endIndex: number;   // char offset in the whitespace-collapsed input (exclusive)
 };
 
 export type ChunkingOptions = {
@@ -54,9 +54,12 @@ export function chunkText(
       }
     }
 
-    const slice = text.slice(start, end).trim();
+    const raw = text.slice(start, end);
+    const slice = raw.trim();
     if (slice) {
-      chunks.push({ ord, text: slice, startIndex: start, endIndex: end });
+      // Offsets point at the trimmed slice so text === normalized.slice(startIndex, endIndex)
+      const lead = raw.length - raw.trimStart().length;
+      chunks.push({ ord, text: slice, startIndex: start + lead, endIndex: start + lead + slice.length });
       ord++;
     }
 
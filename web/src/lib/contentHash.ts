@@ -0,0 +1,7 @@
+import { createHash } from 'crypto';
+
+// Stable fingerprint of text fed to the processing pipeline (note bodies and chunks), used to
+// skip work whose input has not changed
+export function contentHash(text: string): string {
+  return createHash('sha256').update(text, 'utf8').digest('hex');
+}
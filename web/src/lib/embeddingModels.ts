@@ -0,0 +1,164 @@
+// Embedding model registry. Exactly one model is active: it embeds new content and queries, and
+// only vectors it produced are compared with each other. Switching models goes through a
+// background reindex (lib/reindex.ts), so the old vectors stay usable until the switch-over.
+import { db, embeddingModels, notes, noteChunks, type EmbeddingModel } from '@/db/client';
+import { randomUUID } from 'crypto';
+import { and, desc, eq, isNotNull, isNull, or, sql, type SQL } from 'drizzle-orm';
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { configuredEmbeddingModel, getEmbeddingProvider } from './embeddingProvider';
+
+export type ActiveEmbeddingModel = { id: string; provider: string; name: string; version: string | null; dim: number | null };
+
+// The active model returned vectors of a different size than the ones stored for it
+export class EmbeddingDimensionMismatch extends Error {}
+
+export function listEmbeddingModels(): EmbeddingModel[] {
+  return db.select().from(embeddingModels).orderBy(desc(embeddingModels.createdAt)).all();
+}
+
+export function getEmbeddingModel(id: string): EmbeddingModel | null {
+  return db.select().from(embeddingModels).where(eq(embeddingModels.id, id)).all()[0] ?? null;
+}
+
+// Whether any note or chunk vector is stored; once true it stays true for the process
+function hasStoredVectors(): boolean {
+  const g = global as typeof globalThis & { __hasStoredVectors?: boolean };
+  if (g.__hasStoredVectors) return true;
+  const found = !!db.get(sql`
+    SELECT 1 FROM notes WHERE embedding IS NOT NULL
+    UNION ALL SELECT 1 FROM note_chunks WHERE embedding IS NOT NULL
+    LIMIT 1
+  `);
+  if (found) g.__hasStoredVectors = true;
+  return found;
+}
+
+export function activeEmbeddingModel(): ActiveEmbeddingModel {
+  const row = db.select().from(embeddingModels).where(eq(embeddingModels.status, 'active')).all()[0];
+  if (row) {
+    // Nothing embedded yet: follow the configuration instead of requiring a reindex
+    const configured = configuredEmbeddingModel();
+    if ((configured.provider !== row.provider || configured.name !== row.name) && !hasStoredVectors()) {
+      db.update(embeddingModels)
+        .set({ provider: configured.provider, name: configured.name, version: null, dim: null, updatedAt: new Date().toISOString() })
+        .where(eq(embeddingModels.id, row.id))
+        .run();
+      return { id: row.id, provider: configured.provider, name: configured.name, version: null, dim: null };
+    }
+    return { id: row.id, provider: row.provider, name: row.name, version: row.version ?? null, dim: row.dim ?? null };
+  }
+  // Registry emptied by hand; fall back to the configured model
+  const now = new Date().toISOString();
+  const id = randomUUID();
+  const { provider, name } = configuredEmbeddingModel();
+  db.insert(embeddingModels)
+    .values({ id, provider, name, status: 'active', createdAt: now, updatedAt: now, activatedAt: now })
+    .run();
+  return { id, provider, name, version: null, dim: null };
+}
+
+// Whether a stored vector can be compared with the active model's vectors
+// (same model name, same version when both are known, same dimension when both are known)
+export function isCurrentVector(
+  row: { embeddingModel?: string | null; embeddingVersion?: string | null; embeddingDim?: number | null },
+  active: ActiveEmbeddingModel = activeEmbeddingModel(),
+): boolean {
+  if (row.embeddingModel !== active.name) return false;
+  if (row.embeddingVersion && active.version && row.embeddingVersion !== active.version) return false;
+  return active.dim == null || row.embeddingDim == null || row.embeddingDim === active.dim;
+}
+
+// SQL form of isCurrentVector for the embedding columns of notes or note_chunks
+export function currentVectorCondition(
+  cols: { embeddingModel: SQLiteColumn; embeddingVersion: SQLiteColumn; embeddingDim: SQLiteColumn },
+  active: ActiveEmbeddingModel = activeEmbeddingModel(),
+): SQL | undefined {
+  return and(
+    eq(cols.embeddingModel, active.name),
+    active.version ? or(isNull(cols.embeddingVersion), eq(cols.embeddingVersion, active.version)) : undefined,
+    active.dim != null ? or(isNull(cols.embeddingDim), eq(cols.embeddingDim, active.dim)) : undefined,
+  );
+}
+
+// Check a freshly computed vector against the dimension recorded for its model.
+// The first vector records the dimension; a different size later means the model changed
+// underneath its name, and its stored vectors are no longer comparable until a reindex.
+export function checkModelDimension(model: ActiveEmbeddingModel, dim: number) {
+  if (model.dim == null) {
+    db.update(embeddingModels)
+      .set({ dim, updatedAt: new Date().toISOString() })
+      .where(eq(embeddingModels.id, model.id))
+      .run();
+    model.dim = dim;
+    return;
+  }
+  if (model.dim !== dim) {
+    throw new EmbeddingDimensionMismatch(
+      `Embedding model ${model.name} returned ${dim}-dim vectors but ${model.dim}-dim vectors are stored; reindex with POST /api/admin/embeddings/reindex`,
+    );
+  }
+}
+
+// Embed texts with a registered model in one provider call, checking every vector's dimension
+export async function embedWithModel(model: ActiveEmbeddingModel, texts: string[]): Promise<number[][]> {
+  const vecs = await getEmbeddingProvider(model.provider).embed(texts, model.name);
+  for (const vec of vecs) checkModelDimension(model, vec.length);
+  return vecs;
+}
+
+// Embed text with the active model
+export async function embedWithActiveModel(text: string): Promise<{ vec: number[]; model: ActiveEmbeddingModel }> {
+  const model = activeEmbeddingModel();
+  const [vec] = await embedWithModel(model, [text]);
+  return { vec, model };
+}
+
+// Stored vectors grouped by model/version/dimension, for spotting leftovers from other models
+export function vectorInventory(): Array<{ kind: 'note' | 'chunk'; model: string | null; version: string | null; dim: number | null; count: number }> {
+  const noteRows = db
+    .select({ model: notes.embeddingModel, version: notes.embeddingVersion, dim: notes.embeddingDim, count: sql<number>`COUNT(*)` })
+    .from(notes)
+    .where(isNotNull(notes.embedding))
+    .groupBy(notes.embeddingModel, notes.embeddingVersion, notes.embeddingDim)
+    .all();
+  const chunkRows = db
+    .select({ model: noteChunks.embeddingModel, version: noteChunks.embeddingVersion, dim: noteChunks.embeddingDim, count: sql<number>`COUNT(*)` })
+    .from(noteChunks)
+    .where(isNotNull(noteChunks.embedding))
+    .groupBy(noteChunks.embeddingModel, noteChunks.embeddingVersion, noteChunks.embeddingDim)
+    .all();
+  return [
+    ...noteRows.map((r) => ({ kind: 'note' as const, ...r })),
+    ...chunkRows.map((r) => ({ kind: 'chunk' as const, ...r })),
+  ];
+}
+
+// Record the installed version of the active model if unknown, and warn when the provider now
+// serves a different version than the one that produced the stored vectors, or when the
+// configuration names another model than the active one. Best-effort.
+export async function syncActiveModelVersion() {
+  const model = activeEmbeddingModel();
+  const configured = configuredEmbeddingModel();
+  if (configured.provider !== model.provider || configured.name !== model.name) {
+    console.warn(
+      `[embeddings] configured ${configured.provider}/${configured.name} but ${model.provider}/${model.name} is active; reindex with POST /api/admin/embeddings/reindex to switch`,
+    );
+  }
+  let installed: string | null = null;
+  try {
+    installed = await getEmbeddingProvider(model.provider).version(model.name);
+  } catch {
+    return;
+  }
+  if (!installed) return;
+  if (!model.version) {
+    db.update(embeddingModels)
+      .set({ version: installed, updatedAt: new Date().toISOString() })
+      .where(eq(embeddingModels.id, model.id))
+      .run();
+    return;
+  }
+  if (model.version !== installed) {
+    console.warn(`[embeddings] ${model.name} is now version ${installed} but stored vectors came from ${model.version}; consider a reindex`);
+  }
+}
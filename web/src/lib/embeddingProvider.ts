@@ -0,0 +1,182 @@
+// Embedding providers. The active model in the registry (lib/embeddingModels.ts) names its
+// provider; EMBEDDING_PROVIDER only picks the default for a fresh database and for reindexing.
+//
+//   ollama  Ollama /api/embed (OLLAMA_HOST, OLLAMA_MODEL)
+//   openai  any OpenAI-compatible /v1/embeddings endpoint, e.g. llama.cpp server or LM Studio
+//           (EMBEDDING_API_BASE, EMBEDDING_API_KEY, EMBEDDING_MODEL)
+//   hashed  built-in deterministic hashed n-gram vectors; no model or network needed
+//           (model name `hashed-<dim>`, HASHED_EMBEDDING_DIM)
+
+export type EmbeddingProviderId = 'ollama' | 'openai' | 'hashed';
+
+export interface EmbeddingProvider {
+  readonly id: EmbeddingProviderId;
+  // One vector per input text, in input order
+  embed(texts: string[], model: string): Promise<number[][]>;
+  // Identifies the exact model build (e.g. a digest); null when the provider cannot tell
+  version(model: string): Promise<string | null>;
+}
+
+export const EMBEDDING_PROVIDER_IDS: EmbeddingProviderId[] = ['ollama', 'openai', 'hashed'];
+
+const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434';
+const OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'nomic-embed-text';
+const OPENAI_API_BASE = (process.env.EMBEDDING_API_BASE || 'http://localhost:8080/v1').replace(/\/+$/, '');
+const OPENAI_API_KEY = process.env.EMBEDDING_API_KEY || '';
+const HASHED_DIM = Math.max(16, Number(process.env.HASHED_EMBEDDING_DIM) || 512);
+// Texts per request when embedding many chunks
+export const EMBEDDING_BATCH_SIZE = Math.max(1, Number(process.env.EMBEDDING_BATCH_SIZE) || 32);
+
+function checkCount(provider: string, got: unknown, expected: number): number[][] {
+  if (!Array.isArray(got) || got.length !== expected || !got.every((v) => Array.isArray(v))) {
+    throw new Error(`Unexpected embedding response from ${provider}`);
+  }
+  return got as number[][];
+}
+
+const ollamaProvider: EmbeddingProvider = {
+  id: 'ollama',
+  async embed(texts, model) {
+    if (texts.length === 0) return [];
+    const res = await fetch(`${OLLAMA_HOST}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, input: texts }),
+    });
+    // Read once: the body tells an old Ollama (no route) from a missing model, and goes into the error
+    const body = res.ok ? '' : await res.text().catch(() => '');
+    if (res.status === 404 && body.includes('404 page not found')) {
+      // Ollama before /api/embed: one request per text
+      const out: number[][] = [];
+      for (const prompt of texts) {
+        const r = await fetch(`${OLLAMA_HOST}/api/embeddings`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model, prompt }),
+        });
+        if (!r.ok) throw new Error(`Ollama embeddings failed: HTTP ${r.status} ${await r.text().catch(() => '')}`);
+        const json = await r.json();
+        out.push(checkCount('Ollama', [json?.embedding], 1)[0]);
+      }
+      return out;
+    }
+    if (!res.ok) throw new Error(`Ollama embeddings failed: HTTP ${res.status} ${body}`);
+    const json = await res.json();
+    return checkCount('Ollama', json?.embeddings, texts.length);
+  },
+  async version(model) {
+    const res = await fetch(`${OLLAMA_HOST}/api/tags`);
+    if (!res.ok) return null;
+    const json = await res.json().catch(() => null);
+    const list: Array<{ name?: string; model?: string; digest?: string }> = Array.isArray(json?.models) ? json.models : [];
+    const wanted = model.includes(':') ? model : `${model}:latest`;
+    const hit = list.find((m) => m.name === model || m.name === wanted || m.model === model || m.model === wanted);
+    return typeof hit?.digest === 'string' ? hit.digest.slice(0, 12) : null;
+  },
+};
+
+const openAiProvider: EmbeddingProvider = {
+  id: 'openai',
+  async embed(texts, model) {
+    if (texts.length === 0) return [];
+    const res = await fetch(`${OPENAI_API_BASE}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(OPENAI_API_KEY ? { Authorization: `Bearer ${OPENAI_API_KEY}` } : {}),
+      },
+      body: JSON.stringify({ model, input: texts }),
+    });
+    if (!res.ok) {
+      const msg = await res.text().catch(() => '');
+      throw new Error(`Embeddings endpoint failed: HTTP ${res.status} ${msg}`);
+    }
+    const json = await res.json();
+    const data: Array<{ index?: number; embedding?: number[] }> = Array.isArray(json?.data) ? [...json.data] : [];
+    data.sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+    return checkCount('embeddings endpoint', data.map((d) => d.embedding), texts.length);
+  },
+  async version() {
+    return null;
+  },
+};
+
+// --- Built-in hashed n-gram vectors ---
+// Word unigrams and bigrams plus character trigrams, hashed into `dim` signed buckets with
+// sublinear term frequency. Deterministic across runs and machines, so similar wording gives
+// similar vectors without any model.
+
+function fnv1a(s: string, seed = 0x811c9dc5): number {
+  let h = seed >>> 0;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+function hashedDim(model: string): number {
+  const m = /^hashed-(\d+)$/.exec(model);
+  return m ? Math.max(16, Number(m[1])) : HASHED_DIM;
+}
+
+export function hashedEmbedding(text: string, dim: number): number[] {
+  const counts = new Map<string, number>();
+  const add = (f: string) => counts.set(f, (counts.get(f) ?? 0) + 1);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  for (let i = 0; i < words.length; i++) {
+    add(`w:${words[i]}`);
+    if (i > 0) add(`b:${words[i - 1]} ${words[i]}`);
+    const padded = ` ${words[i]} `;
+    for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`);
+  }
+  const vec = new Array<number>(dim).fill(0);
+  for (const [f, tf] of counts) {
+    const h = fnv1a(f);
+    const sign = fnv1a(f, 0x9747b28c) & 1 ? 1 : -1;
+    // Word features carry more meaning than character trigrams
+    const weight = f.startsWith('c:') ? 0.5 : 1;
+    vec[h % dim] += sign * weight * (1 + Math.log(tf));
+  }
+  return vec;
+}
+
+const hashedProvider: EmbeddingProvider = {
+  id: 'hashed',
+  async embed(texts, model) {
+    const dim = hashedDim(model);
+    return texts.map((t) => hashedEmbedding(t, dim));
+  },
+  async version() {
+    return 'v1';
+  },
+};
+
+const providers: Record<EmbeddingProviderId, EmbeddingProvider> = {
+  ollama: ollamaProvider,
+  openai: openAiProvider,
+  hashed: hashedProvider,
+};
+
+export function isEmbeddingProviderId(value: string): value is EmbeddingProviderId {
+  return (EMBEDDING_PROVIDER_IDS as string[]).includes(value);
+}
+
+export function getEmbeddingProvider(id: string): EmbeddingProvider {
+  if (!isEmbeddingProviderId(id)) throw new Error(`Unknown embedding provider: ${id}`);
+  return providers[id];
+}
+
+// Model used with a provider when none is named
+export function defaultEmbeddingModelName(provider: EmbeddingProviderId): string {
+  if (provider === 'hashed') return `hashed-${HASHED_DIM}`;
+  if (provider === 'openai') return 'text-embedding';
+  return OLLAMA_MODEL;
+}
+
+// Provider and model from configuration (EMBEDDING_PROVIDER, EMBEDDING_MODEL)
+export function configuredEmbeddingModel(): { provider: EmbeddingProviderId; name: string } {
+  const raw = (process.env.EMBEDDING_PROVIDER || 'ollama').toLowerCase();
+  const provider: EmbeddingProviderId = isEmbeddingProviderId(raw) ? raw : 'ollama';
+  return { provider, name: process.env.EMBEDDING_MODEL || defaultEmbeddingModelName(provider) };
+}
@@ -1,22 +1,4 @@
-const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434';
-const OLLAMA_MODEL = process.env.OLLAMA_MODEL || 'nomic-embed-text';
-
-export async function embedTextWithOllama(text: string): Promise<number[]> {
-  const res = await fetch(`${OLLAMA_HOST}/api/embeddings`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ model: OLLAMA_MODEL, prompt: text })
-  });
-  if (!res.ok) {
-    const msg = await res.text().catch(() => '');
-    throw new Error(`Ollama embeddings failed: HTTP ${res.status} ${msg}`);
-  }
-  const json = await res.json();
-  if (!json || !Array.isArray(json.embedding)) {
-    throw new Error('Unexpected embedding response from Ollama');
-  }
-  return json.embedding as number[];
-}
+// Text preparation for embeddings; the vectors themselves come from lib/embeddingProvider.ts
 
 export function extractPlainTextFromTiptap(doc: unknown): string {
   try {
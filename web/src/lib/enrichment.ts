@@ -0,0 +1,86 @@
+// Note enrichment: title, tags and weighted entities from one LLM call per note.
+// Notes longer than the model context (ENRICH_MAX_CHARS) are split into sections that are
+// enriched separately and then merged (map-reduce). The per-field generators in title.ts,
+// tags.ts and entities.ts remain the fallback when enrichment fails.
+import { z } from 'zod';
+import { generateJson } from './llm';
+import { chunkText } from './chunking';
+import { normalizeTags, ruleBasedTags } from './tags';
+import { aggregateEntities, normalizeEntityName, ruleBasedEntities, type Entity } from './entities';
+import { fallbackTitleFromText, generateTitleFromText } from './title';
+
+const OLLAMA_ENRICH_MODEL = process.env.OLLAMA_ENRICH_MODEL || process.env.OLLAMA_TAGGER_MODEL || 'qwen2.5:3b-instruct';
+// Note text (characters) sent in one prompt; roughly 1500 tokens, which leaves room for the
+// instructions and the reply in a 2048-token context
+const ENRICH_MAX_CHARS = Math.max(1000, Number(process.env.ENRICH_MAX_CHARS) || 6000);
+const MAX_TAGS = 7;
+
+export type Enrichment = { title: string; tags: string[]; entities: Entity[] };
+
+const ENRICH_PROMPT = `You are an assistant that indexes personal notes. For the text below return:
+- "title": a concise, descriptive title (max 8 words)
+- "tags": 3–7 specific, reusable topic tags in kebab-case (1–3 words each). Prefer domain-specific noun
+  phrases and named entities; avoid generic words such as "note", "question" or "example"; collapse
+  synonyms to the canonical form ("js"→"javascript")
+- "entities": named entities, key concepts and proper nouns, lowercase and hyphenated, each with an
+  importance weight 1-3. Do not include dates, times, plain numbers or generic headings
+Return only JSON: {"title":"...","tags":["..."],"entities":[{"entity":"...","weight":1}]}`;
+
+const EnrichmentReply = z.object({
+  title: z.string(),
+  tags: z.array(z.string()),
+  entities: z.array(z.object({
+    entity: z.string().optional(),
+    name: z.string().optional(),
+    weight: z.coerce.number().optional(),
+  })),
+});
+
+async function enrichSection(text: string, signal?: AbortSignal): Promise<Enrichment> {
+  const reply = await generateJson({
+    task: 'enrich',
+    prompt: `${ENRICH_PROMPT}\n\nText:\n"""\n${text}\n"""`,
+    schema: EnrichmentReply,
+    model: OLLAMA_ENRICH_MODEL,
+    rules: () => ({ title: fallbackTitleFromText(text), tags: ruleBasedTags(text), entities: ruleBasedEntities(text) }),
+    temperature: 0.2,
+    signal,
+  });
+  const entities: Entity[] = [];
+  for (const it of reply.entities) {
+    const key = normalizeEntityName(it.entity ?? it.name ?? '');
+    if (!key) continue;
+    entities.push({ entity: key, weight: Math.max(0, Math.min(10, Number(it.weight) || 1)), source: 'ner' });
+  }
+  return {
+    title: (reply.title.trim() || fallbackTitleFromText(text)).slice(0, 80),
+    tags: normalizeTags(reply.tags).slice(0, MAX_TAGS),
+    entities,
+  };
+}
+
+// Title, tags and entities for a note body. Throws when the LLM call fails; callers fall back to
+// the per-field generators.
+export async function enrichNote(text: string, opts?: { signal?: AbortSignal }): Promise<Enrichment> {
+  if (text.length <= ENRICH_MAX_CHARS) return enrichSection(text, opts?.signal);
+
+  // Map: enrich each section on its own
+  const sections = chunkText(text, { targetTokens: Math.floor(ENRICH_MAX_CHARS / 4), overlapTokens: 0, maxCharsPerChunk: ENRICH_MAX_CHARS });
+  const parts: Enrichment[] = [];
+  for (const s of sections) parts.push(await enrichSection(s.text, opts?.signal));
+
+  // Reduce: tags by how many sections produced them, entities summed, one title over the section titles
+  const tagCounts = new Map<string, number>();
+  for (const p of parts) for (const t of p.tags) tagCounts.set(t, (tagCounts.get(t) ?? 0) + 1);
+  const tags = Array.from(tagCounts.keys())
+    .sort((a, b) => tagCounts.get(b)! - tagCounts.get(a)!)
+    .slice(0, MAX_TAGS);
+  const entities = aggregateEntities(parts.flatMap((p) => p.entities)).map((e) => ({ ...e, source: 'ner' }));
+  let title = parts[0].title;
+  try {
+    title = await generateTitleFromText(`${parts.map((p) => p.title).join('\n')}\nTopics: ${tags.join(', ')}`, opts);
+  } catch (e) {
+    console.warn('Title for sectioned note failed; using the first section title', e);
+  }
+  return { title, tags, entities };
+}
@@ -1,5 +1,7 @@
 // Entity utilities: normalization, weighted Jaccard, intersections, extraction
-const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434';
+import { z } from 'zod';
+import { generateJson } from './llm';
+
 const OLLAMA_TAGGER_MODEL = process.env.OLLAMA_TAGGER_MODEL || 'qwen2.5:3b-instruct';
 
 export type Entity = {
@@ -57,44 +59,47 @@ export function topIntersect(A: Map<string, number>, B: Map<string, number>, lim
   return out.slice(0, limit).map((x) => x.k);
 }
 
-function extractJsonObject(text: string): any | null {
-  const match = text.match(/\{[\s\S]*\}/);
-  if (!match) return null;
-  try { return JSON.parse(match[0]); } catch { return null; }
-}
+const EntitiesReply = z.object({
+  entities: z.array(z.object({
+    entity: z.string().optional(),
+    name: z.string().optional(),
+    weight: z.coerce.number().optional(),
+  })),
+});
 
-// Extract entities with rough weights from text using an instruction-tuned model
-export async function generateEntitiesFromText(text: string): Promise<Entity[]> {
-  const prompt = `Extract named entities, key concepts, and proper nouns with a small importance weight (1-3).
+const ENTITY_PROMPT = `Extract named entities, key concepts, and proper nouns with a small importance weight (1-3).
   Return JSON only in the format: {"entities":[{"entity":"...","weight":1}, ...]}
   Rules:
   - lowercase, hyphenate spaces/underscores, no punctuation except hyphens
-  - DO NOT include dates, times, plain numbers, or generic headings (e.g., "key-concepts", "note-title", "date")`;  
-  const body = {
-    model: OLLAMA_TAGGER_MODEL,
-    prompt: `${prompt}\n\nText:\n"""\n${text}\n"""`,
-    stream: false,
-    options: { temperature: 0.2 },
-    format: 'json',
-  } as const;
+  - DO NOT include dates, times, plain numbers, or generic headings (e.g., "key-concepts", "note-title", "date")`;
 
-  const res = await fetch(`${OLLAMA_HOST}/api/generate`, {
-    method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body)
-  });
-  if (!res.ok) {
-    const msg = await res.text().catch(() => '');
-    throw new Error(`Ollama entity extraction failed: HTTP ${res.status} ${msg}`);
+// Capitalized phrases, acronyms and camelCase identifiers, for the 'rules' LLM provider.
+// Capitalized words that only start a sentence are skipped.
+export function ruleBasedEntities(text: string): Array<{ entity: string; weight: number }> {
+  const counts = new Map<string, number>();
+  const pattern = /\b(?:[A-Z][a-z0-9]+[A-Z][A-Za-z0-9]*|[A-Z][a-z0-9]+(?:\s+[A-Z][a-z0-9]+)+|[A-Z]{2,}[a-z0-9]*|[a-z]+[A-Z][A-Za-z0-9]*|[A-Z][a-z0-9]+)\b/g;
+  for (const m of text.matchAll(pattern)) {
+    const before = text.slice(0, m.index).trimEnd();
+    if (/^[A-Z][a-z0-9]+$/.test(m[0]) && (before === '' || /[.!?:\n]$/.test(before))) continue;
+    counts.set(m[0], (counts.get(m[0]) ?? 0) + 1);
   }
-  const json = await res.json().catch(() => ({} as any));
-  const raw = json?.response ?? '';
-  let parsed: any | null = null;
-  try { parsed = JSON.parse(raw); } catch { parsed = extractJsonObject(raw); }
-  const items = Array.isArray(parsed?.entities) ? parsed.entities : [];
+  return Array.from(counts.entries()).map(([entity, n]) => ({ entity, weight: Math.min(3, n) }));
+}
+
+// Extract entities with rough weights from text using an instruction-tuned model
+export async function generateEntitiesFromText(text: string, opts?: { signal?: AbortSignal }): Promise<Entity[]> {
+  const reply = await generateJson({
+    task: 'entities',
+    prompt: `${ENTITY_PROMPT}\n\nText:\n"""\n${text}\n"""`,
+    schema: EntitiesReply,
+    model: OLLAMA_TAGGER_MODEL,
+    rules: () => ({ entities: ruleBasedEntities(text) }),
+    temperature: 0.2,
+    signal: opts?.signal,
+  });
   const out: Entity[] = [];
-  for (const it of items) {
-    if (!it) continue;
-    const name = typeof it.entity === 'string' ? it.entity : (typeof it.name === 'string' ? it.name : '');
-    const key = normalizeEntityName(name);
+  for (const it of reply.entities) {
+    const key = normalizeEntityName(it.entity ?? it.name ?? '');
     if (!key) continue;
     const w = Math.max(0, Math.min(10, Number(it.weight) || 1));
     out.push({ entity: key, weight: w, source: 'ner' });
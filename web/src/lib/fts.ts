@@ -0,0 +1,111 @@
+// Keyword search over notes via the notes_fts FTS5 table. Works without any model running.
+import { db } from '@/db/client';
+import { sql, type SQL } from 'drizzle-orm';
+import { extractPlainTextFromTiptap } from './embeddings';
+
+export type KeywordHit = {
+  id: string;
+  title: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+  score: number;          // -bm25, higher is better
+  titleHighlight: string; // title with matches wrapped in HIGHLIGHT_OPEN/HIGHLIGHT_CLOSE
+  snippet: string;        // best-matching excerpt, same markers
+};
+
+export const HIGHLIGHT_OPEN = '<mark>';
+export const HIGHLIGHT_CLOSE = '</mark>';
+
+type Runner = Pick<typeof db, 'run'>;
+
+// Replace a note's row in the index (call after title/content are saved)
+export function indexNoteText(noteId: string, title: string | null | undefined, contentJson: string | null | undefined, runner: Runner = db) {
+  let doc: unknown = null;
+  try { doc = contentJson ? JSON.parse(contentJson) : null; } catch {}
+  const body = doc ? extractPlainTextFromTiptap(doc) : '';
+  runner.run(sql`DELETE FROM notes_fts WHERE note_id = ${noteId}`);
+  runner.run(sql`INSERT INTO notes_fts (note_id, title, body) VALUES (${noteId}, ${title ?? ''}, ${body})`);
+}
+
+export function removeNoteText(noteId: string, runner: Runner = db) {
+  runner.run(sql`DELETE FROM notes_fts WHERE note_id = ${noteId}`);
+}
+
+function quoteTerm(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+// Translate user input into an FTS5 MATCH expression.
+//   word      -> "word"          (quoted so identifiers like E-1042 or foo.bar match literally)
+//   word*     -> "word"*         prefix
+//   "a b"     -> "a b"           phrase
+//   AND OR NOT (uppercase) are passed through; -word is shorthand for NOT word.
+// Dangling operators are dropped. Returns null when nothing searchable remains.
+export function toFtsQuery(input: string): string | null {
+  const parts: string[] = [];
+  const re = /"([^"]*)"|(\S+)/g;
+  let m: RegExpExecArray | null;
+  const lastIsTerm = () => parts.length > 0 && !['AND', 'OR', 'NOT'].includes(parts[parts.length - 1]);
+  while ((m = re.exec(input)) !== null) {
+    if (m[1] !== undefined) {
+      const phrase = m[1].trim();
+      if (/[\p{L}\p{N}]/u.test(phrase)) parts.push(quoteTerm(phrase));
+      continue;
+    }
+    let token = m[2];
+    if (token === 'AND' || token === 'OR' || token === 'NOT') {
+      if (lastIsTerm()) parts.push(token);
+      continue;
+    }
+    let negate = false;
+    if (token.startsWith('-') && token.length > 1) {
+      negate = true;
+      token = token.slice(1);
+    }
+    const prefix = token.endsWith('*');
+    const word = token.replace(/\*+$/, '').replace(/"/g, '');
+    if (!/[\p{L}\p{N}]/u.test(word)) continue;
+    if (negate) {
+      if (!lastIsTerm()) continue; // FTS5 NOT is binary; nothing to subtract from
+      parts.push('NOT');
+    }
+    parts.push(prefix ? `${quoteTerm(word)}*` : quoteTerm(word));
+  }
+  while (parts.length > 0 && !lastIsTerm()) parts.pop();
+  return parts.length > 0 ? parts.join(' ') : null;
+}
+
+// Ranked keyword search over non-trashed notes; title matches weigh more than body matches.
+// `where` may add conditions on the notes table (see lib/search.ts filters).
+export function keywordSearch(query: string, limit = 20, where?: SQL): KeywordHit[] {
+  const match = toFtsQuery(query);
+  if (!match) return [];
+  const rows = db.all<{
+    id: string;
+    title: string;
+    createdAt: string | null;
+    updatedAt: string | null;
+    rank: number;
+    titleHighlight: string;
+    snippet: string;
+  }>(sql`
+    SELECT notes.id AS id, notes.title AS title, notes.created_at AS createdAt, notes.updated_at AS updatedAt,
+           bm25(notes_fts, 0.0, 10.0, 1.0) AS rank,
+           highlight(notes_fts, 1, ${HIGHLIGHT_OPEN}, ${HIGHLIGHT_CLOSE}) AS titleHighlight,
+           snippet(notes_fts, 2, ${HIGHLIGHT_OPEN}, ${HIGHLIGHT_CLOSE}, '…', 16) AS snippet
+    FROM notes_fts
+    JOIN notes ON notes.id = notes_fts.note_id
+    WHERE notes_fts MATCH ${match} AND notes.deleted_at IS NULL${where ? sql` AND ${where}` : sql``}
+    ORDER BY rank
+    LIMIT ${limit}
+  `);
+  return rows.map((r) => ({
+    id: r.id,
+    title: r.title,
+    createdAt: r.createdAt ?? null,
+    updatedAt: r.updatedAt ?? null,
+    score: -r.rank,
+    titleHighlight: r.titleHighlight ?? r.title,
+    snippet: r.snippet ?? '',
+  }));
+}
@@ -0,0 +1,148 @@
+// Serializers for the note link graph returned by GET /api/links:
+//   text     "TitleA->TitleB" per edge (the original format)
+//   json     { nodes, edges } with ids, scores, decisions and shared tags/entities
+//   graphml  GraphML for Gephi, yEd or networkx; edge features as numeric attributes
+//   dot      Graphviz digraph; soft links dashed, stronger links drawn thicker
+import type { FeatureScores } from './linkScoring';
+
+export const GRAPH_FORMATS = ['text', 'json', 'graphml', 'dot'] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export type GraphNode = {
+  id: string;
+  title: string;
+  spaceId: string | null;
+  tags: string[];
+  // Heaviest entities first
+  entities: string[];
+};
+
+export type GraphEdge = {
+  source: string;
+  target: string;
+  score: number;
+  decision: 'hard' | 'soft';
+  features: FeatureScores;
+  sharedTags: string[];
+  sharedEntities: string[];
+};
+
+export type LinkGraph = { nodes: GraphNode[]; edges: GraphEdge[] };
+
+export const GRAPH_CONTENT_TYPES: Record<GraphFormat, string> = {
+  text: 'text/plain; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  graphml: 'application/graphml+xml; charset=utf-8',
+  dot: 'text/vnd.graphviz; charset=utf-8',
+};
+
+export function isGraphFormat(value: string): value is GraphFormat {
+  return (GRAPH_FORMATS as readonly string[]).includes(value);
+}
+
+const FEATURE_ATTRS: Array<keyof FeatureScores> = ['semantic', 'entity_score', 'tag_score', 'reference_score', 'temporal_score', 'session_score'];
+
+function round(n: number): number {
+  return Number(n.toFixed(4));
+}
+
+export function graphToText(g: LinkGraph): string {
+  const titles = new Map(g.nodes.map((n) => [n.id, n.title || n.id]));
+  return g.edges.map((e) => `${titles.get(e.source) ?? e.source}->${titles.get(e.target) ?? e.target}`).join('\n');
+}
+
+export function graphToJson(g: LinkGraph): string {
+  return JSON.stringify({
+    directed: true,
+    nodes: g.nodes,
+    edges: g.edges.map((e) => ({
+      ...e,
+      score: round(e.score),
+      features: Object.fromEntries(FEATURE_ATTRS.map((k) => [k, round(e.features[k])])),
+    })),
+  });
+}
+
+function xmlEscape(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab/newline are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+export function graphToGraphML(g: LinkGraph): string {
+  const out: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="title" for="node" attr.name="title" attr.type="string"/>',
+    '  <key id="space" for="node" attr.name="space" attr.type="string"/>',
+    '  <key id="tags" for="node" attr.name="tags" attr.type="string"/>',
+    '  <key id="entities" for="node" attr.name="entities" attr.type="string"/>',
+    '  <key id="score" for="edge" attr.name="score" attr.type="double"/>',
+    '  <key id="decision" for="edge" attr.name="decision" attr.type="string"/>',
+    '  <key id="shared_tags" for="edge" attr.name="shared_tags" attr.type="string"/>',
+    '  <key id="shared_entities" for="edge" attr.name="shared_entities" attr.type="string"/>',
+    ...FEATURE_ATTRS.map((k) => `  <key id="${k}" for="edge" attr.name="${k}" attr.type="double"/>`),
+    '  <graph id="links" edgedefault="directed">',
+  ];
+  for (const n of g.nodes) {
+    out.push(`    <node id="${xmlEscape(n.id)}">`);
+    out.push(`      <data key="title">${xmlEscape(n.title)}</data>`);
+    if (n.spaceId) out.push(`      <data key="space">${xmlEscape(n.spaceId)}</data>`);
+    if (n.tags.length > 0) out.push(`      <data key="tags">${xmlEscape(n.tags.join(';'))}</data>`);
+    if (n.entities.length > 0) out.push(`      <data key="entities">${xmlEscape(n.entities.join(';'))}</data>`);
+    out.push('    </node>');
+  }
+  g.edges.forEach((e, i) => {
+    out.push(`    <edge id="e${i}" source="${xmlEscape(e.source)}" target="${xmlEscape(e.target)}">`);
+    out.push(`      <data key="score">${round(e.score)}</data>`);
+    out.push(`      <data key="decision">${e.decision}</data>`);
+    if (e.sharedTags.length > 0) out.push(`      <data key="shared_tags">${xmlEscape(e.sharedTags.join(';'))}</data>`);
+    if (e.sharedEntities.length > 0) out.push(`      <data key="shared_entities">${xmlEscape(e.sharedEntities.join(';'))}</data>`);
+    for (const k of FEATURE_ATTRS) out.push(`      <data key="${k}">${round(e.features[k])}</data>`);
+    out.push('    </edge>');
+  });
+  out.push('  </graph>', '</graphml>');
+  return out.join('\n');
+}
+
+function dotString(s: string): string {
+  return `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+}
+
+export function graphToDot(g: LinkGraph): string {
+  const out: string[] = ['digraph links {', '  node [shape=box, style=rounded];'];
+  for (const n of g.nodes) {
+    out.push(`  ${dotString(n.id)} [label=${dotString(n.title || n.id)}];`);
+  }
+  for (const e of g.edges) {
+    const attrs = [
+      `score=${round(e.score)}`,
+      `label=${dotString(e.score.toFixed(2))}`,
+      `penwidth=${(1 + 2 * e.score).toFixed(2)}`,
+      `decision=${e.decision}`,
+      e.decision === 'soft' ? 'style=dashed' : 'style=solid',
+    ];
+    if (e.sharedTags.length > 0) attrs.push(`tooltip=${dotString(e.sharedTags.join(', '))}`);
+    out.push(`  ${dotString(e.source)} -> ${dotString(e.target)} [${attrs.join(', ')}];`);
+  }
+  out.push('}');
+  return out.join('\n');
+}
+
+export function serializeGraph(g: LinkGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'json':
+      return graphToJson(g);
+    case 'graphml':
+      return graphToGraphML(g);
+    case 'dot':
+      return graphToDot(g);
+    default:
+      return graphToText(g);
+  }
+}
@@ -0,0 +1,288 @@
+// Hierarchical Navigable Small World graph for approximate nearest-neighbour search
+// (Malkov & Yashunin). Vectors are expected to be L2-normalized, so similarity is the dot product.
+// Removal marks nodes as deleted: they stay traversable but are never returned; compact() drops them.
+import { dot } from './vectors';
+
+export type HnswOptions = {
+  M?: number;              // links per node on upper layers (layer 0 keeps 2*M)
+  efConstruction?: number; // candidate list size while inserting
+  efSearch?: number;       // default candidate list size while searching
+};
+
+export type HnswHit = { key: string; score: number };
+
+type Node = { key: string; level: number; neighbors: number[][]; deleted: boolean };
+type Scored = { idx: number; score: number };
+
+// Binary heap ordered by `before(a, b)` (a comes out first)
+class Heap<T> {
+  private items: T[] = [];
+  constructor(private before: (a: T, b: T) => boolean) {}
+  get size() { return this.items.length; }
+  peek(): T | undefined { return this.items[0]; }
+  push(v: T) {
+    const a = this.items;
+    a.push(v);
+    let i = a.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (!this.before(a[i], a[p])) break;
+      [a[i], a[p]] = [a[p], a[i]];
+      i = p;
+    }
+  }
+  pop(): T | undefined {
+    const a = this.items;
+    if (a.length === 0) return undefined;
+    const top = a[0];
+    const last = a.pop() as T;
+    if (a.length > 0) {
+      a[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < a.length && this.before(a[l], a[m])) m = l;
+        if (r < a.length && this.before(a[r], a[m])) m = r;
+        if (m === i) break;
+        [a[i], a[m]] = [a[m], a[i]];
+        i = m;
+      }
+    }
+    return top;
+  }
+}
+
+const MAGIC = 'HNSW1';
+
+export class HnswIndex {
+  readonly dim: number;
+  readonly M: number;
+  readonly efConstruction: number;
+  efSearch: number;
+  private nodes: Node[] = [];
+  private vectors: Float32Array[] = [];
+  private byKey = new Map<string, number>();
+  private entry = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private readonly levelMult: number;
+
+  constructor(dim: number, opts: HnswOptions = {}) {
+    this.dim = dim;
+    this.M = Math.max(2, opts.M ?? 16);
+    this.efConstruction = Math.max(this.M, opts.efConstruction ?? 200);
+    this.efSearch = Math.max(1, opts.efSearch ?? 64);
+    this.levelMult = 1 / Math.log(this.M);
+  }
+
+  // Live (non-deleted) entries
+  get size(): number { return this.nodes.length - this.deletedCount; }
+  get tombstones(): number { return this.deletedCount; }
+
+  has(key: string): boolean { return this.byKey.has(key); }
+  keys(): string[] { return Array.from(this.byKey.keys()); }
+
+  getVector(key: string): Float32Array | null {
+    const idx = this.byKey.get(key);
+    return idx === undefined ? null : this.vectors[idx];
+  }
+
+  add(key: string, vec: Float32Array) {
+    if (vec.length !== this.dim) throw new Error(`Vector dimension ${vec.length} does not match index dimension ${this.dim}`);
+    this.remove(key);
+    const idx = this.nodes.length;
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMult);
+    const node: Node = { key, level, neighbors: Array.from({ length: level + 1 }, () => []), deleted: false };
+    this.nodes.push(node);
+    this.vectors.push(vec);
+    this.byKey.set(key, idx);
+    if (this.entry < 0) {
+      this.entry = idx;
+      this.maxLevel = level;
+      return;
+    }
+    let ep = this.entry;
+    for (let lc = this.maxLevel; lc > level; lc--) ep = this.greedy(vec, ep, lc);
+    for (let lc = Math.min(level, this.maxLevel); lc >= 0; lc--) {
+      const found = this.searchLayer(vec, ep, this.efConstruction, lc);
+      const selected = this.selectNeighbors(found, this.M);
+      node.neighbors[lc] = selected.map((s) => s.idx);
+      const maxConn = lc === 0 ? this.M * 2 : this.M;
+      for (const s of selected) {
+        const list = this.nodes[s.idx].neighbors[lc];
+        list.push(idx);
+        if (list.length > maxConn) this.shrink(s.idx, lc, maxConn);
+      }
+      ep = found[0]?.idx ?? ep;
+    }
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entry = idx;
+    }
+  }
+
+  remove(key: string): boolean {
+    const idx = this.byKey.get(key);
+    if (idx === undefined) return false;
+    this.byKey.delete(key);
+    this.nodes[idx].deleted = true;
+    this.deletedCount++;
+    return true;
+  }
+
+  // Top-k live entries by similarity, best first
+  search(query: Float32Array, k: number, ef = this.efSearch): HnswHit[] {
+    if (this.entry < 0 || k <= 0 || query.length !== this.dim || this.size === 0) return [];
+    let ep = this.entry;
+    for (let lc = this.maxLevel; lc > 0; lc--) ep = this.greedy(query, ep, lc);
+    const found = this.searchLayer(query, ep, Math.max(ef, k), 0);
+    const out: HnswHit[] = [];
+    for (const f of found) {
+      const node = this.nodes[f.idx];
+      if (node.deleted) continue;
+      out.push({ key: node.key, score: f.score });
+      if (out.length >= k) break;
+    }
+    return out;
+  }
+
+  // Fresh index holding only live entries
+  compact(): HnswIndex {
+    const next = new HnswIndex(this.dim, { M: this.M, efConstruction: this.efConstruction, efSearch: this.efSearch });
+    this.nodes.forEach((n, i) => {
+      if (!n.deleted) next.add(n.key, this.vectors[i]);
+    });
+    return next;
+  }
+
+  serialize(): Buffer {
+    const header = JSON.stringify({
+      dim: this.dim,
+      M: this.M,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      entry: this.entry,
+      maxLevel: this.maxLevel,
+      nodes: this.nodes.map((n) => [n.key, n.level, n.deleted ? 1 : 0, n.neighbors]),
+    });
+    const headerBuf = Buffer.from(header, 'utf8');
+    const vecBytes = this.nodes.length * this.dim * 4;
+    const out = Buffer.alloc(MAGIC.length + 4 + headerBuf.length + vecBytes);
+    let off = out.write(MAGIC, 0, 'ascii');
+    out.writeUInt32LE(headerBuf.length, off);
+    off += 4;
+    headerBuf.copy(out, off);
+    off += headerBuf.length;
+    for (const v of this.vectors) {
+      Buffer.from(v.buffer, v.byteOffset, v.byteLength).copy(out, off);
+      off += v.byteLength;
+    }
+    return out;
+  }
+
+  static deserialize(buf: Buffer): HnswIndex {
+    if (buf.toString('ascii', 0, MAGIC.length) !== MAGIC) throw new Error('Not an HNSW index file');
+    let off = MAGIC.length;
+    const headerLen = buf.readUInt32LE(off);
+    off += 4;
+    const header = JSON.parse(buf.toString('utf8', off, off + headerLen)) as {
+      dim: number;
+      M: number;
+      efConstruction: number;
+      efSearch: number;
+      entry: number;
+      maxLevel: number;
+      nodes: Array<[string, number, number, number[][]]>;
+    };
+    off += headerLen;
+    const index = new HnswIndex(header.dim, header);
+    const vecBytes = header.dim * 4;
+    if (buf.length - off !== header.nodes.length * vecBytes) throw new Error('Truncated HNSW index file');
+    // One aligned copy of the vector block, then per-node views into it
+    const block = new Float32Array(Uint8Array.prototype.slice.call(buf, off).buffer);
+    header.nodes.forEach(([key, level, deleted, neighbors], i) => {
+      index.nodes.push({ key, level, neighbors, deleted: deleted === 1 });
+      index.vectors.push(block.subarray(i * header.dim, (i + 1) * header.dim));
+      if (deleted === 1) index.deletedCount++;
+      else index.byKey.set(key, i);
+    });
+    index.entry = header.entry;
+    index.maxLevel = header.maxLevel;
+    return index;
+  }
+
+  private greedy(q: Float32Array, ep: number, lc: number): number {
+    let cur = ep;
+    let curScore = dot(q, this.vectors[cur]);
+    for (let changed = true; changed; ) {
+      changed = false;
+      for (const nb of this.nodes[cur].neighbors[lc] ?? []) {
+        const s = dot(q, this.vectors[nb]);
+        if (s > curScore) {
+          cur = nb;
+          curScore = s;
+          changed = true;
+        }
+      }
+    }
+    return cur;
+  }
+
+  // Best-first search on one layer; returns up to ef entries, best first
+  private searchLayer(q: Float32Array, ep: number, ef: number, lc: number): Scored[] {
+    const visited = new Set<number>([ep]);
+    const start = { idx: ep, score: dot(q, this.vectors[ep]) };
+    const candidates = new Heap<Scored>((a, b) => a.score > b.score);
+    const results = new Heap<Scored>((a, b) => a.score < b.score);
+    candidates.push(start);
+    results.push(start);
+    while (candidates.size > 0) {
+      const c = candidates.pop() as Scored;
+      const worst = results.peek() as Scored;
+      if (c.score < worst.score && results.size >= ef) break;
+      for (const nb of this.nodes[c.idx].neighbors[lc] ?? []) {
+        if (visited.has(nb)) continue;
+        visited.add(nb);
+        const s = dot(q, this.vectors[nb]);
+        if (results.size < ef || s > (results.peek() as Scored).score) {
+          const e = { idx: nb, score: s };
+          candidates.push(e);
+          results.push(e);
+          if (results.size > ef) results.pop();
+        }
+      }
+    }
+    const out: Scored[] = [];
+    while (results.size > 0) out.push(results.pop() as Scored);
+    return out.reverse();
+  }
+
+  // Neighbour selection heuristic over candidates scored against a base point, best first:
+  // prefer candidates closer to the base point than to any already-selected neighbour
+  // (keeps links spread out), then fill up with the closest remaining ones.
+  private selectNeighbors(candidates: Scored[], m: number): Scored[] {
+    const selected: Scored[] = [];
+    const skipped: Scored[] = [];
+    for (const c of candidates) {
+      if (selected.length >= m) break;
+      const v = this.vectors[c.idx];
+      if (selected.every((s) => dot(v, this.vectors[s.idx]) < c.score)) selected.push(c);
+      else skipped.push(c);
+    }
+    for (const c of skipped) {
+      if (selected.length >= m) break;
+      selected.push(c);
+    }
+    return selected;
+  }
+
+  private shrink(idx: number, lc: number, maxConn: number) {
+    const v = this.vectors[idx];
+    const scored = this.nodes[idx].neighbors[lc]
+      .map((nb) => ({ idx: nb, score: dot(v, this.vectors[nb]) }))
+      .sort((a, b) => b.score - a.score);
+    this.nodes[idx].neighbors[lc] = this.selectNeighbors(scored, maxConn).map((s) => s.idx);
+  }
+}
@@ -0,0 +1,308 @@
+// Durable SQLite-backed job queue for background note processing.
+// Requests for a note are coalesced while its job is still queued, a note never has two jobs
+// running at once, failures are retried with exponential backoff, and jobs interrupted by a
+// restart are picked up again by startJobWorker().
+import { db, jobs, type Job } from '@/db/client';
+import { and, asc, desc, eq, isNull, lt, lte, notInArray, or } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { processNoteHeavyWork } from './noteProcessing';
+import { runReindex } from './reindex';
+import { setProcessingStatus, type ProcessingStage } from './processingStatus';
+
+export type JobType = 'process_note' | 'reindex_embeddings';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobActionResult = { job: Job } | { error: 'not_found' | 'invalid_state'; job?: Job };
+
+const CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY) || 2);
+// A queued job is pushed back by this much on every new request, so one run covers an autosave burst
+const COALESCE_DELAY_MS = Number(process.env.JOB_COALESCE_MS) || 2000;
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.JOB_MAX_ATTEMPTS) || 5);
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 10 * 60 * 1000;
+const POLL_INTERVAL_MS = 1000;
+// Finished jobs stay visible in the admin list for this long
+const RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+const handlers: Record<JobType, (job: Job) => Promise<void>> = {
+  process_note: async (job) => {
+    if (job.noteId) await processNoteHeavyWork(job.noteId);
+  },
+  reindex_embeddings: async () => {
+    // Notes edited while their staged vectors were swapped in are reprocessed with the new model
+    for (const noteId of await runReindex()) enqueueNoteProcessing(noteId);
+  },
+};
+
+// Mirror queue transitions of note jobs onto the note's processing status
+function reportNoteStatus(job: Pick<Job, 'type' | 'noteId'>, status: ProcessingStage, error: string | null = null) {
+  if (job.type !== 'process_note' || !job.noteId) return;
+  try {
+    setProcessingStatus(job.noteId, status, error);
+  } catch (e) {
+    console.warn('Failed to record processing status', e);
+  }
+}
+
+type WorkerState = { started: boolean; running: number; timer?: ReturnType<typeof setInterval>; lastPrune: number };
+
+function worker(): WorkerState {
+  const g = global as typeof globalThis & { __jobWorker?: WorkerState };
+  g.__jobWorker ??= { started: false, running: 0, lastPrune: 0 };
+  return g.__jobWorker;
+}
+
+// 5s, 10s, 20s, ... capped at 10 minutes
+export function backoffMs(attempts: number): number {
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+function queuedJobFor(type: string, noteId: string | null, tx: Pick<typeof db, 'select'> = db): Job | undefined {
+  if (!noteId) return undefined;
+  return tx
+    .select()
+    .from(jobs)
+    .where(and(eq(jobs.type, type), eq(jobs.noteId, noteId), eq(jobs.status, 'queued')))
+    .all()[0];
+}
+
+// Queue (or coalesce into the already-queued) processing job for a note
+export function enqueueNoteProcessing(noteId: string): Job {
+  const now = new Date();
+  const nowIso = now.toISOString();
+  const runAt = new Date(now.getTime() + COALESCE_DELAY_MS).toISOString();
+  const job = db.transaction((tx) => {
+    const queued = queuedJobFor('process_note', noteId, tx);
+    if (queued) {
+      tx.update(jobs).set({ runAt, updatedAt: nowIso }).where(eq(jobs.id, queued.id)).run();
+      return { ...queued, runAt, updatedAt: nowIso };
+    }
+    return insertJob(tx, 'process_note', noteId, runAt);
+  });
+  reportNoteStatus(job, 'queued');
+  try { console.log(`[jobs] queued ${job.type} for note ${noteId} (job ${job.id})`); } catch {}
+  startJobWorker();
+  return job;
+}
+
+// Queue the corpus reindex (see lib/reindex.ts); at most one is queued or running
+export function enqueueReindex(): Job {
+  const nowIso = new Date().toISOString();
+  const job = db.transaction((tx) => {
+    const existing = tx
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.type, 'reindex_embeddings'), or(eq(jobs.status, 'queued'), eq(jobs.status, 'running'))))
+      .all()[0];
+    return existing ?? insertJob(tx, 'reindex_embeddings', null, nowIso);
+  });
+  try { console.log(`[jobs] queued ${job.type} (job ${job.id})`); } catch {}
+  startJobWorker();
+  return job;
+}
+
+function insertJob(tx: Pick<typeof db, 'insert'>, type: JobType, noteId: string | null, runAt: string): Job {
+  const nowIso = new Date().toISOString();
+  const row: Job = {
+    id: randomUUID(),
+    type,
+    noteId,
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: MAX_ATTEMPTS,
+    runAt,
+    lastError: null,
+    createdAt: nowIso,
+    updatedAt: nowIso,
+    startedAt: null,
+    finishedAt: null,
+  };
+  tx.insert(jobs).values(row).run();
+  return row;
+}
+
+// Atomically move the next due job to 'running', skipping notes that already have a running job
+function claimNext(): Job | null {
+  const nowIso = new Date().toISOString();
+  return db.transaction((tx) => {
+    const busy = tx
+      .select({ noteId: jobs.noteId })
+      .from(jobs)
+      .where(eq(jobs.status, 'running'))
+      .all()
+      .map((r) => r.noteId)
+      .filter((id): id is string => !!id);
+    const next = tx
+      .select()
+      .from(jobs)
+      .where(and(
+        eq(jobs.status, 'queued'),
+        lte(jobs.runAt, nowIso),
+        busy.length > 0 ? or(isNull(jobs.noteId), notInArray(jobs.noteId, busy)) : undefined,
+      ))
+      .orderBy(asc(jobs.runAt))
+      .limit(1)
+      .all()[0];
+    if (!next) return null;
+    const claimed = { ...next, status: 'running', attempts: next.attempts + 1, startedAt: nowIso, updatedAt: nowIso };
+    tx.update(jobs)
+      .set({ status: claimed.status, attempts: claimed.attempts, startedAt: nowIso, updatedAt: nowIso })
+      .where(eq(jobs.id, next.id))
+      .run();
+    return claimed;
+  });
+}
+
+async function runJob(job: Job) {
+  const handler = handlers[job.type as JobType];
+  try {
+    if (!handler) throw new Error(`Unknown job type: ${job.type}`);
+    await handler(job);
+    const nowIso = new Date().toISOString();
+    db.update(jobs)
+      .set({ status: 'succeeded', lastError: null, finishedAt: nowIso, updatedAt: nowIso })
+      .where(eq(jobs.id, job.id))
+      .run();
+    // Edits made while this job ran are still waiting for their own run
+    if (queuedJobFor(job.type, job.noteId)) reportNoteStatus(job, 'queued');
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    const now = new Date();
+    const nowIso = now.toISOString();
+    const next = db.transaction((tx): { status: ProcessingStage; error: string | null } => {
+      if (!handler || job.attempts >= job.maxAttempts) {
+        tx.update(jobs).set({ status: 'failed', lastError: message, finishedAt: nowIso, updatedAt: nowIso }).where(eq(jobs.id, job.id)).run();
+        // A newer queued job for the note still gets its own attempts
+        return queuedJobFor(job.type, job.noteId, tx) ? { status: 'queued', error: null } : { status: 'failed', error: message };
+      }
+      // A newer request for the same note is already queued and will redo the work
+      if (queuedJobFor(job.type, job.noteId, tx)) {
+        tx.update(jobs)
+          .set({ status: 'cancelled', lastError: `${message} (superseded by a newer job)`, finishedAt: nowIso, updatedAt: nowIso })
+          .where(eq(jobs.id, job.id))
+          .run();
+        return { status: 'queued', error: null };
+      }
+      const runAt = new Date(now.getTime() + backoffMs(job.attempts)).toISOString();
+      tx.update(jobs).set({ status: 'queued', lastError: message, runAt, updatedAt: nowIso }).where(eq(jobs.id, job.id)).run();
+      return { status: 'queued', error: message };
+    });
+    reportNoteStatus(job, next.status, next.error);
+    console.warn(`[jobs] ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts})`, message);
+  }
+}
+
+function tick() {
+  const w = worker();
+  try {
+    while (w.running < CONCURRENCY) {
+      const job = claimNext();
+      if (!job) break;
+      w.running++;
+      void runJob(job).finally(() => {
+        w.running--;
+        tick();
+      });
+    }
+    if (Date.now() - w.lastPrune > PRUNE_INTERVAL_MS) {
+      w.lastPrune = Date.now();
+      pruneFinishedJobs();
+    }
+  } catch (e) {
+    console.error('Job queue tick failed', e);
+  }
+}
+
+// Delete succeeded/cancelled jobs past the retention window; failed jobs are kept for inspection
+export function pruneFinishedJobs(now: Date = new Date()): number {
+  const cutoff = new Date(now.getTime() - RETENTION_MS).toISOString();
+  const res = db
+    .delete(jobs)
+    .where(and(or(eq(jobs.status, 'succeeded'), eq(jobs.status, 'cancelled')), lt(jobs.updatedAt, cutoff)))
+    .run();
+  return res.changes;
+}
+
+// Requeue jobs left 'running' by a previous process, then start polling.
+// Guarded so dev reloads do not stack pollers.
+export function startJobWorker() {
+  const w = worker();
+  if (w.started) return;
+  w.started = true;
+  const nowIso = new Date().toISOString();
+  const recovered = db.transaction((tx) => {
+    const orphaned = tx.select().from(jobs).where(eq(jobs.status, 'running')).all();
+    for (const job of orphaned) {
+      const superseded = !!queuedJobFor(job.type, job.noteId, tx);
+      tx.update(jobs)
+        .set(superseded
+          ? { status: 'cancelled', lastError: 'Interrupted by restart (superseded by a newer job)', finishedAt: nowIso, updatedAt: nowIso }
+          : { status: 'queued', runAt: nowIso, startedAt: null, updatedAt: nowIso })
+        .where(eq(jobs.id, job.id))
+        .run();
+      if (!superseded) reportNoteStatus(job, 'queued');
+    }
+    return orphaned.length;
+  });
+  if (recovered > 0) {
+    try { console.log(`[jobs] recovered ${recovered} interrupted job(s)`); } catch {}
+  }
+  w.timer = setInterval(tick, POLL_INTERVAL_MS);
+  w.timer.unref?.();
+  setImmediate(tick);
+}
+
+// --- Admin ---
+
+export function listJobs(opts: { status?: JobStatus; noteId?: string; limit?: number } = {}): Job[] {
+  return db
+    .select()
+    .from(jobs)
+    .where(and(
+      opts.status ? eq(jobs.status, opts.status) : undefined,
+      opts.noteId ? eq(jobs.noteId, opts.noteId) : undefined,
+    ))
+    .orderBy(desc(jobs.updatedAt))
+    .limit(Math.max(1, Math.min(500, opts.limit ?? 100)))
+    .all();
+}
+
+// Run a failed or cancelled job again with a fresh attempt budget
+export function retryJob(id: string): JobActionResult {
+  const nowIso = new Date().toISOString();
+  const result = db.transaction((tx): JobActionResult => {
+    const job = tx.select().from(jobs).where(eq(jobs.id, id)).all()[0];
+    if (!job) return { error: 'not_found' };
+    if (job.status !== 'failed' && job.status !== 'cancelled') return { error: 'invalid_state', job };
+    // Coalesce into an already-queued job for the same note
+    const queued = queuedJobFor(job.type, job.noteId, tx);
+    if (queued) return { job: queued };
+    const next = { ...job, status: 'queued', attempts: 0, runAt: nowIso, lastError: null, startedAt: null, finishedAt: null, updatedAt: nowIso };
+    tx.update(jobs)
+      .set({ status: next.status, attempts: 0, runAt: nowIso, lastError: null, startedAt: null, finishedAt: null, updatedAt: nowIso })
+      .where(eq(jobs.id, id))
+      .run();
+    return { job: next };
+  });
+  if (!('error' in result)) {
+    reportNoteStatus(result.job, 'queued');
+    startJobWorker();
+  }
+  return result;
+}
+
+// Cancel a job that has not started yet; running jobs finish their current attempt
+export function cancelJob(id: string): JobActionResult {
+  const nowIso = new Date().toISOString();
+  const result = db.transaction((tx): JobActionResult => {
+    const job = tx.select().from(jobs).where(eq(jobs.id, id)).all()[0];
+    if (!job) return { error: 'not_found' };
+    if (job.status !== 'queued') return { error: 'invalid_state', job };
+    tx.update(jobs).set({ status: 'cancelled', finishedAt: nowIso, updatedAt: nowIso }).where(eq(jobs.id, id)).run();
+    return { job: { ...job, status: 'cancelled', finishedAt: nowIso, updatedAt: nowIso } };
+  });
+  // The note's latest content will not be processed until it is saved again or the job retried
+  if (!('error' in result)) reportNoteStatus(result.job, 'failed', 'Processing job cancelled');
+  return result;
+}
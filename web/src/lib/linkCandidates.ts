@@ -0,0 +1,300 @@
+// Link candidates for one note: nearest notes from the ANN index (or every note), with the
+// profile-independent link features (chunk cosines, entities, tags, structural signals).
+// Scoring them with a profile is separate so the same candidates can be compared under
+// different profiles (the space settings preview).
+import { db, notes, noteChunks, type Note } from '@/db/client';
+import { and, eq, inArray, isNull, ne } from 'drizzle-orm';
+import { buildNoteTextForEmbedding } from './embeddings';
+import { activeEmbeddingModel, embedWithActiveModel, isCurrentVector } from './embeddingModels';
+import { generateTagsFromText } from './tags';
+import {
+  buildExplain,
+  classifyLink,
+  computeFeatureScores,
+  finalLinkScore,
+  type CandidateExplain,
+  type FeatureInputs,
+  type FeatureScores,
+  type LinkDecision,
+  type ScoringProfile,
+} from './linkScoring';
+import { linkedNoteIds } from './noteLinks';
+import { entitiesByNote, getNoteEntities, getNoteTags, tagsByNote } from './noteTerms';
+import { cosineSim, fromBlob, normalize } from './vectors';
+import { annNeighborNotes } from './annIndex';
+import { computeStructuralSignals, toStructuralNote } from './structuralSignals';
+import { tagCorpusStats } from './tagStats';
+
+// Nearest neighbours fetched from the ANN index for each target vector (note + chunks)
+const LINK_CANDIDATES_PER_VECTOR = 50;
+
+export type ChunkMatch = { sim: number; targetChunkIdx: number; targetText: string; candidateChunkIdx: number; candidateText: string };
+
+export type LinkCandidate = {
+  id: string;
+  title: string;
+  // Everything computeFeatureScores needs except the profile's aggregation method
+  input: Omit<FeatureInputs, 'aggregate'>;
+  sharedEntities: string[];
+  matches: ChunkMatch[];
+};
+
+export type ScoredLinkCandidate = {
+  id: string;
+  title: string;
+  score: number;
+  decision: LinkDecision;
+  explain: CandidateExplain;
+  features: FeatureScores;
+  sharedEntities: string[];
+  matches: ChunkMatch[];
+};
+
+export type LinkCandidates = {
+  target: Note;
+  candidates: LinkCandidate[];
+  // Notes already linked to the target (accepted suggestions)
+  accepted: Set<string>;
+};
+
+function safeParseJSON(input: string | null | undefined) {
+  if (!input) return null;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return null;
+  }
+}
+
+// Candidates for note `id`; `min` is the chunk similarity a match needs, `topk` the matches kept
+// per candidate. Null when the note does not exist or is in the trash.
+export async function collectLinkCandidates(id: string, opts: { min: number; topk: number }): Promise<LinkCandidates | null> {
+  const { min, topk } = opts;
+  const target = db.select().from(notes).where(eq(notes.id, id)).all()[0];
+  if (!target || target.deletedAt) return null;
+  try { console.log(`[links:${id}] computing links for note "${target.title}" (${id}) min=${min} topk=${topk}`); } catch {}
+
+  // Ensure embedding/tags exist; best-effort compute. Vectors from another embedding model
+  // are not comparable and count as missing.
+  const activeModel = activeEmbeddingModel();
+  let targetEmbedding = isCurrentVector(target, activeModel) ? fromBlob(target.embedding) : null;
+  let targetTags = getNoteTags(id);
+
+  if (!targetEmbedding || targetTags.length === 0) {
+    try {
+      const contentJson = safeParseJSON(target.contentJson) ?? {};
+      const text = buildNoteTextForEmbedding(target.title, contentJson);
+      if (text) {
+        if (!targetEmbedding) {
+          targetEmbedding = normalize((await embedWithActiveModel(text)).vec);
+          try { console.log(`[links:${id}] computed missing target embedding (len=${targetEmbedding.length})`); } catch {}
+        }
+        if (targetTags.length === 0) {
+          const tags = await generateTagsFromText(text);
+          if (Array.isArray(tags)) targetTags = tags as string[];
+          try { console.log(`[links:${id}] computed missing target tags (count=${targetTags.length})`); } catch {}
+        }
+      }
+    } catch (e) {
+      // continue without blocking
+      console.warn('Failed to compute missing embedding/tags for target note', e);
+    }
+  }
+
+  const targetVec = targetEmbedding ?? new Float32Array(0);
+
+  // Load all target chunks and their embeddings/text
+  let targetChunks: Array<{ idx: number; text: string; vec: Float32Array | null }> = [];
+  try {
+    const tChunks = db.select().from(noteChunks).where(eq(noteChunks.noteId, id)).all();
+    targetChunks = tChunks.map((ch, idx) => ({
+      idx,
+      text: String(ch.text || ''),
+      vec: isCurrentVector(ch, activeModel) ? fromBlob(ch.embedding) : null,
+    }));
+  } catch {}
+
+  // Candidate generation: nearest notes by chunk/note vectors from the ANN index; when the
+  // index cannot answer, every other note is a candidate
+  const queryVecs = [targetVec, ...targetChunks.map((t) => t.vec)].filter((v): v is Float32Array => !!v && v.length > 0);
+  const neighbors = queryVecs.length > 0 ? annNeighborNotes(queryVecs, LINK_CANDIDATES_PER_VECTOR) : null;
+  neighbors?.delete(id);
+
+  // Fetch other notes; rejected pairs are never suggested again and accepted ones are already links
+  const rejected = linkedNoteIds(id, 'rejected');
+  const accepted = linkedNoteIds(id, 'accepted');
+  const candidates = (neighbors && neighbors.size === 0)
+    ? []
+    : db
+        .select()
+        .from(notes)
+        .where(and(
+          ne(notes.id, id),
+          isNull(notes.deletedAt),
+          neighbors ? inArray(notes.id, Array.from(neighbors.keys())) : undefined,
+        ))
+        .all()
+        .filter((row) => !rejected.has(row.id));
+  try { console.log(`[links:${id}] candidates=${candidates.length}${neighbors ? ' (ann)' : ''}`); } catch {}
+
+  const entitiesTarget = getNoteEntities(id);
+  const candidateIds = candidates.map((row) => row.id);
+  const tagMap = tagsByNote(candidateIds);
+  const entityMap = entitiesByNote(candidateIds);
+  const tagStats = tagCorpusStats();
+  const targetStructural = toStructuralNote(target, targetTags, entitiesTarget);
+
+  const results = candidates
+    .map((row): LinkCandidate | null => {
+      // Compute cross-chunk matches between target note and candidate note
+      let cos = 0;
+      const sims: number[] = [];
+      const matches: Array<{
+        sim: number;
+        targetChunkIdx: number;
+        targetText: string;
+        candidateChunkIdx: number;
+        candidateText: string;
+      }> = [];
+      try {
+        const candChunks = db.select().from(noteChunks).where(eq(noteChunks.noteId, row.id)).all();
+        const cand = candChunks.map((ch, idx) => ({
+          idx,
+          text: String(ch.text || ''),
+          vec: isCurrentVector(ch, activeModel) ? fromBlob(ch.embedding) : null,
+        }));
+
+        const dim = (() => {
+          const tv = targetChunks.find((t) => t.vec && t.vec.length)?.vec?.length || 0;
+          const cv = cand.find((t) => t.vec && t.vec.length)?.vec?.length || 0;
+          return tv && cv && tv === cv ? tv : 0;
+        })();
+
+        if (dim > 0 && cand.length > 0 && targetChunks.length > 0) {
+          // Consider all pairs targetChunk x candChunk, filter by min, collect topk overall
+          for (const t of targetChunks) {
+            if (!t.vec || t.vec.length !== dim) continue;
+            for (const c of cand) {
+              if (!c.vec || c.vec.length !== dim) continue;
+              const s = cosineSim(t.vec, c.vec);
+              if (s >= min) {
+                matches.push({
+                  sim: s,
+                  targetChunkIdx: t.idx,
+                  targetText: t.text,
+                  candidateChunkIdx: c.idx,
+                  candidateText: c.text,
+                });
+              }
+              sims.push(s);
+              if (s > cos) cos = s;
+            }
+          }
+          matches.sort((a, b) => b.sim - a.sim);
+          if (matches.length > topk) matches.length = topk;
+        } else {
+          // Fallback to note-level embedding if chunk dims mismatch or missing
+          const candVec = isCurrentVector(row, activeModel) ? fromBlob(row.embedding) : null;
+          if (candVec && targetVec && candVec.length === targetVec.length) {
+            cos = cosineSim(targetVec, candVec);
+          }
+        }
+      } catch {
+        sims.length = 0;
+        const candVec = isCurrentVector(row, activeModel) ? fromBlob(row.embedding) : null;
+        if (candVec && targetVec && candVec.length === targetVec.length) {
+          cos = cosineSim(targetVec, candVec);
+        }
+      }
+      if (cos === 0) return null;
+      try { console.log(`[links:${id}] cosine -> ${row.id} (${row.title}) = ${cos.toFixed(3)} matches=${matches.length}`); } catch {}
+      const tagA = targetTags;
+      const tagB = tagMap.get(row.id) ?? [];
+      const entitiesB = entityMap.get(row.id) ?? [];
+
+      const featureInput = {
+        top5_cosines: sims.length > 0 ? sims.sort((x, y) => y - x).slice(0, 5) : [cos],
+        entitiesA: entitiesTarget,
+        entitiesB: entitiesB,
+        tagsA: tagA,
+        tagsB: tagB,
+        tagIdf: tagStats.idf,
+        tagAvgdl: tagStats.avgTags,
+        structural: computeStructuralSignals(targetStructural, toStructuralNote(row, tagB, entitiesB)),
+      };
+      const entAset = new Set(entitiesTarget.map((e) => (e.entity || '').toLowerCase()).filter(Boolean));
+      const entBset = new Set(entitiesB.map((e) => (e.entity || '').toLowerCase()).filter(Boolean));
+      return {
+        id: row.id,
+        title: row.title,
+        input: featureInput,
+        // Note-level shared entities (case-insensitive intersection by name)
+        sharedEntities: Array.from(entAset).filter((x) => entBset.has(x)),
+        matches: matches.map((m) => ({
+          sim: Number(m.sim.toFixed(3)),
+          targetChunkIdx: m.targetChunkIdx,
+          targetText: (m.targetText || '').replace(/\s+/g, ' ').trim().slice(0, 160),
+          candidateChunkIdx: m.candidateChunkIdx,
+          candidateText: (m.candidateText || '').replace(/\s+/g, ' ').trim().slice(0, 160),
+        })),
+      };
+    })
+    .filter((c): c is LinkCandidate => !!c);
+
+  return { target, candidates: results, accepted };
+}
+
+type CachedCandidates = { version: string; at: number; value: LinkCandidates };
+
+// Candidates kept for rescoring: the space settings preview scores the same sample note again on
+// every edit. An entry is reused while the note is unchanged, for at most CANDIDATE_CACHE_TTL_MS
+// since other notes (and so the candidates) may change meanwhile.
+const CANDIDATE_CACHE_TTL_MS = 60_000;
+const CANDIDATE_CACHE_SIZE = 20;
+
+export async function cachedLinkCandidates(id: string, opts: { min: number; topk: number }): Promise<LinkCandidates | null> {
+  const row = db
+    .select({ contentHash: notes.contentHash, updatedAt: notes.updatedAt, deletedAt: notes.deletedAt })
+    .from(notes)
+    .where(eq(notes.id, id))
+    .get();
+  if (!row || row.deletedAt) return null;
+  const g = global as typeof globalThis & { __linkCandidateCache?: Map<string, CachedCandidates> };
+  const cache = (g.__linkCandidateCache ??= new Map());
+  const key = `${id}|${opts.min}|${opts.topk}`;
+  const version = `${row.contentHash ?? ''}|${row.updatedAt}`;
+  const hit = cache.get(key);
+  if (hit && hit.version === version && Date.now() - hit.at < CANDIDATE_CACHE_TTL_MS) return hit.value;
+  const value = await collectLinkCandidates(id, opts);
+  cache.delete(key);
+  if (value) {
+    cache.set(key, { version, at: Date.now(), value });
+    // Oldest entries first in insertion order
+    for (const k of cache.keys()) {
+      if (cache.size <= CANDIDATE_CACHE_SIZE) break;
+      cache.delete(k);
+    }
+  }
+  return value;
+}
+
+// Score candidates with a profile, best first
+export function scoreLinkCandidates(candidates: LinkCandidate[], profile: ScoringProfile): ScoredLinkCandidate[] {
+  const scored = candidates.map((c) => {
+    const input: FeatureInputs = { ...c.input, aggregate: profile.aggregate };
+    const features = computeFeatureScores(input);
+    const score = finalLinkScore(features, profile);
+    return {
+      id: c.id,
+      title: c.title,
+      score,
+      decision: classifyLink(score, profile),
+      explain: buildExplain(input),
+      features,
+      sharedEntities: c.sharedEntities,
+      matches: c.matches,
+    };
+  });
+  scored.sort((a, b) => b.score - a.score);
+  return scored;
+}
@@ -2,6 +2,9 @@
 // score = 0.6*semantic + 0.2*entity_score + 0.15*tag_score + 0.05*(reference+temporal+session)
 // guardrail: if (semantic < 0.35 && entity_score < 0.20) score *= 0.5
 // thresholds: keep if score >= 0.55; suggest if 0.45 <= score < 0.55
+// These are the defaults (DEFAULT_SCORING_PROFILE). A profile learned from link feedback
+// (lib/linkTrainer.ts) replaces them with logistic-regression weights and fitted thresholds, and
+// a space can carry its own hand-edited profile (lib/scoringProfiles.ts).
 
 import { toEntityMap, weightedJaccard, topIntersect } from './entities';
 import { computeTagScore } from './tags';
@@ -27,8 +30,9 @@ export type FeatureInputs = {
   // tags
   tagsA: string[];
   tagsB: string[];
-  // optional tag idf for BM25
+  // optional corpus statistics for tag BM25 (lib/tagStats.ts): idf per tag, average tags per note
   tagIdf?: Record<string, number>;
+  tagAvgdl?: number;
   // structural
   structural?: StructuralSignals;
   // semantic aggregation method
@@ -58,31 +62,62 @@ export function computeEntityScore(entitiesA: Array<{ entity: string; weight?: n
   return weightedJaccard(A, B);
 }
 
-export function computeTagFeature(tagsA: string[], tagsB: string[], tagIdf?: Record<string, number>): number {
-  return computeTagScore(tagsA, tagsB, { idf: tagIdf });
+export function computeTagFeature(tagsA: string[], tagsB: string[], tagIdf?: Record<string, number>, tagAvgdl?: number): number {
+  return computeTagScore(tagsA, tagsB, { idf: tagIdf, avgdl: tagAvgdl });
 }
 
 export function computeFeatureScores(input: FeatureInputs): FeatureScores {
   const semantic = aggregateSemantic(input.top5_cosines, input.aggregate ?? 'mean');
   const entity_score = computeEntityScore(input.entitiesA, input.entitiesB);
-  const tag_score = computeTagFeature(input.tagsA, input.tagsB, input.tagIdf);
+  const tag_score = computeTagFeature(input.tagsA, input.tagsB, input.tagIdf, input.tagAvgdl);
   const reference_score = clamp01(input.structural?.reference_score ?? 0);
   const temporal_score = clamp01(input.structural?.temporal_score ?? 0);
   const session_score = clamp01(input.structural?.session_score ?? 0);
   return { semantic, entity_score, tag_score, reference_score, temporal_score, session_score };
 }
 
-export function finalLinkScore(f: FeatureScores): number {
-  let score = 0.6 * f.semantic + 0.2 * f.entity_score + 0.15 * f.tag_score + 0.05 * (f.reference_score + f.temporal_score + f.session_score);
-  if (f.semantic < 0.35 && f.entity_score < 0.2) score *= 0.5; // guardrail
-  return clamp01(score);
+export const FEATURE_KEYS = ['semantic', 'entity_score', 'tag_score', 'reference_score', 'temporal_score', 'session_score'] as const;
+
+export type FeatureWeights = Record<keyof FeatureScores, number>;
+
+export type ScoringProfile = {
+  // 0 for the built-in defaults, otherwise the stored profile version
+  version: number;
+  // linear: clamped weighted sum (with the guardrail); logistic: sigmoid(bias + weighted sum)
+  model: 'linear' | 'logistic';
+  weights: FeatureWeights;
+  bias: number;
+  guardrail: boolean;
+  hardThreshold: number;
+  softThreshold: number;
+  // How the top chunk cosines combine into the semantic feature
+  aggregate: 'mean' | 'max';
+};
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  version: 0,
+  model: 'linear',
+  weights: { semantic: 0.6, entity_score: 0.2, tag_score: 0.15, reference_score: 0.05, temporal_score: 0.05, session_score: 0.05 },
+  bias: 0,
+  guardrail: true,
+  hardThreshold: 0.55,
+  softThreshold: 0.45,
+  aggregate: 'mean',
+};
+
+export function finalLinkScore(f: FeatureScores, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): number {
+  let z = profile.bias;
+  for (const k of FEATURE_KEYS) z += profile.weights[k] * f[k];
+  if (profile.model === 'logistic') return sigmoid(z);
+  if (profile.guardrail && f.semantic < 0.35 && f.entity_score < 0.2) z *= 0.5; // guardrail
+  return clamp01(z);
 }
 
 export type LinkDecision = 'hard' | 'soft' | 'none';
 
-export function classifyLink(score: number): LinkDecision {
-  if (score >= 0.55) return 'hard';
-  if (score >= 0.45) return 'soft';
+export function classifyLink(score: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): LinkDecision {
+  if (score >= profile.hardThreshold) return 'hard';
+  if (score >= profile.softThreshold) return 'soft';
   return 'none';
 }
 
@@ -104,3 +139,5 @@ export function tagIntersection(a: string[] = [], b: string[] = []): Set<string>
 }
 
 function clamp01(x: number): number { return Math.max(0, Math.min(1, x)); }
+
+export function sigmoid(z: number): number { return 1 / (1 + Math.exp(-z)); }
@@ -0,0 +1,242 @@
+// Offline trainer for link scoring. Accepted and rejected suggestions in note_links, with the
+// FeatureScores stored when they were suggested, are the training data for a logistic
+// regression (class-balanced, L2-regularized, batch gradient descent). A stratified share of the
+// feedback (VALIDATION_SHARE) is held out: weights and thresholds are fitted on the rest, and the
+// metrics of the new and the current profile are measured on the held-out part. The 'hard'
+// threshold is the probability that maximizes F1; the 'soft' threshold is the highest one below
+// it that still recalls SOFT_RECALL of the accepted links.
+//
+// Run with `npm run links:train` or POST /api/admin/scoring. The result is saved as a new global
+// profile (lib/scoringProfiles.ts) and activated only when its validation F1 beats the current
+// profile's; otherwise it is stored as 'retired'. Spaces with their own profile keep it. With too
+// little feedback nothing is saved and the current profile (or the defaults) stays in use.
+import { db, noteLinks, type ScoringProfileRow } from '@/db/client';
+import { and, inArray, isNotNull } from 'drizzle-orm';
+import {
+  DEFAULT_SCORING_PROFILE,
+  FEATURE_KEYS,
+  finalLinkScore,
+  sigmoid,
+  type FeatureScores,
+  type FeatureWeights,
+  type ScoringProfile,
+} from './linkScoring';
+import { activeScoringProfile, saveScoringProfile, type NewScoringProfile } from './scoringProfiles';
+
+const MIN_SAMPLES = Math.max(2, Number(process.env.LINK_TRAIN_MIN_SAMPLES) || 30);
+const MIN_PER_CLASS = Math.max(1, Number(process.env.LINK_TRAIN_MIN_PER_CLASS) || 5);
+const ITERATIONS = 3000;
+const LEARNING_RATE = 0.5;
+const L2 = 0.01;
+// Share of accepted links that should score at least 'soft'
+const SOFT_RECALL = 0.9;
+// Share of each class held out for validation
+const VALIDATION_SHARE = 0.25;
+
+export type LabelledLink = { features: FeatureScores; accepted: boolean };
+
+export type ClassificationMetrics = { accuracy: number; precision: number; recall: number; f1: number };
+
+// Measured on the held-out samples; `baseline` is the profile in use before training, at its
+// hard threshold, on the same samples
+export type TrainingMetrics = ClassificationMetrics & {
+  logLoss: number;
+  trainSamples: number;
+  validationSamples: number;
+  baseline: ClassificationMetrics;
+};
+
+// `reason` says why the profile was not (or, in a dry run, would not be) activated
+export type TrainingResult =
+  | { ok: true; profile: NewScoringProfile; metrics: TrainingMetrics; saved: ScoringProfileRow | null; activated: boolean; reason: string | null }
+  | { ok: false; reason: string; samples: number; positives: number; negatives: number };
+
+function toFeatureScores(json: string | null): FeatureScores | null {
+  if (!json) return null;
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object') return null;
+  const out = {} as FeatureScores;
+  for (const k of FEATURE_KEYS) {
+    const v = Number(raw[k] ?? 0);
+    out[k] = Number.isFinite(v) ? v : 0;
+  }
+  return out;
+}
+
+// Suggestions the user decided on. Both directions of a pair carry the decision and each is
+// one sample, since the directional features (reference_score) can differ.
+export function loadLinkFeedback(): LabelledLink[] {
+  const rows = db
+    .select({ features: noteLinks.features, status: noteLinks.status })
+    .from(noteLinks)
+    .where(and(inArray(noteLinks.status, ['accepted', 'rejected']), isNotNull(noteLinks.features)))
+    .all();
+  const out: LabelledLink[] = [];
+  for (const r of rows) {
+    const features = toFeatureScores(r.features);
+    if (features) out.push({ features, accepted: r.status === 'accepted' });
+  }
+  return out;
+}
+
+function linear(weights: FeatureWeights, bias: number, f: FeatureScores): number {
+  let z = bias;
+  for (const k of FEATURE_KEYS) z += weights[k] * f[k];
+  return z;
+}
+
+export function fitLogistic(samples: LabelledLink[]): { weights: FeatureWeights; bias: number } {
+  const n = samples.length;
+  const positives = samples.filter((s) => s.accepted).length;
+  // Class weights so that each class contributes half of the loss
+  const wPos = n / (2 * Math.max(1, positives));
+  const wNeg = n / (2 * Math.max(1, n - positives));
+  const weights = Object.fromEntries(FEATURE_KEYS.map((k) => [k, 0])) as FeatureWeights;
+  let bias = 0;
+  for (let it = 0; it < ITERATIONS; it++) {
+    const grad = Object.fromEntries(FEATURE_KEYS.map((k) => [k, 0])) as FeatureWeights;
+    let gradBias = 0;
+    for (const s of samples) {
+      const err = (sigmoid(linear(weights, bias, s.features)) - (s.accepted ? 1 : 0)) * (s.accepted ? wPos : wNeg);
+      for (const k of FEATURE_KEYS) grad[k] += err * s.features[k];
+      gradBias += err;
+    }
+    for (const k of FEATURE_KEYS) weights[k] -= LEARNING_RATE * (grad[k] / n + L2 * weights[k]);
+    bias -= LEARNING_RATE * (gradBias / n);
+  }
+  return { weights, bias };
+}
+
+function classificationMetrics(scores: number[], labels: boolean[], threshold: number): ClassificationMetrics {
+  let tp = 0, fp = 0, fn = 0, tn = 0;
+  scores.forEach((s, i) => {
+    const predicted = s >= threshold;
+    if (predicted && labels[i]) tp++;
+    else if (predicted) fp++;
+    else if (labels[i]) fn++;
+    else tn++;
+  });
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+  return { accuracy: (tp + tn) / Math.max(1, scores.length), precision, recall, f1 };
+}
+
+// Hard threshold: best F1 (ties go to the higher threshold). Soft: highest threshold at or
+// below it whose recall reaches SOFT_RECALL.
+export function fitThresholds(scores: number[], labels: boolean[]): { hardThreshold: number; softThreshold: number } {
+  const candidates = Array.from(new Set(scores)).sort((a, b) => b - a);
+  let hardThreshold = candidates[0] ?? DEFAULT_SCORING_PROFILE.hardThreshold;
+  let bestF1 = -1;
+  for (const t of candidates) {
+    const { f1 } = classificationMetrics(scores, labels, t);
+    if (f1 > bestF1) {
+      bestF1 = f1;
+      hardThreshold = t;
+    }
+  }
+  let softThreshold = hardThreshold;
+  for (const t of candidates) {
+    if (t > hardThreshold) continue;
+    softThreshold = t;
+    if (classificationMetrics(scores, labels, t).recall >= SOFT_RECALL) break;
+  }
+  return { hardThreshold, softThreshold };
+}
+
+function logLoss(scores: number[], labels: boolean[]): number {
+  const eps = 1e-12;
+  let sum = 0;
+  scores.forEach((p, i) => {
+    const q = Math.min(1 - eps, Math.max(eps, p));
+    sum -= labels[i] ? Math.log(q) : Math.log(1 - q);
+  });
+  return sum / Math.max(1, scores.length);
+}
+
+// Deterministic stratified split: every n-th sample of each class is held out for validation
+export function splitForValidation(samples: LabelledLink[]): { train: LabelledLink[]; validation: LabelledLink[] } {
+  const every = Math.max(2, Math.round(1 / VALIDATION_SHARE));
+  const train: LabelledLink[] = [];
+  const validation: LabelledLink[] = [];
+  let positives = 0;
+  let negatives = 0;
+  for (const s of samples) {
+    const i = s.accepted ? positives++ : negatives++;
+    (i % every === every - 1 ? validation : train).push(s);
+  }
+  return { train, validation };
+}
+
+// Fit a profile from labelled links; `baseline` is the profile it would replace
+export function trainOnFeedback(samples: LabelledLink[], baseline: ScoringProfile = DEFAULT_SCORING_PROFILE): TrainingResult {
+  const positives = samples.filter((s) => s.accepted).length;
+  const negatives = samples.length - positives;
+  if (samples.length < MIN_SAMPLES || positives < MIN_PER_CLASS || negatives < MIN_PER_CLASS) {
+    return {
+      ok: false,
+      reason: `Not enough feedback: ${positives} accepted and ${negatives} rejected suggestions (need ${MIN_SAMPLES} in total and ${MIN_PER_CLASS} of each)`,
+      samples: samples.length,
+      positives,
+      negatives,
+    };
+  }
+  const { train, validation } = splitForValidation(samples);
+  const { weights, bias } = fitLogistic(train);
+  const score = (s: LabelledLink) => sigmoid(linear(weights, bias, s.features));
+  const thresholds = fitThresholds(train.map(score), train.map((s) => s.accepted));
+  const labels = validation.map((s) => s.accepted);
+  const scores = validation.map(score);
+  const baselineScores = validation.map((s) => finalLinkScore(s.features, baseline));
+  const metrics: TrainingMetrics = {
+    ...classificationMetrics(scores, labels, thresholds.hardThreshold),
+    logLoss: logLoss(scores, labels),
+    trainSamples: train.length,
+    validationSamples: validation.length,
+    baseline: classificationMetrics(baselineScores, labels, baseline.hardThreshold),
+  };
+  const reason = metrics.f1 > metrics.baseline.f1
+    ? null
+    : `Validation F1 ${metrics.f1.toFixed(3)} does not beat the current profile's ${metrics.baseline.f1.toFixed(3)}`;
+  return {
+    ok: true,
+    profile: {
+      model: 'logistic',
+      weights,
+      bias,
+      guardrail: false,
+      // The stored semantic features were aggregated already; keep scoring them the same way
+      aggregate: baseline.aggregate,
+      ...thresholds,
+      samples: samples.length,
+      positives,
+      negatives,
+      metrics,
+    },
+    metrics,
+    saved: null,
+    activated: false,
+    reason,
+  };
+}
+
+// Train on all stored feedback and, unless dryRun, save the result; it is activated only when it
+// beats the current profile on the held-out feedback
+export function trainScoringProfile(opts?: { dryRun?: boolean; baseline?: ScoringProfile }): TrainingResult {
+  const result = trainOnFeedback(loadLinkFeedback(), opts?.baseline ?? activeScoringProfile());
+  if (!result.ok || opts?.dryRun) return result;
+  const activate = result.reason === null;
+  const saved = saveScoringProfile(result.profile, null, { activate });
+  try {
+    console.log(
+      `[links] scoring profile v${saved.version} trained on ${result.profile.samples} suggestion(s)` +
+        (activate ? ' and activated' : `, not activated: ${result.reason}`),
+    );
+  } catch {}
+  return { ...result, saved, activated: activate };
+}
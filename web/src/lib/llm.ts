@@ -0,0 +1,207 @@
+// Shared client for the small JSON-producing LLM tasks (tags, titles, entities).
+// The provider comes from LLM_PROVIDER:
+//
+//   ollama  Ollama /api/generate with format=json (OLLAMA_HOST; per-task models such as OLLAMA_TAGGER_MODEL)
+//   openai  any OpenAI-compatible /v1/chat/completions endpoint, e.g. llama.cpp server or LM Studio
+//           (LLM_API_BASE, LLM_API_KEY)
+//   rules   no model: each task answers with its own rule-based heuristic
+//
+// LLM_MODEL, when set, replaces the per-task model for every task. Replies are validated against
+// the task's zod schema; malformed or invalid JSON is retried with a corrective hint. Every call
+// is recorded (task, provider, attempts, duration, outcome) for GET /api/admin/llm.
+import type { z } from 'zod';
+
+export type LlmProviderId = 'ollama' | 'openai' | 'rules';
+
+export type LlmRequest = { prompt: string; model: string; temperature: number; signal: AbortSignal };
+
+export interface LlmProvider {
+  readonly id: Exclude<LlmProviderId, 'rules'>;
+  // Raw text of the model's reply, expected to hold a JSON object
+  complete(req: LlmRequest): Promise<string>;
+}
+
+export type LlmCall = {
+  task: string;
+  provider: LlmProviderId;
+  model: string | null;
+  attempts: number;
+  durationMs: number;
+  ok: boolean;
+  error: string | null;
+  promptChars: number;
+  responseChars: number;
+  at: string;
+};
+
+// The model's replies never matched the schema
+export class LlmInvalidOutput extends Error {}
+
+const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434';
+const LLM_API_BASE = (process.env.LLM_API_BASE || 'http://localhost:8080/v1').replace(/\/+$/, '');
+const LLM_API_KEY = process.env.LLM_API_KEY || '';
+const DEFAULT_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS) || 60_000;
+// Attempts per call when the reply is not valid JSON for the schema
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.LLM_MAX_ATTEMPTS) || 3);
+const TELEMETRY_SIZE = 200;
+
+const ollamaProvider: LlmProvider = {
+  id: 'ollama',
+  async complete({ prompt, model, temperature, signal }) {
+    const res = await fetch(`${OLLAMA_HOST}/api/generate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, prompt, stream: false, options: { temperature }, format: 'json' }),
+      signal,
+    });
+    if (!res.ok) {
+      const msg = await res.text().catch(() => '');
+      throw new Error(`Ollama generate failed: HTTP ${res.status} ${msg}`);
+    }
+    const json = await res.json().catch(() => null);
+    return typeof json?.response === 'string' ? json.response : '';
+  },
+};
+
+const openAiProvider: LlmProvider = {
+  id: 'openai',
+  async complete({ prompt, model, temperature, signal }) {
+    const res = await fetch(`${LLM_API_BASE}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(LLM_API_KEY ? { Authorization: `Bearer ${LLM_API_KEY}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature,
+        response_format: { type: 'json_object' },
+      }),
+      signal,
+    });
+    if (!res.ok) {
+      const msg = await res.text().catch(() => '');
+      throw new Error(`Chat completion failed: HTTP ${res.status} ${msg}`);
+    }
+    const json = await res.json().catch(() => null);
+    const content = json?.choices?.[0]?.message?.content;
+    return typeof content === 'string' ? content : '';
+  },
+};
+
+export function configuredLlmProvider(): LlmProviderId {
+  const raw = (process.env.LLM_PROVIDER || 'ollama').toLowerCase();
+  return raw === 'openai' || raw === 'rules' ? raw : 'ollama';
+}
+
+// Parse a reply as JSON; models sometimes wrap the object in prose or code fences
+export function extractJsonObject(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {}
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+}
+
+function recentCalls(): LlmCall[] {
+  const g = global as typeof globalThis & { __llmCalls?: LlmCall[] };
+  g.__llmCalls ??= [];
+  return g.__llmCalls;
+}
+
+function record(call: LlmCall) {
+  const calls = recentCalls();
+  calls.push(call);
+  if (calls.length > TELEMETRY_SIZE) calls.splice(0, calls.length - TELEMETRY_SIZE);
+  try {
+    console.log(
+      `[llm] ${call.task} via ${call.provider}${call.model ? `/${call.model}` : ''}: ${call.ok ? 'ok' : `failed (${call.error})`} in ${call.durationMs}ms, ${call.attempts} attempt(s)`,
+    );
+  } catch {}
+}
+
+// Most recent calls, newest first, with per-task totals
+export function llmTelemetry() {
+  const calls = [...recentCalls()].reverse();
+  const tasks: Record<string, { calls: number; failures: number; retries: number; avgMs: number }> = {};
+  for (const c of calls) {
+    const t = (tasks[c.task] ??= { calls: 0, failures: 0, retries: 0, avgMs: 0 });
+    t.avgMs = (t.avgMs * t.calls + c.durationMs) / (t.calls + 1);
+    t.calls++;
+    if (!c.ok) t.failures++;
+    t.retries += Math.max(0, c.attempts - 1);
+  }
+  for (const t of Object.values(tasks)) t.avgMs = Math.round(t.avgMs);
+  return { provider: configuredLlmProvider(), tasks, calls };
+}
+
+export type GenerateJsonOptions<T> = {
+  // Telemetry label, e.g. 'tags'
+  task: string;
+  prompt: string;
+  schema: z.ZodType<T>;
+  // Model for the ollama/openai providers unless LLM_MODEL overrides it
+  model: string;
+  // Answer used by the 'rules' provider
+  rules: () => T;
+  temperature?: number;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+};
+
+// Ask the configured provider for a JSON object matching `schema`. Throws on transport errors,
+// timeouts and cancellation, and LlmInvalidOutput when no attempt produced a valid reply.
+export async function generateJson<T>(opts: GenerateJsonOptions<T>): Promise<T> {
+  const providerId = configuredLlmProvider();
+  const started = Date.now();
+  const call: LlmCall = {
+    task: opts.task,
+    provider: providerId,
+    model: null,
+    attempts: 0,
+    durationMs: 0,
+    ok: false,
+    error: null,
+    promptChars: opts.prompt.length,
+    responseChars: 0,
+    at: new Date(started).toISOString(),
+  };
+  try {
+    if (providerId === 'rules') {
+      const value = opts.rules();
+      call.ok = true;
+      return value;
+    }
+    const provider = providerId === 'openai' ? openAiProvider : ollamaProvider;
+    call.model = process.env.LLM_MODEL || opts.model;
+    const timeout = AbortSignal.timeout(opts.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    const signal = opts.signal ? AbortSignal.any([opts.signal, timeout]) : timeout;
+    let prompt = opts.prompt;
+    let problem = '';
+    while (call.attempts < MAX_ATTEMPTS) {
+      call.attempts++;
+      const raw = await provider.complete({ prompt, model: call.model, temperature: opts.temperature ?? 0.2, signal });
+      call.responseChars += raw.length;
+      const parsed = opts.schema.safeParse(extractJsonObject(raw));
+      if (parsed.success) {
+        call.ok = true;
+        return parsed.data;
+      }
+      problem = parsed.error.issues.map((i) => `${i.path.join('.') || 'reply'}: ${i.message}`).join('; ');
+      prompt = `${opts.prompt}\n\nYour previous reply was not valid (${problem}). Reply with only the JSON object in the required format.`;
+    }
+    throw new LlmInvalidOutput(`${opts.task}: no valid reply after ${call.attempts} attempt(s) (${problem})`);
+  } catch (e) {
+    call.error = e instanceof Error ? e.message : String(e);
+    throw e;
+  } finally {
+    call.durationMs = Date.now() - started;
+    record(call);
+  }
+}
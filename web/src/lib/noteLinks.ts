@@ -0,0 +1,140 @@
+// Persisted note links: suggestion storage plus the user's accept/reject decisions
+import { db, notes, noteLinks, type NoteLink } from '@/db/client';
+import { and, eq, inArray, isNull, or } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import type { FeatureScores, LinkDecision } from './linkScoring';
+
+export type LinkStatus = 'suggested' | 'accepted' | 'rejected';
+
+export type LinkSuggestionInput = {
+  targetId: string;
+  score: number;
+  features: FeatureScores;
+  decision: LinkDecision;
+};
+
+export type Backlink = {
+  id: string;       // the other note
+  title: string;
+  direction: 'outgoing' | 'incoming';
+  score: number;
+  decision: string;
+  updatedAt: string;
+};
+
+// Rows touching a note in either direction
+function pairCondition(noteId: string) {
+  return or(eq(noteLinks.sourceId, noteId), eq(noteLinks.targetId, noteId));
+}
+
+// Store the latest scores for a note's suggestions. Scores are refreshed on every
+// computation; the user's status (accepted/rejected) is never overwritten here.
+export function upsertSuggestions(sourceId: string, suggestions: LinkSuggestionInput[]) {
+  const now = new Date().toISOString();
+  db.transaction((tx) => {
+    for (const s of suggestions) {
+      if (s.targetId === sourceId) continue;
+      tx.insert(noteLinks)
+        .values({
+          id: randomUUID(),
+          sourceId,
+          targetId: s.targetId,
+          score: s.score,
+          features: JSON.stringify(s.features),
+          decision: s.decision,
+          status: 'suggested',
+          createdAt: now,
+          updatedAt: now,
+        })
+        .onConflictDoUpdate({
+          target: [noteLinks.sourceId, noteLinks.targetId],
+          set: { score: s.score, features: JSON.stringify(s.features), decision: s.decision, updatedAt: now },
+        })
+        .run();
+    }
+  });
+}
+
+// Ids of notes paired with `noteId` (either direction) under the given status
+export function linkedNoteIds(noteId: string, status: LinkStatus): Set<string> {
+  const rows = db
+    .select({ sourceId: noteLinks.sourceId, targetId: noteLinks.targetId })
+    .from(noteLinks)
+    .where(and(pairCondition(noteId), eq(noteLinks.status, status)))
+    .all();
+  const out = new Set<string>();
+  for (const r of rows) out.add(r.sourceId === noteId ? r.targetId : r.sourceId);
+  return out;
+}
+
+// Unordered keys ("a|b", sorted) of every rejected pair, for corpus-wide link computation
+export function rejectedPairKeys(): Set<string> {
+  const rows = db
+    .select({ sourceId: noteLinks.sourceId, targetId: noteLinks.targetId })
+    .from(noteLinks)
+    .where(eq(noteLinks.status, 'rejected'))
+    .all();
+  return new Set(rows.map((r) => pairKey(r.sourceId, r.targetId)));
+}
+
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+// Accepted links shown on both notes, regardless of which side suggested them
+export function listBacklinks(noteId: string): Backlink[] {
+  const rows = db
+    .select()
+    .from(noteLinks)
+    .where(and(pairCondition(noteId), eq(noteLinks.status, 'accepted')))
+    .all();
+  if (rows.length === 0) return [];
+  const otherIds = Array.from(new Set(rows.map((r) => (r.sourceId === noteId ? r.targetId : r.sourceId))));
+  const titles = new Map(
+    db
+      .select({ id: notes.id, title: notes.title })
+      .from(notes)
+      .where(and(inArray(notes.id, otherIds), isNull(notes.deletedAt)))
+      .all()
+      .map((n) => [n.id, n.title] as const)
+  );
+  const seen = new Set<string>();
+  const out: Backlink[] = [];
+  for (const r of rows) {
+    const otherId = r.sourceId === noteId ? r.targetId : r.sourceId;
+    if (!titles.has(otherId) || seen.has(otherId)) continue; // trashed or duplicate pair
+    seen.add(otherId);
+    out.push({
+      id: otherId,
+      title: titles.get(otherId) ?? '',
+      direction: r.sourceId === noteId ? 'outgoing' : 'incoming',
+      score: r.score,
+      decision: r.decision,
+      updatedAt: r.updatedAt,
+    });
+  }
+  out.sort((a, b) => b.score - a.score);
+  return out;
+}
+
+// Record the user's decision for a pair. Applies to both directions of the pair so a
+// rejected suggestion is not offered again from the other note either.
+export function setLinkStatus(sourceId: string, targetId: string, status: LinkStatus): NoteLink | null {
+  const now = new Date().toISOString();
+  return db.transaction((tx) => {
+    const existing = tx
+      .select()
+      .from(noteLinks)
+      .where(or(
+        and(eq(noteLinks.sourceId, sourceId), eq(noteLinks.targetId, targetId)),
+        and(eq(noteLinks.sourceId, targetId), eq(noteLinks.targetId, sourceId)),
+      ))
+      .all();
+    if (existing.length === 0) return null;
+    for (const row of existing) {
+      tx.update(noteLinks).set({ status, updatedAt: now }).where(eq(noteLinks.id, row.id)).run();
+    }
+    const primary = existing.find((r) => r.sourceId === sourceId) ?? existing[0];
+    return { ...primary, status, updatedAt: now };
+  });
+}
@@ -0,0 +1,271 @@
+import { db, notes, noteChunks } from '@/db/client';
+import { and, eq, isNull, notInArray } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { buildNoteTextForEmbedding, extractPlainTextFromTiptap } from './embeddings';
+import { activeEmbeddingModel, embedWithModel, isCurrentVector } from './embeddingModels';
+import { EMBEDDING_BATCH_SIZE } from './embeddingProvider';
+import { generateTagsFromText } from './tags';
+import { generateTitleFromText } from './title';
+import { enrichNote, type Enrichment } from './enrichment';
+import { indexNoteText } from './fts';
+import { chunkText, type Chunk } from './chunking';
+import { generateEntitiesFromText, aggregateEntities, type Entity } from './entities';
+import { getNoteEmitter } from './noteEvents';
+import { setProcessingStatus } from './processingStatus';
+import { setNoteEntities, setNoteTags } from './noteTerms';
+import { encodeEmbedding, fromBlob, normalize } from './vectors';
+import { contentHash } from './contentHash';
+import { annReplaceChunks, annUpsertNote } from './annIndex';
+
+function safeParseJSON(input: string | null | undefined) {
+  if (!input) return null;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return null;
+  }
+}
+
+// A chunk of the processed body: reused (embedding null, the row exists) or newly embedded
+type StoredChunk = {
+  id: string;
+  chunk: Chunk;
+  hash: string;
+  vec: Float32Array;
+  embedding: ReturnType<typeof encodeEmbedding> | null;
+  entities: Entity[] | null;
+};
+
+// Heavy processing for one note: title, tags and entities (one enrichment call, see
+// lib/enrichment.ts), note embedding, chunk embeddings.
+// Runs as a 'process_note' job (see lib/jobQueue.ts) and reports each stage through
+// setProcessingStatus. Throws when the note embedding or any other stage fails so the queue
+// retries it; the stages that did succeed are kept. 'processed' is only emitted on success.
+// When enrichment fails, the per-field generators take over (entities then per chunk).
+// Work is incremental: an unchanged note text skips the pipeline, and chunks whose text is
+// unchanged keep their embedding and entities, so only new or edited chunks are embedded
+// (in batches, see lib/embeddingProvider.ts).
+// Results for a note trashed or deleted mid-run are dropped (see isLive).
+export async function processNoteHeavyWork(id: string) {
+  try { console.log(`[bg] start processing note ${id}`); } catch {}
+  const existing = db.select().from(notes).where(eq(notes.id, id)).all()[0];
+  if (!existing) {
+    console.error('Note not found for heavy processing');
+    return;
+  }
+
+  // Get latest values for title/content to embed (prefer updates)
+  let titleForEmbed: string | undefined = existing.title;
+  const contentForEmbed: unknown = safeParseJSON(existing.contentJson) ?? {};
+  let text = buildNoteTextForEmbedding(titleForEmbed, contentForEmbed);
+  let hash = text ? contentHash(text) : null;
+  // One model for the whole run, so a switch-over midway cannot mix vectors
+  const model = activeEmbeddingModel();
+  if (hash && existing.contentHash === hash && existing.embedding && isCurrentVector(existing, model)) {
+    try { console.log(`[bg] note ${id} unchanged since last processing; skipping`); } catch {}
+    finishProcessing(id, hash);
+    return;
+  }
+  // Stages that failed without stopping the rest of the pipeline
+  const failures: string[] = [];
+
+  const plainBody = extractPlainTextFromTiptap(contentForEmbed);
+  let enrichment: Enrichment | null = null;
+  if (plainBody) {
+    setProcessingStatus(id, 'enriching');
+    try {
+      enrichment = await enrichNote(plainBody);
+    } catch (e) {
+      console.warn('Note enrichment failed; falling back to separate title/tag/entity calls', e);
+    }
+    // Manually named notes keep their title (see titleSource)
+    const autoTitle = existing.titleSource !== 'manual';
+    let title = autoTitle ? enrichment?.title ?? null : null;
+    if (!enrichment && autoTitle) {
+      try {
+        title = await generateTitleFromText(plainBody);
+      } catch (e) {
+        console.warn('Title generation failed; keeping the current title', e);
+        failures.push(`title: ${errorMessage(e)}`);
+      }
+    }
+    if (!isLive(id)) return dropProcessing(id);
+    // titleSource is re-checked in the update: the user may have named the note while enrichment ran
+    const retitled = title && title !== existing.title
+      ? db.update(notes).set({ title }).where(and(eq(notes.id, id), eq(notes.titleSource, 'auto'))).run().changes > 0
+      : false;
+    if (title && retitled) {
+      indexNoteText(id, title, existing.contentJson);
+      // The title is part of the embedded text
+      titleForEmbed = title;
+      text = buildNoteTextForEmbedding(titleForEmbed, contentForEmbed);
+      hash = text ? contentHash(text) : null;
+    }
+    try {
+      const tags = enrichment?.tags ?? (await generateTagsFromText(text));
+      if (!isLive(id)) return dropProcessing(id);
+      setNoteTags(id, tags, 'llm');
+      try { console.log(`[bg] note ${id} tags count: ${tags.length}`); } catch {}
+    } catch (e) {
+      console.warn('Tag generation failed; continuing with embeddings', e);
+      failures.push(`tagging: ${errorMessage(e)}`);
+    }
+  }
+
+  if (text && text.length > 0) {
+    setProcessingStatus(id, 'embedding');
+    try {
+      const [vec] = await embedWithModel(model, [text]);
+      if (!isLive(id)) return dropProcessing(id);
+      db.update(notes).set(encodeEmbedding(vec, model)).where(eq(notes.id, id)).run();
+      annUpsertNote(id, normalize(vec));
+      try { console.log(`[bg] note ${id} embedding length: ${Array.isArray(vec) ? vec.length : 0}`); } catch {}
+    } catch (e) {
+      // The save itself already succeeded; surface the failure so the job is retried
+      console.warn('Note embedding failed; leaving the note for a retry', e);
+      throw e;
+    }
+
+    // Chunking over body text (prefer excluding the synthesized title). Nothing is written until
+    // every chunk is embedded and the entities are known, see the transaction below.
+    setProcessingStatus(id, 'chunking');
+    const stored: StoredChunk[] = [];
+    let chunked = false;
+    try {
+      const chunks = plainBody && plainBody.length > 0 ? chunkText(plainBody, { targetTokens: 350, overlapTokens: 80 }) : [];
+      // Previous chunks by text hash; identical chunks are matched in order
+      const reusable = new Map<string, Array<{ id: string; vec: Float32Array; entities: Entity[] | null }>>();
+      for (const prev of db.select().from(noteChunks).where(eq(noteChunks.noteId, id)).all()) {
+        const vec = isCurrentVector(prev, model) ? fromBlob(prev.embedding) : null;
+        if (!prev.contentHash || !vec) continue;
+        const entry = { id: prev.id, vec, entities: safeParseJSON(prev.entities) as Entity[] | null };
+        const list = reusable.get(prev.contentHash);
+        if (list) list.push(entry);
+        else reusable.set(prev.contentHash, [entry]);
+      }
+      const fresh: Array<{ chunk: (typeof chunks)[number]; hash: string }> = [];
+      let reused = 0;
+      let chunkFailures = 0;
+      for (const ch of chunks) {
+        const chunkHash = contentHash(ch.text);
+        const prev = reusable.get(chunkHash)?.shift();
+        if (!prev) {
+          fresh.push({ chunk: ch, hash: chunkHash });
+          continue;
+        }
+        stored.push({ id: prev.id, chunk: ch, hash: chunkHash, vec: prev.vec, embedding: null, entities: prev.entities });
+        reused++;
+      }
+      // New or edited chunks are embedded in batches; a failed batch skips only its chunks
+      for (let i = 0; i < fresh.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = fresh.slice(i, i + EMBEDDING_BATCH_SIZE);
+        let vecs: number[][];
+        try {
+          vecs = await embedWithModel(model, batch.map((b) => b.chunk.text));
+        } catch (e) {
+          console.warn('Failed to embed chunk batch; skipping its chunks', e);
+          chunkFailures += batch.length;
+          continue;
+        }
+        batch.forEach(({ chunk: ch, hash: chunkHash }, j) => {
+          stored.push({ id: randomUUID(), chunk: ch, hash: chunkHash, vec: normalize(vecs[j]), embedding: encodeEmbedding(vecs[j], model), entities: null });
+        });
+        try { console.log(`[bg] note ${id} embedded ${batch.length} chunk(s) in one batch`); } catch {}
+      }
+      chunked = true;
+      try { console.log(`[bg] note ${id} chunk count: ${chunks.length} (${reused} unchanged)`); } catch {}
+      if (chunkFailures > 0) failures.push(`chunking: ${chunkFailures} of ${chunks.length} chunks could not be embedded`);
+    } catch (e) {
+      console.warn('Chunking/embedding chunks failed; proceeding without chunk storage', e);
+      failures.push(`chunking: ${errorMessage(e)}`);
+    }
+
+    // Note entities to store; null keeps the current ones
+    let entities: Entity[] | null = null;
+    if (enrichment) {
+      entities = aggregateEntities(enrichment.entities);
+      try { console.log(`[bg] note ${id} entities count (enrichment): ${entities.length}`); } catch {}
+    } else {
+      // Fallback: entities are extracted per chunk and cached on it; only new chunks are sent to the model
+      setProcessingStatus(id, 'entities');
+      const allEntities: Array<{ entity: string; weight?: number }> = [];
+      let entityFailures = 0;
+      for (const chunk of stored) {
+        if (!chunk.entities) {
+          try {
+            const ents = await generateEntitiesFromText(chunk.chunk.text);
+            chunk.entities = ents.map((e) => ({ entity: e.entity, weight: e.weight }));
+          } catch (e) {
+            console.warn('Entity extraction failed for chunk; continuing', e);
+            entityFailures++;
+            continue;
+          }
+        }
+        for (const e of chunk.entities) allEntities.push({ entity: e.entity, weight: e.weight });
+      }
+      if (entityFailures > 0) failures.push(`entities: extraction failed for ${entityFailures} of ${stored.length} chunks`);
+      if (allEntities.length > 0) entities = aggregateEntities(allEntities);
+      else if (entityFailures === 0) entities = [];
+      if (entities) try { console.log(`[bg] note ${id} entities count (aggregated): ${entities.length}`); } catch {}
+    }
+
+    // Chunks and entities are written together, and only while the note is still live: without
+    // foreign keys, rows written after a permanent delete would be left behind
+    const written = db.transaction((tx) => {
+      if (!isLive(id, tx)) return false;
+      if (chunked) {
+        for (const c of stored) {
+          const placement = { ord: String(c.chunk.ord), startOffset: c.chunk.startIndex, endOffset: c.chunk.endIndex };
+          const cachedEntities = c.entities ? JSON.stringify(c.entities) : null;
+          if (c.embedding) {
+            tx.insert(noteChunks)
+              .values({ id: c.id, noteId: id, text: c.chunk.text, contentHash: c.hash, entities: cachedEntities, ...placement, ...c.embedding })
+              .run();
+          } else {
+            tx.update(noteChunks).set({ ...placement, entities: cachedEntities }).where(eq(noteChunks.id, c.id)).run();
+          }
+        }
+        // Drop chunks that no longer exist in the body
+        const keep = stored.map((c) => c.id);
+        tx.delete(noteChunks)
+          .where(keep.length > 0 ? and(eq(noteChunks.noteId, id), notInArray(noteChunks.id, keep)) : eq(noteChunks.noteId, id))
+          .run();
+      }
+      if (entities) setNoteEntities(id, entities, 'ner');
+      return true;
+    });
+    if (!written) return dropProcessing(id);
+    if (chunked) annReplaceChunks(id, stored.map((c) => ({ id: c.id, vec: c.vec })));
+  } else {
+    try { console.log(`[bg] note ${id} has no text to embed`); } catch {}
+  }
+
+  try { console.log(`[bg] done processing note ${id}`); } catch {}
+  if (failures.length > 0) throw new Error(`Processing incomplete (${failures.join('; ')})`);
+  if (activeEmbeddingModel().id !== model.id) throw new Error(`Embedding model switched from ${model.name} during processing`);
+  finishProcessing(id, hash);
+}
+
+// Remember what was processed, then notify listeners that processing (embeddings/tags/entities) has completed
+function finishProcessing(id: string, hash: string | null) {
+  db.update(notes).set({ contentHash: hash }).where(eq(notes.id, id)).run();
+  setProcessingStatus(id, 'done');
+  try {
+    getNoteEmitter(id).emit('processed', { id });
+  } catch {}
+}
+
+// Whether the note still exists outside the trash. Stages await models, so the note can be
+// trashed or deleted in the meantime; this is checked right before their results are written.
+function isLive(id: string, runner: Pick<typeof db, 'select'> = db): boolean {
+  return !!runner.select({ id: notes.id }).from(notes).where(and(eq(notes.id, id), isNull(notes.deletedAt))).get();
+}
+
+// Stop without writing anything more; a trashed note is processed again when it is restored
+function dropProcessing(id: string) {
+  try { console.log(`[bg] note ${id} was trashed or deleted during processing; dropping the results`); } catch {}
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
@@ -0,0 +1,100 @@
+// Read/write helpers for the normalized note_tags and note_entities tables
+import { db, noteTags, noteEntities } from '@/db/client';
+import { asc, desc, eq, inArray, sql } from 'drizzle-orm';
+import { toEntityMap, type Entity } from './entities';
+import { refreshTagStats } from './tagStats';
+
+export type TagSource = 'llm' | 'manual' | string;
+
+// Tags for one note, in the order they were generated
+export function getNoteTags(noteId: string): string[] {
+  return db
+    .select({ tag: noteTags.tag })
+    .from(noteTags)
+    .where(eq(noteTags.noteId, noteId))
+    .orderBy(sql`rowid`)
+    .all()
+    .map((r) => r.tag);
+}
+
+// Entities for one note, heaviest first
+export function getNoteEntities(noteId: string): Entity[] {
+  return db
+    .select({ entity: noteEntities.entity, weight: noteEntities.weight, source: noteEntities.source })
+    .from(noteEntities)
+    .where(eq(noteEntities.noteId, noteId))
+    .orderBy(desc(noteEntities.weight), asc(noteEntities.entity))
+    .all();
+}
+
+// Bulk load: noteId -> tags. Without ids, loads every note's tags.
+export function tagsByNote(noteIds?: string[]): Map<string, string[]> {
+  const out = new Map<string, string[]>();
+  if (noteIds && noteIds.length === 0) return out;
+  const base = db.select({ noteId: noteTags.noteId, tag: noteTags.tag }).from(noteTags);
+  const rows = (noteIds ? base.where(inArray(noteTags.noteId, noteIds)) : base)
+    .orderBy(sql`rowid`)
+    .all();
+  for (const r of rows) {
+    const list = out.get(r.noteId);
+    if (list) list.push(r.tag);
+    else out.set(r.noteId, [r.tag]);
+  }
+  return out;
+}
+
+// Bulk load: noteId -> entities (heaviest first). Without ids, loads every note's entities.
+export function entitiesByNote(noteIds?: string[]): Map<string, Entity[]> {
+  const out = new Map<string, Entity[]>();
+  if (noteIds && noteIds.length === 0) return out;
+  const base = db
+    .select({ noteId: noteEntities.noteId, entity: noteEntities.entity, weight: noteEntities.weight, source: noteEntities.source })
+    .from(noteEntities);
+  const rows = (noteIds ? base.where(inArray(noteEntities.noteId, noteIds)) : base)
+    .orderBy(desc(noteEntities.weight), asc(noteEntities.entity))
+    .all();
+  for (const r of rows) {
+    const e: Entity = { entity: r.entity, weight: r.weight, source: r.source };
+    const list = out.get(r.noteId);
+    if (list) list.push(e);
+    else out.set(r.noteId, [e]);
+  }
+  return out;
+}
+
+// Replace a note's tags and refresh the document frequency of every tag added or removed
+export function setNoteTags(noteId: string, tags: string[], source: TagSource = 'llm') {
+  const now = new Date().toISOString();
+  const unique = Array.from(new Set(tags.filter((t) => typeof t === 'string' && t.length > 0)));
+  db.transaction((tx) => {
+    const previous = tx.select({ tag: noteTags.tag }).from(noteTags).where(eq(noteTags.noteId, noteId)).all().map((r) => r.tag);
+    tx.delete(noteTags).where(eq(noteTags.noteId, noteId)).run();
+    if (unique.length > 0) {
+      tx.insert(noteTags).values(unique.map((tag) => ({ noteId, tag, source, createdAt: now }))).run();
+    }
+    refreshTagStats(Array.from(new Set([...previous, ...unique])), tx);
+  });
+}
+
+// Replace a note's entities; names are canonicalized and duplicate weights summed
+export function setNoteEntities(noteId: string, entities: Array<{ entity: string; weight?: number; source?: string }>, source = 'ner') {
+  const now = new Date().toISOString();
+  const merged = toEntityMap(entities);
+  db.transaction((tx) => {
+    tx.delete(noteEntities).where(eq(noteEntities.noteId, noteId)).run();
+    const rows = Array.from(merged.entries())
+      .filter(([, weight]) => weight > 0)
+      .map(([entity, weight]) => ({ noteId, entity, weight, source, createdAt: now }));
+    if (rows.length > 0) tx.insert(noteEntities).values(rows).run();
+  });
+}
+
+// Ids of notes carrying a tag (uses note_tags_tag_idx)
+export function noteIdsWithTag(tag: string): string[] {
+  return db
+    .select({ noteId: noteTags.noteId })
+    .from(noteTags)
+    .where(eq(noteTags.tag, tag))
+    .all()
+    .map((r) => r.noteId);
+}
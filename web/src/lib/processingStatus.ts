@@ -0,0 +1,40 @@
+// Per-note background processing state, persisted on the note row and broadcast as a
+// 'status' event on the note's emitter (streamed by /api/notes/[id]/events).
+import { db, notes } from '@/db/client';
+import { eq } from 'drizzle-orm';
+import { getNoteEmitter } from './noteEvents';
+
+export type ProcessingStage = 'queued' | 'enriching' | 'embedding' | 'chunking' | 'entities' | 'done' | 'failed';
+
+export type ProcessingStatus = {
+  id: string;
+  status: ProcessingStage | null;
+  error: string | null;
+  updatedAt: string | null;
+};
+
+// Stages during which a job is waiting or running
+export const ACTIVE_STAGES: ProcessingStage[] = ['queued', 'enriching', 'embedding', 'chunking', 'entities'];
+
+export function setProcessingStatus(noteId: string, status: ProcessingStage, error: string | null = null): ProcessingStatus {
+  const updatedAt = new Date().toISOString();
+  db.update(notes)
+    .set({ processingStatus: status, processingError: error, processingUpdatedAt: updatedAt })
+    .where(eq(notes.id, noteId))
+    .run();
+  const payload: ProcessingStatus = { id: noteId, status, error, updatedAt };
+  try {
+    getNoteEmitter(noteId).emit('status', payload);
+  } catch {}
+  return payload;
+}
+
+export function getProcessingStatus(noteId: string): ProcessingStatus | null {
+  const row = db
+    .select({ status: notes.processingStatus, error: notes.processingError, updatedAt: notes.processingUpdatedAt })
+    .from(notes)
+    .where(eq(notes.id, noteId))
+    .all()[0];
+  if (!row) return null;
+  return { id: noteId, status: (row.status as ProcessingStage | null) ?? null, error: row.error ?? null, updatedAt: row.updatedAt ?? null };
+}
@@ -0,0 +1,216 @@
+// Full re-embedding of the corpus with another embedding model (or a new version of the
+// active one). Vectors are computed into embedding_staging while the active model keeps
+// serving queries; once every note and chunk has a staged vector they are swapped in with one
+// transaction and the new model becomes active. Runs as a 'reindex_embeddings' job (see
+// lib/jobQueue.ts), so it survives restarts and resumes from what was already staged.
+import { db, embeddingModels, embeddingStaging, notes, noteChunks, type EmbeddingModel } from '@/db/client';
+import { and, eq, inArray } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { buildNoteTextForEmbedding } from './embeddings';
+import { activeEmbeddingModel } from './embeddingModels';
+import { EMBEDDING_BATCH_SIZE, getEmbeddingProvider, type EmbeddingProviderId } from './embeddingProvider';
+import { contentHash } from './contentHash';
+import { toBlob, normalize } from './vectors';
+import { reloadAnnIndex } from './annIndex';
+
+export type ReindexStartResult =
+  | { model: EmbeddingModel }
+  | { error: 'already_running' | 'model_unavailable'; message: string; model?: EmbeddingModel };
+
+// Passes over the corpus before switching; later passes only pick up content edited meanwhile
+const MAX_PASSES = 3;
+
+type Item = { kind: 'note' | 'chunk'; refId: string; noteId: string; text: string; hash: string };
+
+function safeParseJSON(input: string | null | undefined) {
+  if (!input) return null;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return null;
+  }
+}
+
+export function currentReindex(): EmbeddingModel | null {
+  return db.select().from(embeddingModels).where(eq(embeddingModels.status, 'indexing')).all()[0] ?? null;
+}
+
+// Register `name` (served by `provider`) as the model being indexed. Probes the model first so a
+// typo or a model that is not pulled fails here rather than in the background.
+export async function startReindex(name: string, provider: EmbeddingProviderId): Promise<ReindexStartResult> {
+  const running = currentReindex();
+  if (running) return { error: 'already_running', message: `A reindex to ${running.name} is already running`, model: running };
+  const embedder = getEmbeddingProvider(provider);
+  let dim: number;
+  try {
+    const [probe] = await embedder.embed(['dimension probe'], name);
+    dim = probe.length;
+  } catch (e) {
+    return { error: 'model_unavailable', message: `Could not embed with ${provider}/${name}: ${e instanceof Error ? e.message : String(e)}` };
+  }
+  const version = await embedder.version(name).catch(() => null);
+  const now = new Date().toISOString();
+  const model: EmbeddingModel = {
+    id: randomUUID(),
+    name,
+    provider,
+    version,
+    dim,
+    status: 'indexing',
+    total: 0,
+    processed: 0,
+    failed: 0,
+    lastError: null,
+    createdAt: now,
+    updatedAt: now,
+    activatedAt: null,
+  };
+  db.insert(embeddingModels).values(model).run();
+  try { console.log(`[reindex] started for ${provider}/${name}${version ? ` (${version})` : ''}, ${dim} dims`); } catch {}
+  return { model };
+}
+
+// Stop the running reindex and discard its staged vectors; the active model is untouched
+export function cancelReindex(): EmbeddingModel | null {
+  const running = currentReindex();
+  if (!running) return null;
+  const now = new Date().toISOString();
+  db.transaction((tx) => {
+    tx.update(embeddingModels).set({ status: 'cancelled', updatedAt: now }).where(eq(embeddingModels.id, running.id)).run();
+    tx.delete(embeddingStaging).where(eq(embeddingStaging.modelId, running.id)).run();
+  });
+  return { ...running, status: 'cancelled', updatedAt: now };
+}
+
+// Every text that needs a vector, with the hash used to detect edits made during the reindex
+function corpusItems(): Item[] {
+  const items: Item[] = [];
+  for (const n of db.select({ id: notes.id, title: notes.title, contentJson: notes.contentJson }).from(notes).all()) {
+    const text = buildNoteTextForEmbedding(n.title, safeParseJSON(n.contentJson) ?? {});
+    if (text) items.push({ kind: 'note', refId: n.id, noteId: n.id, text, hash: contentHash(text) });
+  }
+  for (const ch of db.select({ id: noteChunks.id, noteId: noteChunks.noteId, text: noteChunks.text, contentHash: noteChunks.contentHash }).from(noteChunks).all()) {
+    items.push({ kind: 'chunk', refId: ch.id, noteId: ch.noteId, text: ch.text, hash: ch.contentHash ?? contentHash(ch.text) });
+  }
+  return items;
+}
+
+function stagedHashes(modelId: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const r of db
+    .select({ kind: embeddingStaging.kind, refId: embeddingStaging.refId, contentHash: embeddingStaging.contentHash })
+    .from(embeddingStaging)
+    .where(eq(embeddingStaging.modelId, modelId))
+    .all()) {
+    out.set(`${r.kind}:${r.refId}`, r.contentHash);
+  }
+  return out;
+}
+
+function stillRunning(modelId: string): boolean {
+  return currentReindex()?.id === modelId;
+}
+
+function reportProgress(modelId: string, progress: { total: number; processed: number; failed: number; lastError?: string | null }) {
+  db.update(embeddingModels)
+    .set({ ...progress, updatedAt: new Date().toISOString() })
+    .where(eq(embeddingModels.id, modelId))
+    .run();
+}
+
+// Job handler: embed everything not staged yet, then switch over. Returns the ids of notes whose
+// vectors could not be carried over (edited during the switch), so the caller can reprocess them.
+export async function runReindex(): Promise<string[]> {
+  const model = currentReindex();
+  if (!model) return [];
+  for (let pass = 1; pass <= MAX_PASSES; pass++) {
+    const items = corpusItems();
+    const staged = stagedHashes(model.id);
+    const pending = items.filter((it) => staged.get(`${it.kind}:${it.refId}`) !== it.hash);
+    let processed = items.length - pending.length;
+    let failed = 0;
+    let lastError: string | null = null;
+    reportProgress(model.id, { total: items.length, processed, failed });
+    try { console.log(`[reindex] ${model.name} pass ${pass}: ${pending.length} of ${items.length} to embed`); } catch {}
+    if (pending.length === 0) break;
+
+    const embedder = getEmbeddingProvider(model.provider);
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+      if (!stillRunning(model.id)) return [];
+      const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+      let staged = 0;
+      try {
+        const vecs = await embedder.embed(batch.map((it) => it.text), model.name);
+        batch.forEach((it, j) => {
+          const vec = vecs[j];
+          if (model.dim != null && vec.length !== model.dim) throw new Error(`Expected ${model.dim} dims, got ${vec.length}`);
+          const row = { modelId: model.id, kind: it.kind, refId: it.refId, contentHash: it.hash, embedding: toBlob(normalize(vec)), dim: vec.length };
+          db.insert(embeddingStaging)
+            .values(row)
+            .onConflictDoUpdate({
+              target: [embeddingStaging.modelId, embeddingStaging.kind, embeddingStaging.refId],
+              set: { contentHash: row.contentHash, embedding: row.embedding, dim: row.dim, createdAt: new Date().toISOString() },
+            })
+            .run();
+          staged++;
+        });
+      } catch (e) {
+        failed += batch.length - staged;
+        lastError = e instanceof Error ? e.message : String(e);
+      }
+      processed += staged;
+      reportProgress(model.id, { total: items.length, processed, failed, lastError });
+    }
+    reportProgress(model.id, { total: items.length, processed, failed, lastError });
+    // Leave the staged vectors in place; the job is retried and resumes from them
+    if (failed > 0) throw new Error(`Reindex to ${model.name}: ${failed} of ${items.length} texts could not be embedded (${lastError})`);
+  }
+  if (!stillRunning(model.id)) return [];
+  return switchOver(model);
+}
+
+// Apply staged vectors whose text is unchanged, make the model active and retire the old one
+function switchOver(model: EmbeddingModel): string[] {
+  const stale = new Set<string>();
+  const now = new Date().toISOString();
+  const columns = (embedding: Buffer, dim: number) => ({ embedding, embeddingModel: model.name, embeddingVersion: model.version, embeddingDim: dim });
+  db.transaction((tx) => {
+    const staged = new Map<string, { contentHash: string; embedding: Buffer; dim: number }>();
+    for (const r of tx.select().from(embeddingStaging).where(eq(embeddingStaging.modelId, model.id)).all()) {
+      staged.set(`${r.kind}:${r.refId}`, r);
+    }
+    for (const it of corpusItems()) {
+      const s = staged.get(`${it.kind}:${it.refId}`);
+      if (!s || s.contentHash !== it.hash) {
+        stale.add(it.noteId);
+        continue;
+      }
+      if (it.kind === 'note') tx.update(notes).set(columns(s.embedding, s.dim)).where(eq(notes.id, it.refId)).run();
+      else tx.update(noteChunks).set(columns(s.embedding, s.dim)).where(eq(noteChunks.id, it.refId)).run();
+    }
+    const previous = activeEmbeddingModel();
+    tx.update(embeddingModels).set({ status: 'retired', updatedAt: now }).where(eq(embeddingModels.id, previous.id)).run();
+    tx.update(embeddingModels)
+      .set({ status: 'active', activatedAt: now, updatedAt: now, lastError: null })
+      .where(eq(embeddingModels.id, model.id))
+      .run();
+    tx.delete(embeddingStaging).where(eq(embeddingStaging.modelId, model.id)).run();
+    // Stale notes are reprocessed from scratch with the new model
+    if (stale.size > 0) tx.update(notes).set({ contentHash: null }).where(inArray(notes.id, Array.from(stale))).run();
+  });
+  try { reloadAnnIndex(); } catch (e) { console.error('[reindex] ANN index reload failed', e); }
+  try { console.log(`[reindex] switched to ${model.name}; ${stale.size} note(s) left to reprocess`); } catch {}
+  return Array.from(stale);
+}
+
+// Drop staged vectors of a note and its chunks; call before the chunks themselves are deleted
+export function removeStagedVectors(noteId: string, runner: Pick<typeof db, 'delete' | 'select'> = db) {
+  runner.delete(embeddingStaging).where(and(eq(embeddingStaging.kind, 'note'), eq(embeddingStaging.refId, noteId))).run();
+  runner
+    .delete(embeddingStaging)
+    .where(and(
+      eq(embeddingStaging.kind, 'chunk'),
+      inArray(embeddingStaging.refId, runner.select({ id: noteChunks.id }).from(noteChunks).where(eq(noteChunks.noteId, noteId))),
+    ))
+    .run();
+}
@@ -0,0 +1,205 @@
+// Note revision history: snapshot on save, coalesce autosave bursts, block-level diffs
+import { db, notes, noteRevisions, type Note, type NoteRevision } from '@/db/client';
+import { and, desc, eq } from 'drizzle-orm';
+import { randomUUID } from 'crypto';
+import { extractPlainTextFromTiptap } from './embeddings';
+import { indexNoteText } from './fts';
+
+// Autosaves closer together than this extend the latest revision instead of adding one
+const BURST_IDLE_MS = Number(process.env.NOTE_REVISION_BURST_IDLE_MS) || 5 * 60 * 1000;
+// ...but a single burst never spans longer than this
+const BURST_MAX_MS = Number(process.env.NOTE_REVISION_BURST_MAX_MS) || 30 * 60 * 1000;
+
+export type RevisionSource = 'initial' | 'autosave' | 'restore';
+
+export type RevisionSummary = {
+  id: string;
+  title: string;
+  source: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function latestRevision(noteId: string): NoteRevision | undefined {
+  return db
+    .select()
+    .from(noteRevisions)
+    .where(eq(noteRevisions.noteId, noteId))
+    .orderBy(desc(noteRevisions.updatedAt))
+    .limit(1)
+    .all()[0];
+}
+
+export function listRevisions(noteId: string): RevisionSummary[] {
+  return db
+    .select({
+      id: noteRevisions.id,
+      title: noteRevisions.title,
+      source: noteRevisions.source,
+      createdAt: noteRevisions.createdAt,
+      updatedAt: noteRevisions.updatedAt,
+    })
+    .from(noteRevisions)
+    .where(eq(noteRevisions.noteId, noteId))
+    .orderBy(desc(noteRevisions.updatedAt))
+    .all();
+}
+
+export function getRevision(noteId: string, revisionId: string): NoteRevision | undefined {
+  return db
+    .select()
+    .from(noteRevisions)
+    .where(and(eq(noteRevisions.noteId, noteId), eq(noteRevisions.id, revisionId)))
+    .all()[0];
+}
+
+// Record the saved state of a note. `previous` is the row before this save; when the note
+// has no history yet it becomes the first revision so the pre-edit state is recoverable.
+export function recordRevision(
+  noteId: string,
+  input: { title: string; titleSource: string; contentJson: string; source?: RevisionSource; previous?: Note }
+): NoteRevision {
+  const source = input.source ?? 'autosave';
+  const now = new Date();
+  const nowIso = now.toISOString();
+  let latest = latestRevision(noteId);
+
+  if (!latest && input.previous && input.previous.contentJson !== input.contentJson) {
+    const prevAt = input.previous.updatedAt || nowIso;
+    latest = {
+      id: randomUUID(),
+      noteId,
+      title: input.previous.title,
+      titleSource: input.previous.titleSource,
+      contentJson: input.previous.contentJson,
+      source: 'initial',
+      createdAt: prevAt,
+      updatedAt: prevAt,
+    };
+    db.insert(noteRevisions).values(latest).run();
+  }
+
+  if (latest) {
+    const unchanged = latest.contentJson === input.contentJson
+      && latest.title === input.title
+      && latest.titleSource === input.titleSource;
+    if (unchanged && source === 'autosave') return latest;
+
+    const sinceUpdate = now.getTime() - Date.parse(latest.updatedAt);
+    const sinceCreate = now.getTime() - Date.parse(latest.createdAt);
+    const inBurst = source === 'autosave'
+      && latest.source === 'autosave'
+      && sinceUpdate >= 0 && sinceUpdate < BURST_IDLE_MS
+      && sinceCreate < BURST_MAX_MS;
+    if (inBurst) {
+      db.update(noteRevisions)
+        .set({ title: input.title, titleSource: input.titleSource, contentJson: input.contentJson, updatedAt: nowIso })
+        .where(eq(noteRevisions.id, latest.id))
+        .run();
+      return { ...latest, title: input.title, titleSource: input.titleSource, contentJson: input.contentJson, updatedAt: nowIso };
+    }
+  }
+
+  const row: NoteRevision = {
+    id: randomUUID(),
+    noteId,
+    title: input.title,
+    titleSource: input.titleSource,
+    contentJson: input.contentJson,
+    source,
+    createdAt: nowIso,
+    updatedAt: nowIso,
+  };
+  db.insert(noteRevisions).values(row).run();
+  return row;
+}
+
+// Replace the note's title/content with a revision and record the restore as its own revision.
+// The title comes back with its source: a typed title stays locked, a generated one is regenerated.
+export function restoreRevision(noteId: string, revisionId: string): NoteRevision | null {
+  const rev = getRevision(noteId, revisionId);
+  if (!rev) return null;
+  const existing = db.select().from(notes).where(eq(notes.id, noteId)).all()[0];
+  if (!existing) return null;
+  db.update(notes)
+    .set({ title: rev.title, titleSource: rev.titleSource, contentJson: rev.contentJson, updatedAt: new Date().toISOString() })
+    .where(eq(notes.id, noteId))
+    .run();
+  indexNoteText(noteId, rev.title, rev.contentJson);
+  return recordRevision(noteId, {
+    title: rev.title,
+    titleSource: rev.titleSource,
+    contentJson: rev.contentJson,
+    source: 'restore',
+    previous: existing,
+  });
+}
+
+// --- Block-level diff ---
+
+export type BlockDiffStatus = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export type BlockDiff = {
+  status: BlockDiffStatus;
+  blockId: string | null;
+  type: string | null;
+  before: string | null; // plain text of the block before (null when added)
+  after: string | null;  // plain text of the block after (null when removed)
+};
+
+type KeyedBlock = { key: string; id: string | null; type: string | null; json: string; text: string };
+
+function keyedBlocks(doc: unknown): KeyedBlock[] {
+  // BlockNote documents are arrays of blocks; anything else is treated as a single block
+  const blocks: unknown[] = Array.isArray(doc) ? doc : (doc ? [doc] : []);
+  return blocks.map((b, i) => {
+    const obj = (b && typeof b === 'object' ? b : {}) as { id?: unknown; type?: unknown };
+    const id = typeof obj.id === 'string' && obj.id ? obj.id : null;
+    return {
+      key: id ?? `#${i}`,
+      id,
+      type: typeof obj.type === 'string' ? obj.type : null,
+      json: JSON.stringify(b),
+      text: extractPlainTextFromTiptap([b]),
+    };
+  });
+}
+
+// Align top-level blocks by id (index for id-less blocks) using an LCS over the key
+// sequences, so moved-but-equal blocks show as remove+add and edited ones as modified.
+export function diffBlocks(before: unknown, after: unknown): BlockDiff[] {
+  const a = keyedBlocks(before);
+  const b = keyedBlocks(after);
+  const n = a.length;
+  const m = b.length;
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].key === b[j].key ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: BlockDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i].key === b[j].key) {
+      out.push({
+        status: a[i].json === b[j].json ? 'unchanged' : 'modified',
+        blockId: b[j].id,
+        type: b[j].type ?? a[i].type,
+        before: a[i].text,
+        after: b[j].text,
+      });
+      i++;
+      j++;
+    } else if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      out.push({ status: 'added', blockId: b[j].id, type: b[j].type, before: null, after: b[j].text });
+      j++;
+    } else {
+      out.push({ status: 'removed', blockId: a[i].id, type: a[i].type, before: a[i].text, after: null });
+      i++;
+    }
+  }
+  return out;
+}
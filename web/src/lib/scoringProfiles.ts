@@ -0,0 +1,160 @@
+// Stored link-scoring profiles. Each training run (lib/linkTrainer.ts) saves a new global version,
+// activated only when it beats the active profile on held-out feedback (otherwise kept as
+// 'retired'); a space can also carry its own profile, edited on the spaces page. Notes are
+// scored with their space's active profile, else the global one, else the built-in defaults
+// (DEFAULT_SCORING_PROFILE). Versions are numbered across all scopes.
+import { db, scoringProfiles, type ScoringProfileRow } from '@/db/client';
+import { randomUUID } from 'crypto';
+import { and, desc, eq, isNull, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { DEFAULT_SCORING_PROFILE, FEATURE_KEYS, type FeatureWeights, type ScoringProfile } from './linkScoring';
+
+export type NewScoringProfile = Omit<ScoringProfile, 'version'> & {
+  samples: number;
+  positives: number;
+  negatives: number;
+  metrics: unknown;
+};
+
+// Where a note's profile comes from
+export type ScoringProfileSource = 'space' | 'global' | 'default';
+
+// Hand-edited profile settings (space settings and their preview)
+export const ScoringProfileInput = z.object({
+  model: z.enum(['linear', 'logistic']).default('linear'),
+  weights: z.object(Object.fromEntries(FEATURE_KEYS.map((k) => [k, z.number().min(-20).max(20)])) as Record<keyof FeatureWeights, z.ZodNumber>),
+  bias: z.number().min(-20).max(20).default(0),
+  guardrail: z.boolean().default(false),
+  hardThreshold: z.number().min(0).max(1),
+  softThreshold: z.number().min(0).max(1),
+  aggregate: z.enum(['mean', 'max']).default('mean'),
+}).refine((p) => p.softThreshold <= p.hardThreshold, { message: 'softThreshold must not exceed hardThreshold', path: ['softThreshold'] });
+
+function parseWeights(json: string): FeatureWeights {
+  let raw: Record<string, unknown> = {};
+  try {
+    raw = JSON.parse(json) ?? {};
+  } catch {}
+  const weights = { ...DEFAULT_SCORING_PROFILE.weights };
+  for (const k of FEATURE_KEYS) {
+    const v = Number(raw[k]);
+    if (Number.isFinite(v)) weights[k] = v;
+  }
+  return weights;
+}
+
+export function toScoringProfile(row: ScoringProfileRow): ScoringProfile {
+  return {
+    version: row.version,
+    model: row.model === 'logistic' ? 'logistic' : 'linear',
+    weights: parseWeights(row.weights),
+    bias: row.bias,
+    guardrail: row.guardrail,
+    hardThreshold: row.hardThreshold,
+    softThreshold: row.softThreshold,
+    aggregate: row.aggregate === 'max' ? 'max' : 'mean',
+  };
+}
+
+function scopeCondition(spaceId: string | null) {
+  return spaceId ? eq(scoringProfiles.spaceId, spaceId) : isNull(scoringProfiles.spaceId);
+}
+
+// Stored versions, newest first; `spaceId` limits them to one scope (null = global)
+export function listScoringProfiles(spaceId?: string | null): ScoringProfileRow[] {
+  const base = db.select().from(scoringProfiles);
+  return (spaceId === undefined ? base : base.where(scopeCondition(spaceId))).orderBy(desc(scoringProfiles.version)).all();
+}
+
+function activeRow(spaceId: string | null): ScoringProfileRow | undefined {
+  return db.select().from(scoringProfiles).where(and(scopeCondition(spaceId), eq(scoringProfiles.status, 'active'))).all()[0];
+}
+
+// The profile that scores links for notes in `spaceId` (or notes without a space), and its origin
+export function resolveScoringProfile(spaceId?: string | null): { profile: ScoringProfile; source: ScoringProfileSource } {
+  const own = spaceId ? activeRow(spaceId) : undefined;
+  if (own) return { profile: toScoringProfile(own), source: 'space' };
+  const global = activeRow(null);
+  if (global) return { profile: toScoringProfile(global), source: 'global' };
+  return { profile: DEFAULT_SCORING_PROFILE, source: 'default' };
+}
+
+export function activeScoringProfile(spaceId?: string | null): ScoringProfile {
+  return resolveScoringProfile(spaceId).profile;
+}
+
+// Store a profile as the next version and make it the active one in its scope; with
+// `activate: false` it is stored as 'retired' (kept for inspection or a later activation)
+export function saveScoringProfile(p: NewScoringProfile, spaceId: string | null = null, opts?: { activate?: boolean }): ScoringProfileRow {
+  const now = new Date().toISOString();
+  const activate = opts?.activate ?? true;
+  return db.transaction((tx) => {
+    const last = tx.get<{ v: number | null }>(sql`SELECT MAX(version) AS v FROM scoring_profiles`)?.v ?? 0;
+    if (activate) {
+      tx.update(scoringProfiles)
+        .set({ status: 'retired' })
+        .where(and(scopeCondition(spaceId), eq(scoringProfiles.status, 'active')))
+        .run();
+    }
+    const row = {
+      id: randomUUID(),
+      version: last + 1,
+      spaceId,
+      status: activate ? 'active' : 'retired',
+      model: p.model,
+      weights: JSON.stringify(p.weights),
+      bias: p.bias,
+      guardrail: p.guardrail,
+      aggregate: p.aggregate,
+      hardThreshold: p.hardThreshold,
+      softThreshold: p.softThreshold,
+      samples: p.samples,
+      positives: p.positives,
+      negatives: p.negatives,
+      metrics: JSON.stringify(p.metrics),
+      createdAt: now,
+      activatedAt: activate ? now : null,
+    };
+    tx.insert(scoringProfiles).values(row).run();
+    return row;
+  });
+}
+
+// Make a stored version active again in its scope (roll back), or return the global scope to
+// the defaults with version 0. Returns false when the version does not exist.
+export function activateScoringProfile(version: number): boolean {
+  return db.transaction((tx) => {
+    let spaceId: string | null = null;
+    if (version !== 0) {
+      const row = tx.select({ spaceId: scoringProfiles.spaceId }).from(scoringProfiles).where(eq(scoringProfiles.version, version)).all()[0];
+      if (!row) return false;
+      spaceId = row.spaceId ?? null;
+    }
+    tx.update(scoringProfiles)
+      .set({ status: 'retired' })
+      .where(and(scopeCondition(spaceId), eq(scoringProfiles.status, 'active')))
+      .run();
+    if (version !== 0) {
+      tx.update(scoringProfiles)
+        .set({ status: 'active', activatedAt: new Date().toISOString() })
+        .where(eq(scoringProfiles.version, version))
+        .run();
+    }
+    return true;
+  });
+}
+
+// Stop using a space's own profile; its notes fall back to the global profile
+export function clearSpaceScoringProfile(spaceId: string): boolean {
+  const res = db
+    .update(scoringProfiles)
+    .set({ status: 'retired' })
+    .where(and(eq(scoringProfiles.spaceId, spaceId), eq(scoringProfiles.status, 'active')))
+    .run();
+  return res.changes > 0;
+}
+
+// Remove every profile version of a deleted space
+export function deleteSpaceScoringProfiles(spaceId: string) {
+  db.delete(scoringProfiles).where(eq(scoringProfiles.spaceId, spaceId)).run();
+}
@@ -0,0 +1,303 @@
+// Note search: chunk-level vector similarity and FTS5/BM25 keyword hits, fused with
+// reciprocal rank fusion. Each hit carries the best-matching chunk and its offsets.
+import { db, notes, noteChunks, noteEntities, noteTags, spaces } from '@/db/client';
+import { and, desc, eq, gte, inArray, isNull, lt, or, sql, type SQL } from 'drizzle-orm';
+import { annHasChunks, annSearchChunks, annSearchNotes } from './annIndex';
+import { currentVectorCondition, embedWithActiveModel } from './embeddingModels';
+import { normalizeEntityName } from './entities';
+import { ACTIVE_STAGES } from './processingStatus';
+import { keywordSearch, toFtsQuery, type KeywordHit } from './fts';
+import { hasFilters, type SearchFilters } from './searchQuery';
+import { normalizeTags } from './tags';
+import { dot, fromBlob, normalize } from './vectors';
+
+export type SearchMode = 'hybrid' | 'semantic' | 'keyword';
+
+export type ChunkMatch = {
+  ord: number;
+  text: string;
+  start: number | null; // offsets into the note's whitespace-collapsed plain body
+  end: number | null;
+};
+
+export type SearchHit = {
+  id: string;
+  title: string;
+  createdAt: string | null;
+  updatedAt: string | null;
+  score: number;                // RRF score in hybrid mode, otherwise the single ranking's score
+  semanticScore: number | null; // best cosine over the note's chunks (or its note-level vector)
+  keywordScore: number | null;  // -bm25 from notes_fts
+  chunk: ChunkMatch | null;
+  snippet: string | null;       // FTS excerpt with <mark> highlights (keyword matches only)
+  titleHighlight: string | null;
+};
+
+// Standard RRF damping constant; larger values flatten the contribution of top ranks
+const RRF_K = 60;
+// How many candidates each ranking contributes before fusion
+const CANDIDATE_POOL = 100;
+
+type SemanticHit = { noteId: string; score: number; chunk: ChunkMatch | null };
+
+// Conditions on the notes table for the given filters; undefined when nothing is filtered
+export function noteFilterCondition(f: SearchFilters): SQL | undefined {
+  const conds: SQL[] = [];
+  if (f.spaceId) conds.push(eq(notes.spaceId, f.spaceId));
+  if (f.space) {
+    const space = db
+      .select({ id: spaces.id })
+      .from(spaces)
+      .where(or(eq(spaces.id, f.space), sql`lower(${spaces.name}) = ${f.space.toLowerCase()}`))
+      .all()[0];
+    // Unknown space matches nothing rather than silently widening the search
+    conds.push(space ? eq(notes.spaceId, space.id) : sql`0`);
+  }
+  if (f.folder) conds.push(eq(notes.folder, f.folder));
+  for (const raw of f.tags ?? []) {
+    const tag = normalizeTags([raw])[0] ?? raw;
+    conds.push(inArray(notes.id, db.select({ id: noteTags.noteId }).from(noteTags).where(eq(noteTags.tag, tag))));
+  }
+  for (const raw of f.entities ?? []) {
+    const entity = normalizeEntityName(raw);
+    conds.push(inArray(notes.id, db.select({ id: noteEntities.noteId }).from(noteEntities).where(eq(noteEntities.entity, entity))));
+  }
+  if (f.createdAfter) conds.push(gte(notes.createdAt, f.createdAfter));
+  if (f.createdBefore) conds.push(lt(notes.createdAt, f.createdBefore));
+  if (f.updatedAfter) conds.push(gte(notes.updatedAt, f.updatedAfter));
+  if (f.updatedBefore) conds.push(lt(notes.updatedAt, f.updatedBefore));
+  if (f.status === 'processed') conds.push(eq(notes.processingStatus, 'done'));
+  if (f.status === 'failed') conds.push(eq(notes.processingStatus, 'failed'));
+  if (f.status === 'pending') conds.push(or(isNull(notes.processingStatus), inArray(notes.processingStatus, ACTIVE_STAGES)) as SQL);
+  for (const phrase of f.phrases ?? []) {
+    const match = toFtsQuery(`"${phrase}"`);
+    if (match) conds.push(sql`${notes.id} IN (SELECT note_id FROM notes_fts WHERE notes_fts MATCH ${match})`);
+  }
+  return conds.length > 0 ? and(...conds) : undefined;
+}
+
+// Filtered queries whose ANN candidates leave fewer notes than this are rescored by brute force,
+// since a narrow filter can exclude most of the global nearest neighbours
+const MIN_FILTERED_ANN_HITS = 10;
+
+// ANN retrieval: top chunks and note vectors, restricted to live notes passing the filters.
+// Returns null when the indexes cannot answer (not started, or a different vector dimension).
+function annSemanticRanking(qvec: Float32Array, where?: SQL): SemanticHit[] | null {
+  const chunkHits = annSearchChunks(qvec, CANDIDATE_POOL * 4);
+  const noteHits = annSearchNotes(qvec, CANDIDATE_POOL);
+  if (!chunkHits && !noteHits) return null;
+  const ids = Array.from(new Set([...(chunkHits ?? []).map((h) => h.noteId), ...(noteHits ?? []).map((h) => h.noteId)]));
+  if (ids.length === 0) return [];
+  const allowed = new Set(
+    db
+      .select({ id: notes.id })
+      .from(notes)
+      .where(and(inArray(notes.id, ids), isNull(notes.deletedAt), where))
+      .all()
+      .map((r) => r.id)
+  );
+  const bestChunk = new Map<string, { chunkId: string; score: number }>();
+  for (const h of chunkHits ?? []) {
+    if (!allowed.has(h.noteId)) continue;
+    const cur = bestChunk.get(h.noteId);
+    if (!cur || h.score > cur.score) bestChunk.set(h.noteId, { chunkId: h.chunkId, score: h.score });
+  }
+  const chunkIds = Array.from(bestChunk.values()).map((b) => b.chunkId);
+  const chunkRows = new Map(
+    (chunkIds.length > 0
+      ? db
+          .select({ id: noteChunks.id, ord: noteChunks.ord, text: noteChunks.text, startOffset: noteChunks.startOffset, endOffset: noteChunks.endOffset })
+          .from(noteChunks)
+          .where(inArray(noteChunks.id, chunkIds))
+          .all()
+      : []
+    ).map((r) => [r.id, r] as const)
+  );
+  const out: SemanticHit[] = [];
+  for (const [noteId, b] of bestChunk) {
+    const ch = chunkRows.get(b.chunkId);
+    out.push({
+      noteId,
+      score: b.score,
+      chunk: ch ? { ord: Number(ch.ord), text: ch.text, start: ch.startOffset ?? null, end: ch.endOffset ?? null } : null,
+    });
+  }
+  // Note-level vectors only stand in for notes without indexed chunks, as in the brute-force path
+  for (const h of noteHits ?? []) {
+    if (!allowed.has(h.noteId) || bestChunk.has(h.noteId) || annHasChunks(h.noteId)) continue;
+    out.push({ noteId: h.noteId, score: h.score, chunk: null });
+  }
+  return out.sort((a, b) => b.score - a.score).slice(0, CANDIDATE_POOL);
+}
+
+// Best chunk per note by cosine (ANN when available, otherwise a full scan); notes without
+// usable chunk vectors fall back to the note vector. Vectors of other embedding models are skipped
+function semanticRanking(qvec: Float32Array, where?: SQL): SemanticHit[] {
+  const ann = annSemanticRanking(qvec, where);
+  if (ann && (!where || ann.length >= MIN_FILTERED_ANN_HITS)) return ann;
+
+  const best = new Map<string, SemanticHit>();
+  const chunks = db
+    .select({
+      noteId: noteChunks.noteId,
+      ord: noteChunks.ord,
+      text: noteChunks.text,
+      startOffset: noteChunks.startOffset,
+      endOffset: noteChunks.endOffset,
+      embedding: noteChunks.embedding,
+    })
+    .from(noteChunks)
+    .innerJoin(notes, eq(notes.id, noteChunks.noteId))
+    .where(and(isNull(notes.deletedAt), currentVectorCondition(noteChunks), where))
+    .all();
+  for (const ch of chunks) {
+    const v = fromBlob(ch.embedding);
+    if (!v || v.length !== qvec.length) continue;
+    const score = dot(qvec, v);
+    const cur = best.get(ch.noteId);
+    if (cur && cur.score >= score) continue;
+    best.set(ch.noteId, {
+      noteId: ch.noteId,
+      score,
+      chunk: { ord: Number(ch.ord), text: ch.text, start: ch.startOffset ?? null, end: ch.endOffset ?? null },
+    });
+  }
+  const noteRows = db
+    .select({ id: notes.id, embedding: notes.embedding })
+    .from(notes)
+    .where(and(isNull(notes.deletedAt), currentVectorCondition(notes), where))
+    .all();
+  for (const n of noteRows) {
+    if (best.has(n.id)) continue;
+    const v = fromBlob(n.embedding);
+    if (!v || v.length !== qvec.length) continue;
+    best.set(n.id, { noteId: n.id, score: dot(qvec, v), chunk: null });
+  }
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CANDIDATE_POOL);
+}
+
+// Plain search terms (operators, quotes and prefix stars stripped), lowercased
+function queryTerms(query: string): string[] {
+  const words = query.match(/[\p{L}\p{N}][\p{L}\p{N}._-]*/gu) ?? [];
+  return Array.from(new Set(words.filter((w) => !['AND', 'OR', 'NOT'].includes(w)).map((w) => w.toLowerCase())));
+}
+
+// For keyword-only hits: the chunk containing the most query terms
+function chunksByTerms(noteIds: string[], terms: string[]): Map<string, ChunkMatch> {
+  const out = new Map<string, ChunkMatch>();
+  if (noteIds.length === 0 || terms.length === 0) return out;
+  const rows = db
+    .select({
+      noteId: noteChunks.noteId,
+      ord: noteChunks.ord,
+      text: noteChunks.text,
+      startOffset: noteChunks.startOffset,
+      endOffset: noteChunks.endOffset,
+    })
+    .from(noteChunks)
+    .where(inArray(noteChunks.noteId, noteIds))
+    .all();
+  const bestCount = new Map<string, number>();
+  for (const ch of rows) {
+    const lower = ch.text.toLowerCase();
+    let count = 0;
+    for (const t of terms) if (lower.includes(t)) count++;
+    if (count === 0 || count <= (bestCount.get(ch.noteId) ?? 0)) continue;
+    bestCount.set(ch.noteId, count);
+    out.set(ch.noteId, { ord: Number(ch.ord), text: ch.text, start: ch.startOffset ?? null, end: ch.endOffset ?? null });
+  }
+  return out;
+}
+
+// Filter-only queries (no free text): matching notes, most recently updated first
+function listFiltered(where: SQL | undefined, limit: number): SearchHit[] {
+  return db
+    .select({ id: notes.id, title: notes.title, createdAt: notes.createdAt, updatedAt: notes.updatedAt })
+    .from(notes)
+    .where(and(isNull(notes.deletedAt), where))
+    .orderBy(desc(notes.updatedAt))
+    .limit(limit)
+    .all()
+    .map((n) => ({
+      id: n.id,
+      title: n.title,
+      createdAt: n.createdAt ?? null,
+      updatedAt: n.updatedAt ?? null,
+      score: 0,
+      semanticScore: null,
+      keywordScore: null,
+      chunk: null,
+      snippet: null,
+      titleHighlight: null,
+    }));
+}
+
+export async function searchNotes(
+  query: string,
+  opts: { limit?: number; mode?: SearchMode; filters?: SearchFilters } = {}
+): Promise<SearchHit[]> {
+  const limit = opts.limit ?? 20;
+  const mode = opts.mode ?? 'hybrid';
+  const where = opts.filters && hasFilters(opts.filters) ? noteFilterCondition(opts.filters) : undefined;
+  if (!query.trim()) return listFiltered(where, limit);
+
+  let semantic: SemanticHit[] = [];
+  if (mode !== 'keyword') {
+    try {
+      // Quotes only matter to the keyword side
+      const qvec = normalize((await embedWithActiveModel(query.replace(/"/g, ''))).vec);
+      semantic = semanticRanking(qvec, where);
+    } catch (e) {
+      // Keep search usable without a model: degrade to keyword ranking
+      console.warn('Query embedding failed; falling back to keyword search', e);
+    }
+  }
+  const semanticAvailable = mode !== 'keyword' && semantic.length > 0;
+  const keyword: KeywordHit[] = mode === 'semantic' && semanticAvailable ? [] : keywordSearch(query, CANDIDATE_POOL, where);
+
+  // Reciprocal rank fusion over whichever rankings are present
+  const fused = new Map<string, number>();
+  semantic.forEach((h, i) => fused.set(h.noteId, (fused.get(h.noteId) ?? 0) + 1 / (RRF_K + i + 1)));
+  keyword.forEach((h, i) => fused.set(h.id, (fused.get(h.id) ?? 0) + 1 / (RRF_K + i + 1)));
+
+  const semanticById = new Map(semantic.map((h) => [h.noteId, h]));
+  const keywordById = new Map(keyword.map((h) => [h.id, h]));
+  const ids = Array.from(fused.keys())
+    .sort((a, b) => (fused.get(b) ?? 0) - (fused.get(a) ?? 0))
+    .slice(0, limit);
+  if (ids.length === 0) return [];
+
+  const meta = new Map(
+    db
+      .select({ id: notes.id, title: notes.title, createdAt: notes.createdAt, updatedAt: notes.updatedAt })
+      .from(notes)
+      .where(inArray(notes.id, ids))
+      .all()
+      .map((n) => [n.id, n] as const)
+  );
+  const termChunks = chunksByTerms(ids.filter((id) => !semanticById.get(id)?.chunk), queryTerms(query));
+
+  const out: SearchHit[] = [];
+  for (const id of ids) {
+    const n = meta.get(id);
+    if (!n) continue;
+    const s = semanticById.get(id);
+    const k = keywordById.get(id);
+    const score = keyword.length === 0 ? s?.score ?? 0 : semantic.length === 0 ? k?.score ?? 0 : fused.get(id) ?? 0;
+    out.push({
+      id,
+      title: n.title,
+      createdAt: n.createdAt ?? null,
+      updatedAt: n.updatedAt ?? null,
+      score,
+      semanticScore: s?.score ?? null,
+      keywordScore: k?.score ?? null,
+      chunk: s?.chunk ?? termChunks.get(id) ?? null,
+      snippet: k?.snippet || null,
+      titleHighlight: k?.titleHighlight ?? null,
+    });
+  }
+  return out;
+}
@@ -0,0 +1,124 @@
+// Structured search filters and the inline query syntax that produces them.
+//
+//   tag:nodejs tag:"machine learning"   every tag must be present
+//   entity:postgres                     every entity must be present
+//   space:work                          space by name (case-insensitive) or id
+//   folder:inbox
+//   after:2025-06-01 before:2026-01-01  created date range (after inclusive, before exclusive)
+//   updated-after:… updated-before:…    updated date range
+//   status:processed|pending|failed     background processing state (see lib/processingStatus.ts)
+//   "exact phrase"                      note must contain the phrase; also used for ranking
+//
+// Everything else is free text for ranking. Unknown `key:value` tokens stay in the text.
+
+export type ProcessingStatusFilter = 'processed' | 'pending' | 'failed';
+
+export type SearchFilters = {
+  spaceId?: string;
+  space?: string; // name or id, resolved server-side
+  folder?: string;
+  tags?: string[];
+  entities?: string[];
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  status?: ProcessingStatusFilter;
+  phrases?: string[];
+};
+
+export type ParsedSearchQuery = {
+  text: string; // free text for ranking (phrases included, unquoted)
+  filters: SearchFilters;
+};
+
+// Accepts YYYY-MM-DD or any Date-parsable string; returns an ISO timestamp or null
+export function parseDateBound(raw: string): string | null {
+  const s = raw.trim();
+  if (!s) return null;
+  const t = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(s) ? `${s}T00:00:00.000Z` : s);
+  return Number.isFinite(t) ? new Date(t).toISOString() : null;
+}
+
+const TOKEN_RE = /([a-zA-Z-]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/g;
+
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const filters: SearchFilters = {};
+  const text: string[] = [];
+  let m: RegExpExecArray | null;
+  TOKEN_RE.lastIndex = 0;
+  while ((m = TOKEN_RE.exec(input)) !== null) {
+    if (m[4] !== undefined) {
+      const phrase = m[4].trim();
+      if (phrase) {
+        (filters.phrases ??= []).push(phrase);
+        text.push(`"${phrase}"`);
+      }
+      continue;
+    }
+    if (m[5] !== undefined) {
+      text.push(m[5]);
+      continue;
+    }
+    const key = m[1].toLowerCase();
+    const value = (m[2] ?? m[3] ?? '').trim();
+    if (!value) continue;
+    switch (key) {
+      case 'tag':
+        (filters.tags ??= []).push(value);
+        break;
+      case 'entity':
+        (filters.entities ??= []).push(value);
+        break;
+      case 'space':
+        filters.space = value;
+        break;
+      case 'folder':
+        filters.folder = value;
+        break;
+      case 'after':
+      case 'before':
+      case 'updated-after':
+      case 'updated-before': {
+        const iso = parseDateBound(value);
+        if (!iso) {
+          text.push(m[0]);
+          break;
+        }
+        if (key === 'after') filters.createdAfter = iso;
+        else if (key === 'before') filters.createdBefore = iso;
+        else if (key === 'updated-after') filters.updatedAfter = iso;
+        else filters.updatedBefore = iso;
+        break;
+      }
+      case 'status':
+        if (value === 'processed' || value === 'pending' || value === 'failed') filters.status = value;
+        else text.push(m[0]);
+        break;
+      default:
+        text.push(m[0]);
+    }
+  }
+  return { text: text.join(' ').trim(), filters };
+}
+
+// Inline filters win over request-level ones for scalars; list filters accumulate
+export function mergeFilters(base: SearchFilters, inline: SearchFilters): SearchFilters {
+  const out: SearchFilters = { ...base };
+  for (const [k, v] of Object.entries(inline) as Array<[keyof SearchFilters, SearchFilters[keyof SearchFilters]]>) {
+    if (v === undefined) continue;
+    if (Array.isArray(v)) {
+      const prev = (out[k] as string[] | undefined) ?? [];
+      (out as Record<string, unknown>)[k] = Array.from(new Set([...prev, ...v]));
+    } else {
+      (out as Record<string, unknown>)[k] = v;
+    }
+  }
+  // An inline space: replaces the caller's space scope
+  if (inline.space !== undefined) delete out.spaceId;
+  return out;
+}
+
+export function hasFilters(f: SearchFilters): boolean {
+  return Object.values(f).some((v) => (Array.isArray(v) ? v.length > 0 : v !== undefined && v !== ''));
+}
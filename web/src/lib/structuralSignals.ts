@@ -0,0 +1,90 @@
+// Structural link signals (see StructuralSignals in lib/linkScoring.ts):
+//   reference  A mentions B: B's title in A's text, or B's id anywhere in A's content (ids appear
+//              in note URLs and link hrefs)
+//   temporal   A and B were edited within 24h of each other and share a tag or an entity
+//   session    A and B were created in the same client editing session
+import type { Note } from '@/db/client';
+import { extractPlainTextFromTiptap } from './embeddings';
+import { normalizeEntityName } from './entities';
+import type { StructuralSignals } from './linkScoring';
+
+const TEMPORAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Shorter titles ("Todo", "Ideas") match too much ordinary text to count as a reference
+const MIN_REFERENCE_TITLE_LENGTH = 4;
+// Note ids are UUIDs; anything much shorter could occur in the JSON by chance
+const MIN_REFERENCE_ID_LENGTH = 8;
+
+export type StructuralNote = {
+  id: string;
+  title: string;
+  // Lowercased plain text and raw content JSON, for reference detection
+  text: string;
+  contentJson: string;
+  updatedMs: number | null;
+  sessionId: string | null;
+  tags: Set<string>;
+  entities: Set<string>;
+};
+
+// Timestamps are ISO strings or SQLite CURRENT_TIMESTAMP values (UTC without a zone)
+function parseTimestamp(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const iso = /[zZ]|[+-]\d\d:?\d\d$/.test(value) ? value : `${value.replace(' ', 'T')}Z`;
+  const ms = Date.parse(iso);
+  return Number.isFinite(ms) ? ms : null;
+}
+
+function safeParseJSON(input: string | null | undefined) {
+  if (!input) return null;
+  try {
+    return JSON.parse(input);
+  } catch {
+    return null;
+  }
+}
+
+export function toStructuralNote(
+  row: Pick<Note, 'id' | 'title' | 'contentJson' | 'updatedAt' | 'sessionId'>,
+  tags: string[] = [],
+  entities: Array<{ entity: string }> = [],
+): StructuralNote {
+  return {
+    id: row.id,
+    title: (row.title || '').trim().toLowerCase(),
+    text: extractPlainTextFromTiptap(safeParseJSON(row.contentJson) ?? {}).toLowerCase(),
+    contentJson: row.contentJson || '',
+    updatedMs: parseTimestamp(row.updatedAt),
+    sessionId: row.sessionId ?? null,
+    tags: new Set(tags),
+    entities: new Set(entities.map((e) => normalizeEntityName(e.entity)).filter(Boolean)),
+  };
+}
+
+// Whole-word, case-insensitive occurrence of `title` in `text`
+function mentionsTitle(text: string, title: string): boolean {
+  if (title.length < MIN_REFERENCE_TITLE_LENGTH || title === 'untitled') return false;
+  const isWordChar = (c: string | undefined) => !!c && /[\p{L}\p{N}]/u.test(c);
+  for (let i = text.indexOf(title); i >= 0; i = text.indexOf(title, i + 1)) {
+    if (!isWordChar(text[i - 1]) && !isWordChar(text[i + title.length])) return true;
+  }
+  return false;
+}
+
+function shares(a: Set<string>, b: Set<string>): boolean {
+  for (const x of a) if (b.has(x)) return true;
+  return false;
+}
+
+// Signals for the link A -> B (reference is directional, the others symmetric)
+export function computeStructuralSignals(a: StructuralNote, b: StructuralNote): Required<StructuralSignals> {
+  const reference = (b.id.length >= MIN_REFERENCE_ID_LENGTH && a.contentJson.includes(b.id)) || mentionsTitle(a.text, b.title);
+  const temporal = a.updatedMs != null && b.updatedMs != null
+    && Math.abs(a.updatedMs - b.updatedMs) <= TEMPORAL_WINDOW_MS
+    && (shares(a.tags, b.tags) || shares(a.entities, b.entities));
+  const session = !!a.sessionId && a.sessionId === b.sessionId;
+  return {
+    reference_score: reference ? 1 : 0,
+    temporal_score: temporal ? 1 : 0,
+    session_score: session ? 1 : 0,
+  };
+}
@@ -0,0 +1,56 @@
+// Corpus statistics for tags: document frequency per tag (persisted in tag_stats) and the
+// derived BM25 IDF and average tags per note used by tag scoring (lib/tags.ts computeTagBM25).
+// Only notes outside the trash count.
+import { db, tagStats } from '@/db/client';
+import { sql } from 'drizzle-orm';
+
+export type TagCorpusStats = {
+  // Notes (not in the trash) with at least one tag
+  documents: number;
+  // Average tag count over those notes
+  avgTags: number;
+  df: Map<string, number>;
+  idf: Record<string, number>;
+};
+
+type Runner = Pick<typeof db, 'run'>;
+
+// BM25 IDF; stays positive for tags found on every note
+export function tagIdf(df: number, documents: number): number {
+  return Math.log(1 + (documents - df + 0.5) / (df + 0.5));
+}
+
+// Recompute the document frequency of `tags` (every tag when omitted). Call after a note's tags
+// change or the note moves in or out of the trash, with the tags involved.
+export function refreshTagStats(tags?: string[], runner: Runner = db) {
+  if (tags && tags.length === 0) return;
+  const now = new Date().toISOString();
+  const only = tags ? sql`AND nt.tag IN (${sql.join(tags.map((t) => sql`${t}`), sql`, `)})` : sql``;
+  runner.run(tags ? sql`DELETE FROM tag_stats WHERE tag IN (${sql.join(tags.map((t) => sql`${t}`), sql`, `)})` : sql`DELETE FROM tag_stats`);
+  runner.run(sql`
+    INSERT INTO tag_stats (tag, df, updated_at)
+    SELECT nt.tag, COUNT(DISTINCT nt.note_id), ${now}
+    FROM note_tags nt
+    JOIN notes n ON n.id = nt.note_id
+    WHERE n.deleted_at IS NULL ${only}
+    GROUP BY nt.tag
+  `);
+}
+
+export function tagCorpusStats(): TagCorpusStats {
+  const documents = db.get<{ n: number }>(sql`
+    SELECT COUNT(DISTINCT nt.note_id) AS n
+    FROM note_tags nt
+    JOIN notes n ON n.id = nt.note_id
+    WHERE n.deleted_at IS NULL
+  `)?.n ?? 0;
+  const df = new Map<string, number>();
+  let total = 0;
+  for (const r of db.select({ tag: tagStats.tag, df: tagStats.df }).from(tagStats).all()) {
+    df.set(r.tag, r.df);
+    total += r.df;
+  }
+  const idf: Record<string, number> = {};
+  for (const [tag, n] of df) idf[tag] = tagIdf(n, documents);
+  return { documents, avgTags: documents > 0 ? total / documents : 0, df, idf };
+}
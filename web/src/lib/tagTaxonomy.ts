@@ -0,0 +1,146 @@
+// User-managed tag taxonomy: aliases (a tag rewritten to its canonical form) and blocked tags
+// (dropped), stored in tag_rules and edited from the tags tab on /topics. normalizeTags
+// (lib/tags.ts) applies them to newly generated tags; the operations below also rewrite the tags
+// already on notes and refresh their document frequencies (lib/tagStats.ts).
+//
+// Aliases are kept one hop deep: when `a -> b` exists and `b` becomes an alias of `c`, the rule
+// for `a` is rewritten to `a -> c`. Removing a rule only affects tags generated from then on.
+import { db, noteTags, tagRules, type TagRule } from '@/db/client';
+import { eq, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { refreshTagStats } from './tagStats';
+
+export type TagRuleKind = 'alias' | 'block';
+
+export type TagTaxonomy = { aliases: Map<string, string>; blocked: Set<string> };
+
+export type TaxonomyResult =
+  | { ok: true; tag: string; target: string | null; affected: number }
+  | { error: 'not_found' | 'exists' | 'same' | 'blocked' | 'cycle'; tag: string; target?: string };
+
+// Tag names as stored: lowercase letters, digits, '.', '+', '#' and '-'
+export const TagName = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .min(1)
+  .max(64)
+  .regex(/^[a-z0-9][a-z0-9.+#-]*$/);
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function cache() {
+  return global as typeof globalThis & { __tagTaxonomy?: TagTaxonomy | null };
+}
+
+// Rules in effect, cached until they change
+export function tagTaxonomy(): TagTaxonomy {
+  const g = cache();
+  if (g.__tagTaxonomy) return g.__tagTaxonomy;
+  const aliases = new Map<string, string>();
+  const blocked = new Set<string>();
+  for (const r of db.select().from(tagRules).all()) {
+    if (r.kind === 'alias' && r.target) aliases.set(r.tag, r.target);
+    else if (r.kind === 'block') blocked.add(r.tag);
+  }
+  g.__tagTaxonomy = { aliases, blocked };
+  return g.__tagTaxonomy;
+}
+
+function invalidate() {
+  cache().__tagTaxonomy = null;
+}
+
+export function listTagRules(): TagRule[] {
+  return db.select().from(tagRules).orderBy(tagRules.kind, tagRules.tag).all();
+}
+
+function inUse(tag: string, tx: Tx): boolean {
+  return !!tx.select({ tag: noteTags.tag }).from(noteTags).where(eq(noteTags.tag, tag)).get();
+}
+
+function countNotes(tag: string, tx: Tx): number {
+  return tx.get<{ n: number }>(sql`SELECT COUNT(*) AS n FROM note_tags WHERE tag = ${tag}`)?.n ?? 0;
+}
+
+// Record `from` as an alias of `to` and move every note tagged `from` over to it
+function applyAlias(from: string, to: string, tx: Tx): TaxonomyResult {
+  const rules = new Map(tx.select().from(tagRules).all().map((r) => [r.tag, r]));
+  const toRule = rules.get(to);
+  const target = toRule?.kind === 'alias' && toRule.target ? toRule.target : to;
+  if (target === from) return { error: 'cycle', tag: from, target: to };
+  if (toRule?.kind === 'block' || rules.get(target)?.kind === 'block') return { error: 'blocked', tag: from, target };
+  const affected = countNotes(from, tx);
+  tx.insert(tagRules)
+    .values({ tag: from, kind: 'alias', target, createdAt: new Date().toISOString() })
+    .onConflictDoUpdate({ target: tagRules.tag, set: { kind: 'alias', target } })
+    .run();
+  tx.update(tagRules).set({ target }).where(eq(tagRules.target, from)).run();
+  tx.run(sql`
+    INSERT OR IGNORE INTO note_tags (note_id, tag, source, created_at)
+    SELECT note_id, ${target}, source, created_at FROM note_tags WHERE tag = ${from}
+  `);
+  tx.delete(noteTags).where(eq(noteTags.tag, from)).run();
+  refreshTagStats([from, target], tx);
+  return { ok: true, tag: from, target, affected };
+}
+
+function write(fn: (tx: Tx) => TaxonomyResult): TaxonomyResult {
+  const result = db.transaction(fn);
+  if ('ok' in result) {
+    invalidate();
+    try {
+      console.log(`[tags] ${result.tag}${result.target ? ` -> ${result.target}` : ' blocked'}: ${result.affected} note(s) updated`);
+    } catch {}
+  }
+  return result;
+}
+
+// Rename a tag on every note; the new name must not be in use yet (merge into it instead)
+export function renameTag(from: string, to: string): TaxonomyResult {
+  return write((tx) => {
+    if (from === to) return { error: 'same', tag: from };
+    if (!inUse(from, tx)) return { error: 'not_found', tag: from };
+    if (inUse(to, tx)) return { error: 'exists', tag: from, target: to };
+    return applyAlias(from, to, tx);
+  });
+}
+
+// Fold a tag into another one already in use
+export function mergeTag(from: string, into: string): TaxonomyResult {
+  return write((tx) => {
+    if (from === into) return { error: 'same', tag: from };
+    if (!inUse(from, tx)) return { error: 'not_found', tag: from };
+    if (!inUse(into, tx)) return { error: 'not_found', tag: into };
+    return applyAlias(from, into, tx);
+  });
+}
+
+// Treat `alias` as a synonym of `canonical`, whether or not either is in use yet
+export function aliasTag(alias: string, canonical: string): TaxonomyResult {
+  return write((tx) => {
+    if (alias === canonical) return { error: 'same', tag: alias };
+    return applyAlias(alias, canonical, tx);
+  });
+}
+
+// Drop a tag from every note and from generated tags; aliases of it are dropped too
+export function blockTag(tag: string): TaxonomyResult {
+  return write((tx) => {
+    const affected = countNotes(tag, tx);
+    tx.insert(tagRules)
+      .values({ tag, kind: 'block', target: null, createdAt: new Date().toISOString() })
+      .onConflictDoUpdate({ target: tagRules.tag, set: { kind: 'block', target: null } })
+      .run();
+    tx.delete(noteTags).where(eq(noteTags.tag, tag)).run();
+    refreshTagStats([tag], tx);
+    return { ok: true, tag, target: null, affected };
+  });
+}
+
+// Remove the alias or block rule for a tag; returns false when there is none
+export function removeTagRule(tag: string): boolean {
+  const res = db.delete(tagRules).where(eq(tagRules.tag, tag)).run();
+  invalidate();
+  return res.changes > 0;
+}
@@ -1,4 +1,7 @@
-const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434';
+import { z } from 'zod';
+import { generateJson } from './llm';
+import { tagTaxonomy } from './tagTaxonomy';
+
 // Separate model name to avoid clashing with embedding model; do not fall back to OLLAMA_MODEL
 const OLLAMA_TAGGER_MODEL = process.env.OLLAMA_TAGGER_MODEL || 'qwen2.5:3b-instruct';
 
@@ -18,20 +21,7 @@ Return only JSON:
 `;
 
 // --- Tag normalization helpers ---
-const STOPLIST = new Set([
-  'hello','question','example','examples','simple','simple_code','greeting','purpose','note','notes','misc','general','random','test','todo'
-]);
-
-const CANON_MAP: Record<string, string> = {
-  js: 'javascript',
-  'node': 'nodejs',
-  'node-js': 'nodejs',
-  'nodejs-stream': 'nodejs-streams',
-  ts: 'typescript',
-  'reactjs': 'react',
-  'nextjs': 'next.js', // keep common query form if you prefer 'nextjs' swap here
-  'power rangers': 'power-rangers',
-};
+// Synonyms and blocked tags come from the user-managed taxonomy (lib/tagTaxonomy.ts)
 
 function kebabize(s: string): string {
   // Lowercase, replace non-alphanum with space (keep hyphen), collapse, then join with '-'
@@ -45,13 +35,9 @@ function kebabize(s: string): string {
   return out;
 }
 
-function canonicalize(tag: string): string {
-  if (CANON_MAP[tag]) return CANON_MAP[tag];
-  return tag;
-}
-
 export function normalizeTags(tags: unknown): string[] {
   if (!Array.isArray(tags)) return [];
+  const { aliases, blocked } = tagTaxonomy();
   const seen = new Set<string>();
   const out: string[] = [];
   for (const t of tags) {
@@ -62,9 +48,9 @@ export function normalizeTags(tags: unknown): string[] {
     const wc = s.split('-').filter(Boolean).length;
     if (wc > 3) continue;
     // canonicalize synonyms
-    s = canonicalize(s);
-    // drop stop words
-    if (STOPLIST.has(s)) continue;
+    s = aliases.get(s) ?? s;
+    // drop blocked tags
+    if (blocked.has(s)) continue;
     if (seen.has(s)) continue;
     seen.add(s);
     out.push(s);
@@ -73,47 +59,41 @@ export function normalizeTags(tags: unknown): string[] {
   return out.slice(0, 10);
 }
 
-function extractJsonObject(text: string): any | null {
-  const match = text.match(/\{[\s\S]*\}/);
-  if (!match) return null;
-  try {
-    return JSON.parse(match[0]);
-  } catch {
-    return null;
+const TagsReply = z.object({ tags: z.array(z.string()) });
+
+// Common words ignored by the rule-based tagger
+const RULE_STOPWORDS = new Set([
+  'the','and','for','with','that','this','from','have','has','had','are','was','were','will','would','could','should',
+  'not','but','you','your','our','their','they','them','then','than','there','here','what','when','where','which','who',
+  'how','why','all','any','can','into','about','also','just','like','some','more','most','other','only','very','its',
+  'been','being','does','did','done','out','over','such','each','these','those','one','two','use','using','used',
+]);
+
+// Most frequent content words, for the 'rules' LLM provider
+export function ruleBasedTags(text: string): string[] {
+  const { blocked } = tagTaxonomy();
+  const counts = new Map<string, number>();
+  for (const w of text.toLowerCase().match(/[a-z][a-z0-9-]{2,}/g) ?? []) {
+    if (RULE_STOPWORDS.has(w) || blocked.has(w)) continue;
+    counts.set(w, (counts.get(w) ?? 0) + 1);
   }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 5)
+    .map(([w]) => w);
 }
 
-export async function generateTagsFromText(text: string): Promise<string[]> {
-  // Construct prompt
-  const prompt = `${BASE_PROMPT}\n\nText to tag:\n"""\n${text}\n"""`;
-  const body = {
+export async function generateTagsFromText(text: string, opts?: { signal?: AbortSignal }): Promise<string[]> {
+  const reply = await generateJson({
+    task: 'tags',
+    prompt: `${BASE_PROMPT}\n\nText to tag:\n"""\n${text}\n"""`,
+    schema: TagsReply,
     model: OLLAMA_TAGGER_MODEL,
-    prompt,
-    stream: false,
-    options: { temperature: 0.2 },
-    format: 'json',
-  } as const;
-
-  const res = await fetch(`${OLLAMA_HOST}/api/generate`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
+    rules: () => ({ tags: ruleBasedTags(text) }),
+    temperature: 0.2,
+    signal: opts?.signal,
   });
-  if (!res.ok) {
-    const msg = await res.text().catch(() => '');
-    throw new Error(`Ollama tagging failed: HTTP ${res.status} ${msg}`);
-  }
-  const json = await res.json().catch(() => ({} as any));
-  const raw = json?.response ?? '';
-
-  let parsed: any | null = null;
-  try {
-    parsed = JSON.parse(raw);
-  } catch {
-    parsed = extractJsonObject(raw);
-  }
-  const tags = normalizeTags(parsed?.tags);
-  return tags;
+  return normalizeTags(reply.tags);
 }
 
 // --- Tag similarity scoring (Section 4C) ---
@@ -127,15 +107,16 @@ export function computeTagJaccard(a: string[] = [], b: string[] = []): number {
   return union === 0 ? 0 : inter / union;
 }
 
-// Minimal BM25 for tag sets. Without a corpus, treat idf=1 for matched tags, length-normalized.
-export function computeTagBM25(query: string[] = [], doc: string[] = [], opts?: { idf?: Record<string, number>; k1?: number; b?: number }): number {
+// Minimal BM25 for tag sets. Without corpus statistics (lib/tagStats.ts), treat idf=1 for matched
+// tags and assume 6 tags per note for length normalization.
+export function computeTagBM25(query: string[] = [], doc: string[] = [], opts?: { idf?: Record<string, number>; avgdl?: number; k1?: number; b?: number }): number {
   const k1 = opts?.k1 ?? 1.2;
   const b = opts?.b ?? 0.75;
   const idf = opts?.idf;
   const q = Array.from(new Set(query.map(kebabize)));
   const d = Array.from(new Set(doc.map(kebabize)));
   const dl = d.length || 1; // document length in tags
-  const avgdl = 6; // heuristic average tag count per note
+  const avgdl = opts?.avgdl && opts.avgdl > 0 ? opts.avgdl : 6; // average tag count per note
   let score = 0;
   for (const t of q) {
     const tf = d.includes(t) ? 1 : 0; // tags are sets, so 0/1
@@ -147,9 +128,9 @@ export function computeTagBM25(query: string[] = [], doc: string[] = [], opts?:
   return score; // unbounded small value; we'll squash below
 }
 
-export function computeTagScore(a: string[] = [], b: string[] = [], opts?: { idf?: Record<string, number> }): number {
+export function computeTagScore(a: string[] = [], b: string[] = [], opts?: { idf?: Record<string, number>; avgdl?: number }): number {
   const j = computeTagJaccard(a, b);
-  const bm25 = computeTagBM25(a, b, { idf: opts?.idf });
+  const bm25 = computeTagBM25(a, b, { idf: opts?.idf, avgdl: opts?.avgdl });
   // Squash BM25 to 0..1 for mixing; hyperparameter 3 keeps curve gentle
   const bm25n = bm25 / (bm25 + 3);
   const score = 0.7 * j + 0.3 * bm25n;
@@ -1,4 +1,6 @@
-const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434';
+import { z } from 'zod';
+import { generateJson } from './llm';
+
 // Separate model name for title generation to avoid clashing with other models
 export const OLLAMA_TITLE_MODEL = process.env.OLLAMA_TITLE_MODEL || 'qwen2.5:3b-instruct';
 
@@ -6,17 +8,12 @@ import { extractPlainTextFromTiptap } from './embeddings';
 
 const TITLE_PROMPT = `You are a helpful assistant. Generate a concise, descriptive title (max 8 words) for the given text.\nReturn only JSON: {"title": "Your Title"}.`;
 
-function extractJsonObject(text: string): any | null {
-  const match = text.match(/\{[\s\S]*\}/);
-  if (!match) return null;
-  try {
-    return JSON.parse(match[0]);
-  } catch {
-    return null;
-  }
-}
+const TitleReply = z.object({ title: z.string() });
+
+// Titles are generated while the note is being saved, so give up sooner than background tasks
+const TITLE_TIMEOUT_MS = 15_000;
 
-function fallbackTitleFromText(text: string): string {
+export function fallbackTitleFromText(text: string): string {
   const cleaned = (text || '').replace(/\s+/g, ' ').trim();
   if (!cleaned) return 'Untitled';
   const m = cleaned.match(/^(.*?[.!?])\s/);
@@ -24,43 +21,17 @@ function fallbackTitleFromText(text: string): string {
   return guess || 'Untitled';
 }
 
-export async function generateTitleFromText(text: string): Promise<string> {
-  const prompt = `${TITLE_PROMPT}\n\nText:\n"""\n${text}\n"""`;
-  const body = {
+export async function generateTitleFromText(text: string, opts?: { signal?: AbortSignal }): Promise<string> {
+  const reply = await generateJson({
+    task: 'title',
+    prompt: `${TITLE_PROMPT}\n\nText:\n"""\n${text}\n"""`,
+    schema: TitleReply,
     model: OLLAMA_TITLE_MODEL,
-    prompt,
-    stream: false,
-    options: { temperature: 0.3 },
-    format: 'json' as const,
-  };
-
-  const res = await fetch(`${OLLAMA_HOST}/api/generate`, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(body),
+    rules: () => ({ title: fallbackTitleFromText(text) }),
+    temperature: 0.3,
+    timeoutMs: TITLE_TIMEOUT_MS,
+    signal: opts?.signal,
   });
-
-  if (!res.ok) {
-    const msg = await res.text().catch(() => '');
-    throw new Error(`Title generation failed: HTTP ${res.status} ${msg}`);
-  }
-
-  const json = await res.json().catch(() => ({} as any));
-  const raw = json?.response ?? '';
-
-  let parsed: any | null = null;
-  try {
-    parsed = JSON.parse(raw);
-  } catch {
-    parsed = extractJsonObject(raw);
-  }
-
-  let title = '';
-  if (parsed && typeof parsed.title === 'string') {
-    title = parsed.title.trim();
-  }
-
-  if (!title) title = fallbackTitleFromText(text);
-
+  const title = reply.title.trim() || fallbackTitleFromText(text);
   return (title || 'Untitled').slice(0, 80);
-}
\ No newline at end of file
+}
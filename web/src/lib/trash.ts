@@ -0,0 +1,110 @@
+// Trash: soft delete, restore, permanent delete and retention-based purge
+import { db, jobs, notes, noteChunks, noteEntities, noteLinks, noteRevisions, noteTags } from '@/db/client';
+import { and, desc, eq, isNotNull, isNull, lt, or } from 'drizzle-orm';
+import { removeNoteText } from './fts';
+import { annRemoveNote } from './annIndex';
+import { removeStagedVectors } from './reindex';
+import { getNoteTags } from './noteTerms';
+import { refreshTagStats } from './tagStats';
+
+// Days a note stays in the trash before it is purged automatically
+export const TRASH_RETENTION_DAYS = Math.max(1, Number(process.env.TRASH_RETENTION_DAYS) || 30);
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export type TrashedNote = {
+  id: string;
+  title: string;
+  deletedAt: string;
+  purgeAt: string;
+  spaceId: string | null;
+};
+
+function purgeDate(deletedAt: string): string {
+  return new Date(Date.parse(deletedAt) + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function listTrash(): TrashedNote[] {
+  const rows = db
+    .select({ id: notes.id, title: notes.title, deletedAt: notes.deletedAt, spaceId: notes.spaceId })
+    .from(notes)
+    .where(isNotNull(notes.deletedAt))
+    .orderBy(desc(notes.deletedAt))
+    .all();
+  return rows.map((r) => ({
+    id: r.id,
+    title: r.title,
+    deletedAt: r.deletedAt as string,
+    purgeAt: purgeDate(r.deletedAt as string),
+    spaceId: r.spaceId ?? null,
+  }));
+}
+
+// Move a note to the trash; a note already there keeps its deletedAt (and so its purge date)
+export function trashNote(id: string): boolean {
+  const res = db
+    .update(notes)
+    .set({ deletedAt: new Date().toISOString() })
+    .where(and(eq(notes.id, id), isNull(notes.deletedAt)))
+    .run();
+  if (res.changes > 0) refreshTagStats(getNoteTags(id));
+  return res.changes > 0;
+}
+
+export function restoreNote(id: string): boolean {
+  const res = db
+    .update(notes)
+    .set({ deletedAt: null, updatedAt: new Date().toISOString() })
+    .where(and(eq(notes.id, id), isNotNull(notes.deletedAt)))
+    .run();
+  if (res.changes > 0) refreshTagStats(getNoteTags(id));
+  return res.changes > 0;
+}
+
+// Remove a note and everything derived from it
+export function permanentlyDeleteNote(id: string): boolean {
+  const tags = getNoteTags(id);
+  const deleted = db.transaction((tx) => {
+    removeStagedVectors(id, tx);
+    tx.delete(noteChunks).where(eq(noteChunks.noteId, id)).run();
+    tx.delete(noteRevisions).where(eq(noteRevisions.noteId, id)).run();
+    tx.delete(noteLinks).where(or(eq(noteLinks.sourceId, id), eq(noteLinks.targetId, id))).run();
+    tx.delete(noteTags).where(eq(noteTags.noteId, id)).run();
+    refreshTagStats(tags, tx);
+    tx.delete(noteEntities).where(eq(noteEntities.noteId, id)).run();
+    removeNoteText(id, tx);
+    tx.delete(jobs).where(eq(jobs.noteId, id)).run();
+    const res = tx.delete(notes).where(eq(notes.id, id)).run();
+    return res.changes > 0;
+  });
+  if (deleted) annRemoveNote(id);
+  return deleted;
+}
+
+// Permanently delete notes that have been in the trash longer than the retention period
+export function purgeExpiredTrash(now: Date = new Date()): number {
+  const cutoff = new Date(now.getTime() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const expired = db
+    .select({ id: notes.id })
+    .from(notes)
+    .where(and(isNotNull(notes.deletedAt), lt(notes.deletedAt, cutoff)))
+    .all();
+  let purged = 0;
+  for (const row of expired) {
+    if (permanentlyDeleteNote(row.id)) purged++;
+  }
+  if (purged > 0) {
+    try { console.log(`[trash] purged ${purged} note(s) older than ${TRASH_RETENTION_DAYS} days`); } catch {}
+  }
+  return purged;
+}
+
+// Run the purge now and then hourly; guarded so dev reloads do not stack timers
+export function startTrashPurgeTimer() {
+  const g = global as typeof globalThis & { __trashPurgeTimer?: ReturnType<typeof setInterval> };
+  if (g.__trashPurgeTimer) return;
+  try { purgeExpiredTrash(); } catch (e) { console.error('Trash purge failed', e); }
+  g.__trashPurgeTimer = setInterval(() => {
+    try { purgeExpiredTrash(); } catch (e) { console.error('Trash purge failed', e); }
+  }, PURGE_INTERVAL_MS);
+  g.__trashPurgeTimer.unref?.();
+}
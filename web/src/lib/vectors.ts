@@ -0,0 +1,55 @@
+// Embedding vector utilities: Float32 BLOB encoding and similarity.
+// Stored vectors are L2-normalized at write time, so cosine similarity is a plain dot product.
+
+export type VectorLike = Float32Array | number[];
+
+// Copy to Float32 and scale to unit length (zero vectors stay zero)
+export function normalize(v: ArrayLike<number>): Float32Array {
+  const out = new Float32Array(v.length);
+  let norm = 0;
+  for (let i = 0; i < v.length; i++) {
+    const x = Number(v[i]) || 0;
+    out[i] = x;
+    norm += x * x;
+  }
+  if (norm > 0) {
+    const inv = 1 / Math.sqrt(norm);
+    for (let i = 0; i < out.length; i++) out[i] *= inv;
+  }
+  return out;
+}
+
+export function toBlob(v: Float32Array): Buffer {
+  return Buffer.from(v.buffer, v.byteOffset, v.byteLength);
+}
+
+// Decode a Float32 BLOB; returns null for empty/malformed values
+export function fromBlob(raw: Buffer | Uint8Array | null | undefined): Float32Array | null {
+  if (!raw || raw.byteLength === 0 || raw.byteLength % 4 !== 0) return null;
+  // Float32Array views need 4-byte alignment; copy when SQLite hands back an unaligned slice
+  if (raw.byteOffset % 4 === 0) {
+    return new Float32Array(raw.buffer, raw.byteOffset, raw.byteLength / 4);
+  }
+  return new Float32Array(Uint8Array.prototype.slice.call(raw).buffer);
+}
+
+// Column values for a freshly computed embedding
+export function encodeEmbedding(
+  vec: ArrayLike<number>,
+  model: { name: string; version: string | null },
+): { embedding: Buffer; embeddingModel: string; embeddingVersion: string | null; embeddingDim: number } {
+  return { embedding: toBlob(normalize(vec)), embeddingModel: model.name, embeddingVersion: model.version, embeddingDim: vec.length };
+}
+
+// Dot product; 0 when dimensions differ or either side is missing
+export function dot(a: VectorLike | null | undefined, b: VectorLike | null | undefined): number {
+  if (!a || !b || a.length !== b.length || a.length === 0) return 0;
+  let s = 0;
+  for (let i = 0; i < a.length; i++) s += a[i] * b[i];
+  return s;
+}
+
+// Cosine similarity of two normalized vectors, clamped to 0..1 for scoring
+export function cosineSim(a: VectorLike | null | undefined, b: VectorLike | null | undefined): number {
+  return Math.max(0, Math.min(1, dot(a, b)));
+}